@@ -1,26 +1,76 @@
 
 
-import React, { useState, useEffect } from 'react';
-import { User, onAuthStateChanged, signOut } from 'firebase/auth';
-import { auth } from './firebase';
+import React, { useState, useEffect, useRef, useSyncExternalStore } from 'react';
 
 import LoginPage from './components/LoginPage';
 import SignupPage from './components/SignupPage';
 import ForgotPasswordPage from './components/ForgotPasswordPage';
 import DashboardPage from './components/DashboardPage';
+import VaultPage from './components/VaultPage';
+import ShareViewerPage from './components/ShareViewerPage';
+import VerifyEmailPage from './components/VerifyEmailPage';
+import SettingsPage from './components/SettingsPage';
+import LockScreen from './components/LockScreen';
+import { AuthUser, backend } from './services/backend';
+import { VaultKey } from './services/crypto';
+import { parseShareLocation } from './services/shares';
+import { ensureTwoFactorMarker } from './services/twoFactor';
+import { flushQueuedActivity, recordActivity } from './services/activity';
+import { DEFAULT_SETTINGS } from './services/settings';
+import { isLocked, lock, subscribeToLock, unlock } from './services/lock';
+import { isAuthRoute, navigate, navigateTo } from './services/routes';
+import { useRoute } from './hooks/useRoute';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { useUserSettings } from './hooks/useUserSettings';
+import { useIdleTimer } from './hooks/useIdleTimer';
 
 import { 
-    FirebaseLogoIcon, LogoutIcon, ProfileIcon
+    FirebaseLogoIcon, LockIcon, LogoutIcon, ProfileIcon
 } from './components/icons';
 
 // Fix: Export the Page type to be used by authentication pages.
 export type Page = 'login' | 'signup' | 'forgot-password';
 
-const TopHeader = ({ user }: { user: User }) => (
+// Whether this session passed the account's second factor, which the security rules insist on. A
+// session that began before it was turned on never did, and can only sign in again.
+type SecondFactorState = 'checking' | 'passed' | 'missing' | 'error';
+
+// Share links open a public viewer that works with or without a signed-in user.
+const shareLink = parseShareLocation(window.location);
+
+const ConnectionStatus = () => {
+    const online = useOnlineStatus();
+    return (
+        <span
+            className={`flex items-center space-x-1.5 text-xs font-medium ${online ? 'text-gray-400' : 'text-amber-400'}`}
+            title={online ? 'Connected' : 'Showing your files as last synced. Changes and uploads are sent when you reconnect.'}
+        >
+            <span className={`h-2 w-2 rounded-full ${online ? 'bg-green-500' : 'bg-amber-500'}`} />
+            <span>{online ? 'Online' : 'Offline'}</span>
+        </span>
+    );
+};
+
+// Recorded first: once signed out, the log can no longer be written to.
+const signOut = async (user: AuthUser) => {
+    await recordActivity(user.uid, 'sign-out');
+    await backend.auth.signOut();
+    unlock();
+};
+
+// Locks the locker after the user's idle time; renders nothing.
+const AutoLock = ({ user }: { user: AuthUser }) => {
+    const settings = useUserSettings(user.uid);
+    const minutes = settings ? settings.autoLockMinutes : DEFAULT_SETTINGS.autoLockMinutes;
+    useIdleTimer(minutes === null ? null : minutes * 60 * 1000, lock);
+    return null;
+};
+
+const TopHeader = ({ user }: { user: AuthUser }) => (
     <header className="grid grid-cols-3 h-12 items-center bg-[#282a2d] px-4 shadow-md z-20 flex-shrink-0">
         <div className="flex justify-start">
              <button
-                onClick={() => signOut(auth)}
+                onClick={() => signOut(user)}
                 className="flex items-center space-x-2 text-gray-300 hover:text-white font-semibold py-1.5 px-3 rounded-md transition-colors hover:bg-red-600/50"
             >
                 <LogoutIcon className="h-5 w-5" />
@@ -32,29 +82,91 @@ const TopHeader = ({ user }: { user: User }) => (
             <span className="text-lg font-medium text-gray-200 whitespace-nowrap">react-media-manager</span>
         </div>
         <div className="flex items-center space-x-4 justify-end">
-            <span className="text-gray-300 hidden sm:block truncate">{user.email}</span>
-            <ProfileIcon className="h-8 w-8 text-gray-300 bg-gray-700 rounded-full p-1" />
+            <ConnectionStatus />
+            <button onClick={lock} title="Lock now" className="p-1.5 text-gray-300 hover:text-white rounded-md transition-colors hover:bg-gray-700">
+                <LockIcon className="h-5 w-5" />
+            </button>
+            <span className="text-gray-300 hidden sm:block truncate">{user.displayName || user.email}</span>
+            <button onClick={() => navigateTo({ name: 'settings' })} title="Account settings" className="rounded-full transition-opacity hover:opacity-80">
+                {user.photoUrl
+                    ? <img src={user.photoUrl} alt="" className="h-8 w-8 rounded-full object-cover" />
+                    : <ProfileIcon className="h-8 w-8 text-gray-300 bg-gray-700 rounded-full p-1" />}
+            </button>
         </div>
     </header>
 );
 
 const App: React.FC = () => {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [loading, setLoading] = useState(true);
-  const [page, setPage] = useState<Page>('login');
+  const { path, route } = useRoute();
+  const [vaultKey, setVaultKey] = useState<VaultKey | null>(null);
+  const [secondFactor, setSecondFactor] = useState<SecondFactorState>('checking');
+  const sessionUid = useRef<string | null>(null);
+  const locked = useSyncExternalStore(subscribeToLock, isLocked);
+  // Where the dashboard was before the settings page opened over it, so it is still there on return.
+  const dashboardRoute = useRef(route);
+  if (route.name !== 'settings') dashboardRoute.current = route;
 
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
+    const unsubscribe = backend.auth.onAuthStateChanged((currentUser) => {
       setUser(currentUser);
+      // Profile changes arrive here too; only a different account starts a new session.
+      if (currentUser?.uid !== sessionUid.current) {
+        sessionUid.current = currentUser?.uid ?? null;
+        // The vault key is only ever held in memory for the signed-in session.
+        setVaultKey(null);
+        setSecondFactor('checking');
+      }
       setLoading(false);
     });
     return () => unsubscribe();
   }, []);
 
+  // The code itself is asked for while signing in; this only checks the session that resulted, after
+  // the email check and before the vault. Turning the factor on or off changes secondFactorSince.
+  useEffect(() => {
+    if (!user?.emailVerified) return;
+    let active = true;
+    backend.auth.isMissingSecondFactor()
+      .then(async missing => {
+        if (!missing) await ensureTwoFactorMarker(user);
+        if (active) setSecondFactor(missing ? 'missing' : 'passed');
+      })
+      .catch(err => {
+        console.error("Error checking two-step verification:", err);
+        if (active) setSecondFactor('error');
+      });
+    return () => { active = false; };
+  }, [user?.uid, user?.emailVerified, user?.secondFactorSince]);
+
+  // Sign-ins and other events from the auth pages wait until the user may write to their log.
+  useEffect(() => {
+    if (user && secondFactor === 'passed') flushQueuedActivity(user.uid, user.email);
+  }, [user?.uid, secondFactor]);
+
+  // Keep the user on the right side of the sign-in wall: visitors are sent to the login page with a
+  // note of where they were heading, and signed-in users are taken there instead of the auth pages.
+  useEffect(() => {
+    if (shareLink || loading) return;
+    if (!user && !isAuthRoute(route)) {
+      navigateTo({ name: 'login', next: route.name === 'not-found' || path === '/' ? null : path }, { replace: true });
+    } else if (user && isAuthRoute(route)) {
+      navigate(route.next ?? '/', { replace: true });
+    } else if (user && route.name === 'not-found') {
+      navigate('/', { replace: true });
+    }
+  }, [user, loading, route, path]);
+
   const handleNavigate = (newPage: Page) => {
-    setPage(newPage);
+    // Carry the pending destination across the login, signup and reset pages.
+    navigateTo({ name: newPage, next: isAuthRoute(route) ? route.next : null });
   };
 
+  if (shareLink) {
+    return <ShareViewerPage link={shareLink} />;
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen bg-[#202124] text-white">
@@ -64,7 +176,7 @@ const App: React.FC = () => {
   }
   
   if (!user) {
-    switch (page) {
+    switch (isAuthRoute(route) ? route.name : 'login') {
       case 'signup':
         return <SignupPage onNavigate={handleNavigate} />;
       case 'forgot-password':
@@ -75,13 +187,58 @@ const App: React.FC = () => {
     }
   }
 
+  if (!user.emailVerified) {
+    return <VerifyEmailPage user={user} />;
+  }
+
+  if (secondFactor === 'checking') {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-[#202124] text-white">
+        Loading...
+      </div>
+    );
+  }
+
+  if (secondFactor === 'error') {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-[#202124] text-white space-y-4">
+        <p>Could not check your sign-in settings. Please try again later.</p>
+        <button onClick={() => backend.auth.signOut()} className="font-semibold text-indigo-400 hover:text-indigo-300">Sign out</button>
+      </div>
+    );
+  }
+
+  if (secondFactor === 'missing') {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-[#202124] text-white space-y-4">
+        <p>Two-step verification is on for this account. Sign in again to enter a code from your authenticator app.</p>
+        <button onClick={() => backend.auth.signOut()} className="font-semibold text-indigo-400 hover:text-indigo-300">Sign out</button>
+      </div>
+    );
+  }
+
+  // A locked locker stays mounted underneath so uploads carry on; it is only taken off screen. The
+  // settings page hides the dashboard the same way, since unmounting it would cancel its uploads.
   return (
-    <div className="bg-[#202124] text-gray-300 h-screen font-sans text-sm flex flex-col">
+    <>
+    {locked && <LockScreen user={user} onSignOut={() => signOut(user)} />}
+    <AutoLock user={user} />
+    <div className={`bg-[#202124] text-gray-300 h-screen font-sans text-sm flex flex-col ${locked ? 'hidden' : ''}`} aria-hidden={locked}>
       <TopHeader user={user} />
       <div className="flex-1 overflow-y-auto">
-          <DashboardPage user={user} />
+          {vaultKey && (
+            <div className={route.name === 'settings' ? 'hidden' : 'h-full'}>
+              <DashboardPage user={user} vaultKey={vaultKey} route={dashboardRoute.current} active={route.name !== 'settings'} />
+            </div>
+          )}
+          {route.name === 'settings' ? (
+            <SettingsPage user={user} />
+          ) : !vaultKey && (
+            <VaultPage user={user} onUnlock={setVaultKey} />
+          )}
       </div>
     </div>
+    </>
   );
 };
 
@@ -0,0 +1,138 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { VaultKey } from '../services/crypto';
+import { subscribeToRecords } from '../services/liveQuery';
+import { saveBlob } from '../services/files';
+import {
+  ActivityEvent, ActivityType, activityLabels, activityToCsv, activityToJson, findSuspiciousActivity, readActivityDoc,
+} from '../services/activity';
+import { formatDateTime } from '../utils/format';
+import { ShieldIcon } from './icons';
+
+interface ActivityViewProps {
+  userId: string;
+  vaultKey: VaultKey;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const inputClass = "rounded-md border border-gray-300 dark:border-gray-600 px-2 py-1 text-gray-900 dark:text-white dark:bg-gray-700 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
+const exportButtonClass = "rounded-md px-3 py-1.5 text-sm font-semibold text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 transition-colors";
+
+// Date inputs work in local calendar days; events carry epoch milliseconds.
+const fromDateInput = (value: string, endOfDay: boolean) => {
+  if (!value) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  const start = new Date(year, month - 1, day).getTime();
+  return endOfDay ? start + DAY - 1 : start;
+};
+
+const describeEvent = (event: ActivityEvent) => {
+  const subject = event.fileName ?? (event.count !== undefined ? `${event.count} file${event.count !== 1 ? 's' : ''}` : null);
+  return subject ? `${activityLabels[event.type]} ${subject}` : activityLabels[event.type];
+};
+
+const ActivityView: React.FC<ActivityViewProps> = ({ userId, vaultKey }) => {
+  const [events, setEvents] = useState<ActivityEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [type, setType] = useState<ActivityType | ''>('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  useEffect(() => {
+    return subscribeToRecords(
+      'activity',
+      { field: 'userId', value: userId },
+      doc => readActivityDoc(vaultKey, doc),
+      userEvents => {
+        userEvents.sort((a, b) => b.at - a.at);
+        setEvents(userEvents);
+        setIsLoading(false);
+      },
+      error => {
+        console.error("Error fetching activity:", error);
+        alert("Could not fetch your activity.");
+        setIsLoading(false);
+      }
+    );
+  }, [userId, vaultKey]);
+
+  // Patterns are looked for across the whole log so a filter cannot hide one.
+  const suspicious = useMemo(() => findSuspiciousActivity(events), [events]);
+  const flaggedIds = useMemo(() => new Set(suspicious.flatMap(flag => flag.eventIds)), [suspicious]);
+
+  const filtered = useMemo(() => {
+    const start = fromDateInput(from, false);
+    const end = fromDateInput(to, true);
+    return events.filter(event =>
+      (!type || event.type === type) &&
+      (start === null || event.at >= start) &&
+      (end === null || event.at <= end));
+  }, [events, type, from, to]);
+
+  const handleExport = (format: 'csv' | 'json') => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'csv') {
+      saveBlob(new Blob([activityToCsv(filtered)], { type: 'text/csv' }), `safe-locker-activity-${stamp}.csv`);
+    } else {
+      saveBlob(new Blob([activityToJson(filtered)], { type: 'application/json' }), `safe-locker-activity-${stamp}.json`);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-center text-gray-600 dark:text-gray-400 py-16">Loading your activity...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {suspicious.length > 0 && (
+        <section className="p-4 rounded-lg border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20">
+          <h2 className="flex items-center font-semibold text-amber-800 dark:text-amber-300">
+            <ShieldIcon className="w-5 h-5 mr-2" />Worth a look
+          </h2>
+          <ul className="mt-2 space-y-1 text-sm text-amber-800 dark:text-amber-200">
+            {suspicious.map(flag => (
+              <li key={flag.key}>{formatDateTime(flag.at)}: {flag.message}</li>
+            ))}
+          </ul>
+          <p className="mt-2 text-xs text-amber-700 dark:text-amber-400">If you don't recognise this, change your password under Account settings.</p>
+        </section>
+      )}
+
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+          <select value={type} onChange={(e) => setType(e.target.value as ActivityType | '')} className={inputClass}>
+            <option value="">All events</option>
+            {(Object.keys(activityLabels) as ActivityType[]).map(key => <option key={key} value={key}>{activityLabels[key]}</option>)}
+          </select>
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} aria-label="From" />
+          <span className="text-gray-400">–</span>
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} aria-label="To" />
+        </div>
+        <div className="flex items-center space-x-1">
+          <button onClick={() => handleExport('csv')} disabled={filtered.length === 0} className={exportButtonClass}>Export CSV</button>
+          <button onClick={() => handleExport('json')} disabled={filtered.length === 0} className={exportButtonClass}>Export JSON</button>
+        </div>
+      </div>
+
+      {filtered.length === 0 ? (
+        <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-16">
+          {events.length === 0 ? "Nothing has happened in your locker yet." : "No activity matches these filters."}
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {filtered.map(event => (
+            <li key={event.id} className={`flex items-center justify-between p-3 bg-white dark:bg-gray-800 rounded-lg shadow-sm ${flaggedIds.has(event.id) ? 'ring-1 ring-amber-400' : ''}`}>
+              <div className="truncate min-w-0">
+                <span className="font-medium text-gray-800 dark:text-gray-200 block truncate">{describeEvent(event)}</span>
+                <span className="text-sm text-gray-500 dark:text-gray-400">{event.deviceLabel}</span>
+              </div>
+              <span className="flex-shrink-0 pl-2 text-sm text-gray-500 dark:text-gray-400">{formatDateTime(event.at)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ActivityView;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { DraggedItem } from '../utils/dragItems';
+import { useItemDropTarget } from '../hooks/useItemDropTarget';
+import { ChevronRightIcon } from './icons';
+
+export interface Crumb {
+    key: string;
+    label: string;
+    onClick: () => void;
+    // Set when items can be dropped onto this crumb to move them into the folder it stands for.
+    onDropItem?: (item: DraggedItem) => void;
+}
+
+const CrumbButton: React.FC<{ crumb: Crumb; isCurrent: boolean }> = ({ crumb, isCurrent }) => {
+    const { isOver, dropTargetProps } = useItemDropTarget(item => crumb.onDropItem?.(item));
+    return (
+        <button
+            onClick={crumb.onClick}
+            disabled={isCurrent}
+            {...(crumb.onDropItem ? dropTargetProps : {})}
+            className={`px-2 py-1 rounded-md truncate max-w-[12rem] transition-colors ${isCurrent ? 'text-2xl font-bold text-gray-800 dark:text-gray-200 cursor-default' : 'text-lg text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700'} ${isOver ? 'ring-2 ring-indigo-500' : ''}`}
+        >
+            {crumb.label}
+        </button>
+    );
+};
+
+const Breadcrumb: React.FC<{ crumbs: Crumb[] }> = ({ crumbs }) => (
+    <nav className="flex items-center flex-wrap -ml-2" aria-label="Breadcrumb">
+        {crumbs.map((crumb, index) => (
+            <React.Fragment key={crumb.key}>
+                {index > 0 && <ChevronRightIcon className="w-5 h-5 text-gray-400 flex-shrink-0" />}
+                <CrumbButton crumb={crumb} isCurrent={index === crumbs.length - 1} />
+            </React.Fragment>
+        ))}
+    </nav>
+);
+
+export default Breadcrumb;
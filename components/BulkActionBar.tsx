@@ -0,0 +1,73 @@
+import React from 'react';
+import { FileType } from '../types';
+import { DeleteIcon, DownloadIcon, MoveIcon } from './icons';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  totalCount: number;
+  onToggleAll: () => void;
+  onClear: () => void;
+  onDelete: () => void;
+  onMove: () => void;
+  onChangeCategory: (type: FileType) => void;
+  onDownloadZip: () => void;
+  // Set while a ZIP archive is being built.
+  zipProgress: { processedBytes: number; totalBytes: number } | null;
+  onCancelZip: () => void;
+}
+
+const barButtonClass = "flex items-center space-x-1 rounded-md px-2.5 py-1.5 text-sm font-semibold transition-colors";
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedCount, totalCount, onToggleAll, onClear, onDelete, onMove, onChangeCategory, onDownloadZip, zipProgress, onCancelZip,
+}) => {
+  const allSelected = selectedCount > 0 && selectedCount === totalCount;
+  const zipPercent = zipProgress ? Math.floor((zipProgress.processedBytes / Math.max(zipProgress.totalBytes, 1)) * 100) : 0;
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 mb-3 px-3 py-2 rounded-lg ${selectedCount > 0 ? 'bg-indigo-50 dark:bg-indigo-900/20' : ''}`}>
+      <label className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={allSelected}
+          ref={input => { if (input) input.indeterminate = selectedCount > 0 && !allSelected; }}
+          onChange={onToggleAll}
+          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+        <span>{selectedCount > 0 ? `${selectedCount} of ${totalCount} selected` : 'Select all'}</span>
+      </label>
+
+      {selectedCount > 0 && (
+        <div className="flex flex-wrap items-center gap-1 ml-auto">
+          {zipProgress ? (
+            <>
+              <span className="text-sm text-gray-600 dark:text-gray-400">Building ZIP... {zipPercent}%</span>
+              <button onClick={onCancelZip} className={`${barButtonClass} text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700`}>Cancel</button>
+            </>
+          ) : (
+            <button onClick={onDownloadZip} className={`${barButtonClass} text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700`}>
+              <DownloadIcon className="w-4 h-4" /><span>Download ZIP</span>
+            </button>
+          )}
+          <button onClick={onMove} className={`${barButtonClass} text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700`}>
+            <MoveIcon className="w-4 h-4" /><span>Move</span>
+          </button>
+          <select
+            value=""
+            onChange={(e) => { if (e.target.value) onChangeCategory(e.target.value as FileType); }}
+            className="rounded-md border border-gray-300 dark:border-gray-600 px-2 py-1 text-sm text-gray-900 dark:text-white dark:bg-gray-700 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="">Change category...</option>
+            {Object.values(FileType).map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+          <button onClick={onDelete} className={`${barButtonClass} text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20`}>
+            <DeleteIcon className="w-4 h-4" /><span>Delete</span>
+          </button>
+          <button onClick={onClear} className={`${barButtonClass} text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700`}>Clear</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkActionBar;
@@ -1,62 +1,71 @@
 
-import React, { useState, useCallback, useMemo, useEffect } from 'react';
-import { User } from 'firebase/auth';
-import { collection, query, where, getDocs, addDoc, deleteDoc, doc } from 'firebase/firestore';
-import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
-import { db, storage } from '../firebase';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 
-import { FileType, ManagedFile } from '../types';
-import { ImageIcon, VideoIcon, DocumentIcon, AudioIcon, OtherIcon, DownloadIcon, DeleteIcon, UploadIcon, FolderIcon, ArrowLeftIcon, SpinnerIcon } from './icons';
+import { FileType, FileVersion, Folder, ManagedFile } from '../types';
+import { AuthUser } from '../services/backend';
+import { VaultKey, hashContents } from '../services/crypto';
+import { subscribeToRecords } from '../services/liveQuery';
+import {
+  FileUploadOptions, MAX_FILE_BYTES, backfillContentHash, backfillThumbnail, deleteFile, fetchFileBlob, getExpiredTrash, moveFile,
+  prepareFileUpload, openSaveStream, readFileDoc, reclassifyFile, restoreFile, saveBlob, setFileType, trashFile,
+} from '../services/files';
+import { detectFileType } from '../services/fileTypes';
+import {
+  FolderBatch, canMoveFolder, createFolder, deleteFolder, ensureFolderPath, findFolderPath, getDescendantFolderIds, getFolderContents, getFolderPath, listedFolderId,
+  moveFolder, newFolderBatch, readFolderDoc, renameFolder,
+} from '../services/folders';
+import { ShareOptions, createShare } from '../services/shares';
+import { canHaveThumbnail } from '../services/thumbnails';
+import { getBytesBeforeWarning, getStoredBytes } from '../services/usage';
+import { deleteFileVersions, getExpiredVersions, restoreFileVersion, versionAsFile } from '../services/versions';
+import { formatBytes, formatDateTime } from '../utils/format';
+import { ZipFormatError, writeZip } from '../services/zip';
+import { LockerImport, SkippedImport, exportLocker, readLockerArchive } from '../services/lockerArchive';
+import { Route, getLocationPath, navigateTo, parseRoute } from '../services/routes';
+import { DEFAULT_SETTINGS, updateSettings } from '../services/settings';
+import { useUserSettings } from '../hooks/useUserSettings';
+import { EMPTY_SEARCH, SearchCriteria, isSearchActive, keepVisibleSelection, searchFiles, sortFiles } from '../services/search';
+import { collectTags, hasTag } from '../services/tags';
+import { ActivityType, recordActivity } from '../services/activity';
+import { DraggedItem } from '../utils/dragItems';
+import { PickedFile, readDroppedFiles, readInputFiles } from '../utils/pickedFiles';
+import { useUploadQueue } from '../hooks/useUploadQueue';
+import UploadQueuePanel from './UploadQueuePanel';
+import FileItem, { FileCard } from './FileItem';
+import FolderTile from './FolderTile';
+import Breadcrumb, { Crumb } from './Breadcrumb';
+import MoveDialog from './MoveDialog';
+import SearchBar from './SearchBar';
+import ShareDialog from './ShareDialog';
+import SharedByMeView from './SharedByMeView';
+import TrashView from './TrashView';
+import UsageView from './UsageView';
+import LockerTransferPanel from './LockerTransferPanel';
+import DuplicateDialog, { DuplicateChoice } from './DuplicateDialog';
+import DuplicatesView from './DuplicatesView';
+import ActivityView from './ActivityView';
+import NewVersionDialog, { NewVersionChoice } from './NewVersionDialog';
+import DirectoryUploadDialog from './DirectoryUploadDialog';
+import VersionHistoryDialog from './VersionHistoryDialog';
+import BulkActionBar from './BulkActionBar';
+import PreviewModal from './PreviewModal';
+import FileDetailsDialog from './FileDetailsDialog';
+import { ImageIcon, VideoIcon, DocumentIcon, AudioIcon, UploadIcon, FolderIcon, FolderPlusIcon, ListIcon, GridIcon, TagIcon } from './icons';
 
 interface DashboardPageProps {
-  user: User;
+  user: AuthUser;
+  vaultKey: VaultKey;
+  route: Route;
+  // False while another page is shown in its place. The dashboard stays mounted so uploads carry on,
+  // but it leaves the URL alone and drops its dialogs, whose window key handlers would still fire.
+  active: boolean;
 }
 
-const getFileType = (file: File): FileType => {
-    const type = file.type;
-    if (type.startsWith('image/')) return FileType.Photos;
-    if (type.startsWith('video/')) return FileType.Videos;
-    if (type.startsWith('audio/')) return FileType.Songs;
-    if (type === 'application/pdf' || type.startsWith('text/') || type.includes('document')) return FileType.Document;
-    return FileType.Others;
-};
-
-const FileIcon: React.FC<{ type: FileType }> = ({ type }) => {
-    const iconProps = { className: "w-6 h-6 mr-3 text-gray-500 dark:text-gray-400 flex-shrink-0" };
-    switch (type) {
-        case FileType.Photos: return <ImageIcon {...iconProps} />;
-        case FileType.Videos: return <VideoIcon {...iconProps} />;
-        case FileType.Document: return <DocumentIcon {...iconProps} />;
-        case FileType.Songs: return <AudioIcon {...iconProps} />;
-        default: return <OtherIcon {...iconProps} />;
-    }
-};
-
-const FileItem: React.FC<{ file: ManagedFile, onDelete: (file: ManagedFile) => void }> = ({ file, onDelete }) => (
-    <div className="flex items-center justify-between p-3 bg-white dark:bg-gray-800 rounded-lg shadow-sm hover:shadow-md transition-shadow">
-        <div className="flex items-center truncate min-w-0">
-            <FileIcon type={file.type} />
-            <div className="truncate">
-                <span className="font-medium text-gray-800 dark:text-gray-200 block truncate">{file.name}</span>
-                <span className="text-sm text-gray-500 dark:text-gray-400">({(file.size / 1024).toFixed(2)} KB)</span>
-            </div>
-        </div>
-        <div className="flex-shrink-0 flex items-center space-x-2 pl-2">
-            <a href={file.url} target="_blank" rel="noopener noreferrer" download={file.name} className="p-2 text-gray-500 hover:text-blue-600 dark:hover:text-blue-400 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors">
-                <DownloadIcon />
-            </a>
-            <button onClick={() => onDelete(file)} className="p-2 text-gray-500 hover:text-red-600 dark:hover:text-red-400 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors">
-                <DeleteIcon />
-            </button>
-        </div>
-    </div>
-);
-
-const FolderItem: React.FC<{ category: FileType; count: number; icon: React.ReactNode; onClick: () => void; }> = ({ category, count, icon, onClick }) => (
+const FolderItem: React.FC<{ label: string; count: number; bytes: number; icon: React.ReactNode; onClick: () => void; }> = ({ label, count, bytes, icon, onClick }) => (
     <div onClick={onClick} className="flex flex-col items-center justify-center p-6 bg-white dark:bg-gray-800 rounded-xl shadow-md hover:shadow-lg hover:-translate-y-1 transition-all cursor-pointer">
         <div className="text-indigo-500 dark:text-indigo-400 mb-3">{icon}</div>
-        <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200">{category}</h3>
-        <p className="text-sm text-gray-500 dark:text-gray-400">{count} item{count !== 1 ? 's' : ''}</p>
+        <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200 truncate max-w-full">{label}</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400">{count} item{count !== 1 ? 's' : ''} · {formatBytes(bytes)}</p>
     </div>
 );
 
@@ -68,90 +77,649 @@ const categoryIcons: Record<FileType, React.ReactNode> = {
     [FileType.Others]: <FolderIcon className="w-12 h-12" />,
 };
 
-const DashboardPage: React.FC<DashboardPageProps> = ({ user }) => {
-  const [files, setFiles] = useState<ManagedFile[]>([]);
+type DashboardSection = 'files' | 'shared' | 'trash' | 'usage' | 'duplicates' | 'activity';
+
+const sectionLabels: Record<DashboardSection, string> = {
+    files: 'My Locker',
+    shared: 'Shared by me',
+    trash: 'Trash',
+    usage: 'Storage',
+    duplicates: 'Duplicates',
+    activity: 'Activity',
+};
+
+type ViewMode = 'list' | 'grid';
+
+const VIEW_MODE_STORAGE_KEY = 'safe-locker:view-mode';
+// Folder uploads at least this big are summarised for confirmation before anything is read.
+const LARGE_DIRECTORY_FILES = 20;
+const LARGE_DIRECTORY_BYTES = 100 * 1024 * 1024;
+
+const loadViewMode = (): ViewMode => localStorage.getItem(VIEW_MODE_STORAGE_KEY) === 'grid' ? 'grid' : 'list';
+
+// Folder writes are not awaited while uploading, since offline they only settle once back online.
+// The files queued into a folder the server refused are listed at the root, so say where they went.
+const reportFolderFailures = (batch: FolderBatch) => {
+  Promise.all(batch.saves).catch(error => {
+    console.error("Error saving folders:", error);
+    alert("Some folders could not be created. The files meant for them are in My Locker instead.");
+  });
+};
+
+interface DuplicatePrompt {
+  fileName: string;
+  existing: ManagedFile;
+  remaining: number;
+  resolve: (choice: DuplicateChoice, applyToRemaining: boolean) => void;
+}
+
+interface NewVersionPrompt {
+  fileName: string;
+  existing: ManagedFile;
+  remaining: number;
+  resolve: (choice: NewVersionChoice, applyToRemaining: boolean) => void;
+}
+
+interface DirectoryUploadPrompt {
+  files: PickedFile[];
+  resolve: (upload: boolean) => void;
+}
+
+type MoveRequest =
+    | { kind: 'file'; file: ManagedFile }
+    | { kind: 'files'; files: ManagedFile[] }
+    | { kind: 'folder'; folder: Folder };
+
+const DashboardPage: React.FC<DashboardPageProps> = ({ user, vaultKey, route, active }) => {
+  const [allFiles, setAllFiles] = useState<ManagedFile[]>([]);
+  const [folders, setFolders] = useState<Folder[]>([]);
   const [isDragging, setIsDragging] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
-  const [uploadingFiles, setUploadingFiles] = useState<string[]>([]);
-  const [selectedCategory, setSelectedCategory] = useState<FileType | null>(null);
+  const [isLoadingFiles, setIsLoadingFiles] = useState(true);
+  const [isLoadingFolders, setIsLoadingFolders] = useState(true);
+  const [moveRequest, setMoveRequest] = useState<MoveRequest | null>(null);
+  const [searchCriteria, setSearchCriteria] = useState<SearchCriteria>(EMPTY_SEARCH);
+  const [shareTarget, setShareTarget] = useState<ManagedFile | null>(null);
+  const [detailsTarget, setDetailsTarget] = useState<ManagedFile | null>(null);
+  // The list being previewed is captured when the preview opens so arrow keys follow the view it came from.
+  const [preview, setPreview] = useState<{ files: ManagedFile[]; index: number } | null>(null);
+  // Where a preview was opened from, so the view behind it stays put and closing it goes back there.
+  const [previewReturnPath, setPreviewReturnPath] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>(loadViewMode);
+  const [thumbnailProgress, setThumbnailProgress] = useState<{ done: number; total: number } | null>(null);
+  const [duplicatePrompt, setDuplicatePrompt] = useState<DuplicatePrompt | null>(null);
+  const [newVersionPrompt, setNewVersionPrompt] = useState<NewVersionPrompt | null>(null);
+  const [directoryUploadPrompt, setDirectoryUploadPrompt] = useState<DirectoryUploadPrompt | null>(null);
+  // Kept by id so the dialog follows the live record as versions are restored or deleted.
+  const [versionsFileId, setVersionsFileId] = useState<string | null>(null);
+  const [checkingCount, setCheckingCount] = useState(0);
+  const [hashScanProgress, setHashScanProgress] = useState<{ done: number; total: number } | null>(null);
+  const [reclassifyProgress, setReclassifyProgress] = useState<{ done: number; total: number } | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const [zipProgress, setZipProgress] = useState<{ processedBytes: number; totalBytes: number } | null>(null);
+  const [exportProgress, setExportProgress] = useState<{ processedBytes: number; totalBytes: number } | null>(null);
+  const [importProgress, setImportProgress] = useState<{ done: number; total: number } | null>(null);
+  // The last file clicked without shift, where a shift-click range starts.
+  const selectionAnchor = useRef<string | null>(null);
+  // Files inside folders would flash at the root if they were shown before the folders arrived.
+  const isLoading = isLoadingFiles || isLoadingFolders;
+  const folderIds = useMemo(() => new Set(folders.map(folder => folder.id)), [folders]);
 
-  const filesCollectionRef = useMemo(() => collection(db, 'files'), []);
+  // The URL is the source of truth for what is on screen. A file route shows its preview over the
+  // view it was opened from or, for a link opened directly, over the folder holding the file.
+  const routeFile = route.name === 'file' ? allFiles.find(file => file.id === route.fileId) : undefined;
+  const viewRoute: Route = route.name !== 'file'
+    ? route
+    : previewReturnPath
+        ? parseRoute(new URL(previewReturnPath, window.location.origin).pathname)
+        : { name: 'folder', folderId: routeFile ? listedFolderId(folderIds, routeFile) : null };
+  const section = (viewRoute.name in sectionLabels ? viewRoute.name : 'files') as DashboardSection;
+  const selectedCategory = viewRoute.name === 'category' ? viewRoute.category : null;
+  const currentFolderId = viewRoute.name === 'folder' ? viewRoute.folderId : null;
+  const selectedTag = viewRoute.name === 'tag' ? viewRoute.tag : null;
+  const zipAbortController = useRef<AbortController | null>(null);
+  const exportAbortController = useRef<AbortController | null>(null);
 
-  const fetchFiles = useCallback(async () => {
-    if (!user) return;
-    setIsLoading(true);
-    try {
-      const q = query(filesCollectionRef, where("userId", "==", user.uid));
-      const querySnapshot = await getDocs(q);
-      const userFiles = querySnapshot.docs.map(doc => ({
-        ...(doc.data() as Omit<ManagedFile, 'id'>),
-        id: doc.id
-      }));
-      // Sort files client-side to avoid needing a composite index in Firestore
-      userFiles.sort((a, b) => a.name.localeCompare(b.name));
-      setFiles(userFiles);
-    } catch (error) {
-      console.error("Error fetching files:", error);
-      alert("Could not fetch your files.");
-    } finally {
-      setIsLoading(false);
+  const settings = useUserSettings(user.uid);
+  const trashRetentionDays = settings?.trashRetentionDays ?? DEFAULT_SETTINGS.trashRetentionDays;
+  const usageWarningBytes = settings ? settings.usageWarningBytes : DEFAULT_SETTINGS.usageWarningBytes;
+  const versionRetentionDays = settings ? settings.versionRetentionDays : DEFAULT_SETTINGS.versionRetentionDays;
+  const typeRules = settings?.typeRules ?? DEFAULT_SETTINGS.typeRules;
+
+  // Trashed files are hidden everywhere except the Trash section, including counts and totals.
+  const files = useMemo(() => allFiles.filter(file => !file.deletedAt), [allFiles]);
+  const trashedFiles = useMemo(() => allFiles.filter(file => file.deletedAt), [allFiles]);
+
+  // Both lists follow Firestore live, so changes from other tabs and devices appear on their own.
+  // Unmounting on sign-out tears the subscriptions down.
+  useEffect(() => {
+    return subscribeToRecords(
+      'files',
+      { field: 'userId', value: user.uid },
+      doc => readFileDoc(vaultKey, doc),
+      userFiles => {
+        // Sort files client-side to avoid needing a composite index in Firestore
+        userFiles.sort((a, b) => a.name.localeCompare(b.name));
+        setAllFiles(userFiles);
+        setIsLoadingFiles(false);
+      },
+      error => {
+        console.error("Error fetching files:", error);
+        alert("Could not fetch your files.");
+        setIsLoadingFiles(false);
+      }
+    );
+  }, [user.uid, vaultKey]);
+
+  useEffect(() => {
+    return subscribeToRecords(
+      'folders',
+      { field: 'userId', value: user.uid },
+      doc => readFolderDoc(vaultKey, doc),
+      userFolders => {
+        userFolders.sort((a, b) => a.name.localeCompare(b.name));
+        setFolders(userFolders);
+        setIsLoadingFolders(false);
+      },
+      error => {
+        console.error("Error fetching folders:", error);
+        alert("Could not fetch your folders.");
+        setIsLoadingFolders(false);
+      }
+    );
+  }, [user.uid, vaultKey]);
+
+  useEffect(() => {
+    localStorage.setItem(VIEW_MODE_STORAGE_KEY, viewMode);
+  }, [viewMode]);
+
+  // Fall back to the root if the open folder disappears, e.g. after deleting it.
+  useEffect(() => {
+    if (active && currentFolderId && !isLoading && !folders.some(folder => folder.id === currentFolderId)) {
+      navigateTo({ name: 'folder', folderId: null }, { replace: true });
     }
-  }, [user, filesCollectionRef]);
+  }, [folders, currentFolderId, isLoading, active]);
 
+  // Keep the preview in step with the URL: back and forward open and close it, and a file link
+  // opened directly previews that file once the locker has loaded.
   useEffect(() => {
-    fetchFiles();
-  }, [fetchFiles]);
-
-  const handleUploadFiles = useCallback(async (filesToUpload: File[]) => {
-      if (filesToUpload.length === 0) return;
-
-      const currentUploads = filesToUpload.map(f => f.name);
-      setUploadingFiles(prev => [...prev, ...currentUploads]);
-
-      const uploadPromises = filesToUpload.map(async file => {
-          try {
-              const fileId = crypto.randomUUID();
-              const storagePath = `files/${user.uid}/${fileId}-${file.name}`;
-              const storageRef = ref(storage, storagePath);
-
-              await uploadBytes(storageRef, file);
-              const url = await getDownloadURL(storageRef);
-
-              const newFileDoc: Omit<ManagedFile, 'id'> = {
-                  name: file.name,
-                  type: getFileType(file),
-                  size: file.size,
-                  url,
-                  userId: user.uid,
-                  storagePath,
-              };
-              await addDoc(filesCollectionRef, newFileDoc);
-          } catch (error) {
-              console.error("Error uploading file:", file.name, error);
-              alert(`Failed to upload ${file.name}`);
-          }
+    if (route.name !== 'file') {
+      setPreview(null);
+      setPreviewReturnPath(null);
+      return;
+    }
+    if (!active || isLoading || preview?.files[preview.index]?.id === route.fileId) return;
+    const file = allFiles.find(f => f.id === route.fileId);
+    if (file) {
+      setPreview({ files: [file], index: 0 });
+    } else {
+      navigateTo({ name: 'folder', folderId: null }, { replace: true });
+    }
+  }, [route, isLoading, allFiles, active]);
+
+  const logFileActivity = useCallback((type: ActivityType, file: ManagedFile | File) =>
+      recordActivity(user.uid, type, { vaultKey, fileName: file.name }),
+  [user.uid, vaultKey]);
+
+  // Trashing files one by one or in bulk; each file that made it is logged on its own.
+  const trashFiles = useCallback(async (filesToTrash: ManagedFile[]) => {
+      const results = await Promise.allSettled(filesToTrash.map(file => trashFile(file.id)));
+      results.forEach((result, index) => {
+          if (result.status === 'fulfilled') logFileActivity('trash', filesToTrash[index]);
       });
+      return results.filter(result => result.status === 'rejected');
+  }, [logFileActivity]);
 
-      await Promise.all(uploadPromises);
-      setUploadingFiles(prev => prev.filter(name => !currentUploads.includes(name)));
-      await fetchFiles();
+  const prepareUpload = useCallback(async (file: File, options: FileUploadOptions) => {
+      const classification = options.classification ?? await detectFileType(file, typeRules);
+      const prepared = await prepareFileUpload(user.uid, vaultKey, file, classification, options);
+      return {
+          ...prepared,
+          finalize: async () => {
+              await prepared.finalize();
+              logFileActivity('upload', file);
+          },
+      };
+  }, [user.uid, vaultKey, logFileActivity, typeRules]);
+
+  const { queue: uploadQueue, entries: uploadEntries } = useUploadQueue(prepareUpload);
+
+  const askAboutDuplicate = (fileName: string, existing: ManagedFile, remaining: number) =>
+      new Promise<{ choice: DuplicateChoice; applyToRemaining: boolean }>(resolve => setDuplicatePrompt({
+          fileName,
+          existing,
+          remaining,
+          resolve: (choice, applyToRemaining) => {
+              setDuplicatePrompt(null);
+              resolve({ choice, applyToRemaining });
+          },
+      }));
+
+  const askAboutNewVersion = (fileName: string, existing: ManagedFile, remaining: number) =>
+      new Promise<{ choice: NewVersionChoice; applyToRemaining: boolean }>(resolve => setNewVersionPrompt({
+          fileName,
+          existing,
+          remaining,
+          resolve: (choice, applyToRemaining) => {
+              setNewVersionPrompt(null);
+              resolve({ choice, applyToRemaining });
+          },
+      }));
+
+  const askAboutDirectoryUpload = (files: PickedFile[]) =>
+      new Promise<boolean>(resolve => setDirectoryUploadPrompt({
+          files,
+          resolve: upload => {
+              setDirectoryUploadPrompt(null);
+              resolve(upload);
+          },
+      }));
+
+  // Uploads still in the queue have no file record yet but will take up space once they finish.
+  const getRemainingBytes = () => {
+      const pendingBytes = uploadEntries
+          .filter(entry => entry.status !== 'done' && entry.status !== 'canceled')
+          .reduce((total, entry) => total + entry.totalBytes, 0);
+      const usedBytes = allFiles.reduce((total, file) => total + getStoredBytes(file), 0) + pendingBytes;
+      return getBytesBeforeWarning(usedBytes, usageWarningBytes);
+  };
+
+  // Files picked from inside a directory keep their place in it: the folders on their path are
+  // created under the current folder, or reused when one with that name already exists. Folders are
+  // only created once every prompt is answered, and only for files that are going to be uploaded.
+  const handleUploadFiles = useCallback(async (selected: PickedFile[]) => {
+      // The security rules refuse anything bigger, so say so now rather than after the upload fails.
+      const tooLarge = selected.filter(({ file }) => file.size > MAX_FILE_BYTES);
+      if (tooLarge.length > 0) {
+          alert(`${tooLarge.map(({ file }) => file.name).join(', ')} ${tooLarge.length === 1 ? 'is' : 'are'} larger than ${formatBytes(MAX_FILE_BYTES)}, the most a single file can be, and will not be uploaded.`);
+      }
+      const picked = selected.filter(({ file }) => file.size <= MAX_FILE_BYTES);
+      if (picked.length === 0) return;
+      const filesToUpload = picked.map(({ file }) => file);
+      const remaining = getRemainingBytes();
+      const incomingBytes = filesToUpload.reduce((total, file) => total + file.size, 0);
+      if (incomingBytes > remaining && !window.confirm(`This upload needs ${formatBytes(incomingBytes)}, which takes you past the ${formatBytes(usageWarningBytes!)} you asked to be warned at. Upload anyway?`)) {
+          return;
+      }
+      const isDirectory = picked.some(({ folderPath }) => folderPath.length > 0);
+      const isLarge = filesToUpload.length >= LARGE_DIRECTORY_FILES || incomingBytes >= LARGE_DIRECTORY_BYTES;
+      if (isDirectory && isLarge && !(await askAboutDirectoryUpload(picked))) return;
+
+      // Hash one file at a time; each is read into memory whole.
+      const hashes: string[] = [];
+      setCheckingCount(filesToUpload.length);
+      try {
+          for (const file of filesToUpload) hashes.push(await hashContents(vaultKey, file));
+      } catch (error) {
+          console.error("Error reading files:", error);
+          alert("Could not read the selected files.");
+          return;
+      } finally {
+          setCheckingCount(0);
+      }
+
+      const existingByHash = new Map<string, ManagedFile>(files.filter(file => file.contentHash).map(file => [file.contentHash!, file]));
+      const duplicates = hashes.map(hash => existingByHash.get(hash));
+      let remainingDuplicates = duplicates.filter(Boolean).length;
+      let standingChoice: DuplicateChoice | null = null;
+
+      // A file with the same name in the same folder but different contents is most likely an
+      // updated copy, which can go into that file's history instead of beside it. Folders that do
+      // not exist yet hold no files to compare with.
+      const parentId = currentFolderId;
+      const sameNames = picked.map(({ file, folderPath }, index) => {
+          const folderId = findFolderPath(folders, parentId, folderPath);
+          return duplicates[index] || folderId === undefined ? undefined : files.find(existing =>
+              (existing.folderId ?? null) === folderId && existing.name === file.name);
+      });
+      let remainingSameNames = sameNames.filter(Boolean).length;
+      let standingVersionChoice: NewVersionChoice | null = null;
+
+      const accepted: { index: number; options: Omit<FileUploadOptions, 'folderId'> }[] = [];
+      for (const [index, file] of filesToUpload.entries()) {
+          const existing = duplicates[index];
+          let choice: DuplicateChoice = 'keep';
+          if (existing) {
+              remainingDuplicates--;
+              if (standingChoice) {
+                  choice = standingChoice;
+              } else {
+                  const answer = await askAboutDuplicate(file.name, existing, remainingDuplicates);
+                  choice = answer.choice;
+                  if (answer.applyToRemaining) standingChoice = choice;
+              }
+          }
+          if (choice === 'skip') continue;
+
+          const sameName = sameNames[index];
+          let versionChoice: NewVersionChoice = 'keep';
+          if (sameName) {
+              remainingSameNames--;
+              if (standingVersionChoice) {
+                  versionChoice = standingVersionChoice;
+              } else {
+                  const answer = await askAboutNewVersion(file.name, sameName, remainingSameNames);
+                  versionChoice = answer.choice;
+                  if (answer.applyToRemaining) standingVersionChoice = versionChoice;
+              }
+          }
+          if (versionChoice === 'skip') continue;
+
+          accepted.push({ index, options: {
+              contentHash: hashes[index],
+              replaces: choice === 'replace' ? existing : undefined,
+              newVersionOf: versionChoice === 'version' ? sameName : undefined,
+          } });
+      }
+
+      const folderBatch = newFolderBatch();
+      try {
+          for (const { index, options } of accepted) {
+              const { file, folderPath } = picked[index];
+              const folderId = await ensureFolderPath(user.uid, vaultKey, folders, folderBatch, parentId, folderPath);
+              uploadQueue.add([file], { ...options, folderId });
+          }
+      } catch (error) {
+          console.error("Error creating folders:", error);
+          alert("Could not create the folders for this upload.");
+      }
+      reportFolderFailures(folderBatch);
+  }, [uploadQueue, uploadEntries, allFiles, files, folders, usageWarningBytes, currentFolderId, user.uid, vaultKey]);
+
+  const handleDownloadFile = useCallback(async (file: ManagedFile) => {
+    try {
+        const blob = await fetchFileBlob(vaultKey, file);
+        saveBlob(blob, file.name);
+        logFileActivity('download', file);
+    } catch (error) {
+        console.error("Error downloading file:", error);
+        alert(`Failed to download ${file.name}.`);
+    }
+  }, [vaultKey, logFileActivity]);
 
-  }, [user.uid, filesCollectionRef, fetchFiles]);
-  
   const handleDeleteFile = useCallback(async (file: ManagedFile) => {
-    if (!window.confirm(`Are you sure you want to delete ${file.name}?`)) return;
+    const [failure] = await trashFiles([file]);
+    if (failure) {
+        console.error("Error deleting file:", failure);
+        alert("Failed to delete the file.");
+    }
+  }, [trashFiles]);
+
+  const filesMissingThumbnails = useMemo(
+    () => files.filter(file => canHaveThumbnail(file.type) && !file.thumbnail),
+    [files]
+  );
+
+  // Runs one file at a time: each needs its full contents downloaded and decrypted in memory.
+  const handleGenerateThumbnails = useCallback(async () => {
+    const pending = filesMissingThumbnails;
+    if (thumbnailProgress || pending.length === 0) return;
+    let failed = 0;
+    setThumbnailProgress({ done: 0, total: pending.length });
+    for (const [index, file] of pending.entries()) {
+        try {
+            if (!(await backfillThumbnail(vaultKey, file))) failed++;
+        } catch (error) {
+            console.error(`Error generating a thumbnail for ${file.name}:`, error);
+            failed++;
+        }
+        setThumbnailProgress({ done: index + 1, total: pending.length });
+    }
+    setThumbnailProgress(null);
+    if (failed > 0) alert(`Could not generate thumbnails for ${failed} file${failed !== 1 ? 's' : ''}.`);
+  }, [filesMissingThumbnails, thumbnailProgress, vaultKey]);
+
+  const filesWithoutHash = useMemo(() => files.filter(file => !file.contentHash), [files]);
+
+  const handleScanForDuplicates = useCallback(async () => {
+    const pending = filesWithoutHash;
+    if (hashScanProgress || pending.length === 0) return;
+    let failed = 0;
+    setHashScanProgress({ done: 0, total: pending.length });
+    for (const [index, file] of pending.entries()) {
+        try {
+            await backfillContentHash(vaultKey, file);
+        } catch (error) {
+            console.error(`Error scanning ${file.name}:`, error);
+            failed++;
+        }
+        setHashScanProgress({ done: index + 1, total: pending.length });
+    }
+    setHashScanProgress(null);
+    if (failed > 0) alert(`Could not scan ${failed} file${failed !== 1 ? 's' : ''}.`);
+  }, [filesWithoutHash, hashScanProgress, vaultKey]);
+
+  // Categories picked by hand stay put. Like the other scans this goes one file at a time, since a
+  // file with nothing to go on but its contents has to be downloaded and decrypted.
+  const handleReclassifyAll = useCallback(async () => {
+    const pending = allFiles.filter(file => !file.typeSetByUser);
+    if (reclassifyProgress || pending.length === 0) return;
+    if (!window.confirm(`Sort ${pending.length} file${pending.length !== 1 ? 's' : ''} into categories again using their contents and names? Files you moved to a category yourself keep it.`)) return;
+    let changed = 0;
+    let failed = 0;
+    setReclassifyProgress({ done: 0, total: pending.length });
+    for (const [index, file] of pending.entries()) {
+        try {
+            if (await reclassifyFile(vaultKey, file, typeRules)) changed++;
+        } catch (error) {
+            console.error(`Error reclassifying ${file.name}:`, error);
+            failed++;
+        }
+        setReclassifyProgress({ done: index + 1, total: pending.length });
+    }
+    setReclassifyProgress(null);
+    alert(`${changed} file${changed !== 1 ? 's' : ''} moved to a different category.${failed > 0 ? ` Could not check ${failed}.` : ''}`);
+  }, [allFiles, reclassifyProgress, vaultKey, typeRules]);
+
+  const handleTrashDuplicates = useCallback(async (duplicates: ManagedFile[]) => {
+    if (!window.confirm(`Move ${duplicates.length} duplicate file${duplicates.length !== 1 ? 's' : ''} to the trash?`)) return;
+    const failed = await trashFiles(duplicates);
+    if (failed.length > 0) {
+        console.error("Error trashing duplicates:", failed);
+        alert(`Failed to move ${failed.length} file${failed.length !== 1 ? 's' : ''} to the trash.`);
+    }
+  }, [trashFiles]);
+
+  const handleRestoreFile = useCallback(async (file: ManagedFile) => {
     try {
-        const storageRef = ref(storage, file.storagePath);
-        await deleteObject(storageRef);
-        const fileDocRef = doc(db, 'files', file.id);
-        await deleteDoc(fileDocRef);
-        setFiles(prevFiles => prevFiles.filter(f => f.id !== file.id));
+        await restoreFile(file.id, listedFolderId(folderIds, file));
+        logFileActivity('restore', file);
+    } catch (error) {
+        console.error("Error restoring file:", error);
+        alert(`Failed to restore ${file.name}.`);
+    }
+  }, [folderIds, logFileActivity]);
+
+  const handleDeleteForever = useCallback(async (file: ManagedFile) => {
+    if (!window.confirm(`Permanently delete ${file.name}? This cannot be undone.`)) return;
+    try {
+        await deleteFile(file);
+        logFileActivity('delete', file);
     } catch (error) {
         console.error("Error deleting file:", error);
         alert("Failed to delete the file.");
     }
+  }, [logFileActivity]);
+
+  const handleEmptyTrash = useCallback(async () => {
+    const count = trashedFiles.length;
+    if (!window.confirm(`Permanently delete ${count} file${count !== 1 ? 's' : ''} in the trash? This cannot be undone.`)) return;
+    const results = await Promise.allSettled(trashedFiles.map(file => deleteFile(file)));
+    results.forEach((result, index) => {
+        if (result.status === 'fulfilled') logFileActivity('delete', trashedFiles[index]);
+    });
+    const failed = results.filter(result => result.status === 'rejected');
+    if (failed.length > 0) {
+        console.error("Error emptying trash:", failed);
+        alert(`Failed to delete ${failed.length} file${failed.length !== 1 ? 's' : ''}.`);
+    }
+  }, [trashedFiles, logFileActivity]);
+
+  const handleRetentionChange = useCallback(async (days: number) => {
+    try {
+        await updateSettings(user.uid, { trashRetentionDays: days });
+    } catch (error) {
+        console.error("Error saving settings:", error);
+        alert("Failed to save the retention period.");
+    }
+  }, [user.uid]);
+
+  const handleVersionRetentionChange = useCallback(async (days: number | null) => {
+    try {
+        await updateSettings(user.uid, { versionRetentionDays: days });
+    } catch (error) {
+        console.error("Error saving settings:", error);
+        alert("Failed to save how long old versions are kept.");
+    }
+  }, [user.uid]);
+
+  const versionsFile = versionsFileId ? allFiles.find(file => file.id === versionsFileId) ?? null : null;
+
+  const handleDownloadVersion = useCallback((file: ManagedFile, version: FileVersion) =>
+    handleDownloadFile(versionAsFile(file, version)),
+  [handleDownloadFile]);
+
+  const handleRestoreVersion = useCallback(async (file: ManagedFile, version: FileVersion) => {
+    if (!window.confirm(`Restore the version of ${file.name} from ${formatDateTime(version.uploadedAt)}? The current contents will be kept as a version.`)) return;
+    try {
+        await restoreFileVersion(file, version);
+    } catch (error) {
+        console.error("Error restoring version:", error);
+        alert("Failed to restore that version.");
+    }
   }, []);
 
+  const handleDeleteVersion = useCallback(async (file: ManagedFile, version: FileVersion) => {
+    if (!window.confirm(`Permanently delete the version of ${file.name} from ${formatDateTime(version.uploadedAt)}? This cannot be undone.`)) return;
+    try {
+        await deleteFileVersions(file.id, [version]);
+    } catch (error) {
+        console.error("Error deleting version:", error);
+        alert("Failed to delete that version.");
+    }
+  }, []);
+
+  const handleUsageWarningChange = useCallback(async (bytes: number | null) => {
+    try {
+        await updateSettings(user.uid, { usageWarningBytes: bytes });
+    } catch (error) {
+        console.error("Error saving settings:", error);
+        alert("Failed to save the usage warning.");
+    }
+  }, [user.uid]);
+
+  // Purge trashed files past the retention period whenever the list or the setting changes.
+  const purgingFileIds = useRef(new Set<string>());
+  useEffect(() => {
+    if (isLoading || !settings) return;
+    const expired = getExpiredTrash(trashedFiles, settings.trashRetentionDays);
+    expired.filter(file => !purgingFileIds.current.has(file.id)).forEach(file => {
+        purgingFileIds.current.add(file.id);
+        deleteFile(file)
+            .catch(error => console.error("Error purging file:", file.name, error))
+            .finally(() => purgingFileIds.current.delete(file.id));
+    });
+  }, [trashedFiles, settings, isLoading]);
+
+  // Old versions past their retention period go the same way.
+  const pruningFileIds = useRef(new Set<string>());
+  useEffect(() => {
+    if (isLoading || !settings) return;
+    const expired = getExpiredVersions(allFiles, settings.versionRetentionDays);
+    expired.filter(({ file }) => !pruningFileIds.current.has(file.id)).forEach(({ file, versions }) => {
+        pruningFileIds.current.add(file.id);
+        deleteFileVersions(file.id, versions)
+            .catch(error => console.error("Error pruning versions:", file.name, error))
+            .finally(() => pruningFileIds.current.delete(file.id));
+    });
+  }, [allFiles, settings, isLoading]);
+
+  const handleCreateShare = useCallback((file: ManagedFile, options: ShareOptions) =>
+    createShare(user.uid, vaultKey, file, options),
+  [user.uid, vaultKey]);
+
+  const handleMoveFile = useCallback(async (fileId: string, folderId: string | null) => {
+    try {
+        await moveFile(fileId, folderId);
+    } catch (error) {
+        console.error("Error moving file:", error);
+        alert("Failed to move the file.");
+    }
+  }, []);
+
+  const handleCreateFolder = useCallback(async () => {
+    const name = window.prompt("Folder name")?.trim();
+    if (!name) return;
+    try {
+        const { saved } = await createFolder(user.uid, vaultKey, name, currentFolderId);
+        await saved;
+    } catch (error) {
+        console.error("Error creating folder:", error);
+        alert("Failed to create the folder.");
+    }
+  }, [user.uid, vaultKey, currentFolderId]);
+
+  const handleRenameFolder = useCallback(async (folder: Folder) => {
+    const name = window.prompt("Rename folder", folder.name)?.trim();
+    if (!name || name === folder.name) return;
+    try {
+        await renameFolder(vaultKey, folder.id, name);
+    } catch (error) {
+        console.error("Error renaming folder:", error);
+        alert("Failed to rename the folder.");
+    }
+  }, [vaultKey]);
+
+  const handleMoveFolder = useCallback(async (folderId: string, parentId: string | null) => {
+    if (!canMoveFolder(folders, folderId, parentId)) return;
+    try {
+        await moveFolder(folders, folderId, parentId);
+    } catch (error) {
+        console.error("Error moving folder:", error);
+        alert("Failed to move the folder.");
+    }
+  }, [folders]);
+
+  const handleDeleteFolder = useCallback(async (folder: Folder) => {
+    const contents = getFolderContents(folders, files, folder.id);
+    const nestedFolderCount = contents.folderIds.size - 1;
+    const summary = nestedFolderCount > 0 || contents.files.length > 0
+        ? ` and everything in it (${nestedFolderCount} folder${nestedFolderCount !== 1 ? 's' : ''}, ${contents.files.length} file${contents.files.length !== 1 ? 's' : ''})`
+        : '';
+    if (!window.confirm(`Are you sure you want to delete ${folder.name}${summary}? Its files will be moved to the trash.`)) return;
+    try {
+        await deleteFolder(folders, files, folder.id);
+    } catch (error) {
+        console.error("Error deleting folder:", error);
+        alert("Failed to delete the folder completely.");
+    }
+  }, [folders, files]);
+
+  const handleDropItem = useCallback((item: DraggedItem, folderId: string | null) => {
+    if (item.kind === 'file') {
+        const file = files.find(f => f.id === item.id);
+        if (file && (file.folderId ?? null) !== folderId) handleMoveFile(file.id, folderId);
+    } else if (item.id !== folderId) {
+        handleMoveFolder(item.id, folderId);
+    }
+  }, [files, handleMoveFile, handleMoveFolder]);
+
+  const handleMoveFiles = useCallback(async (filesToMove: ManagedFile[], folderId: string | null) => {
+    const results = await Promise.allSettled(filesToMove.map(file => moveFile(file.id, folderId)));
+    const failed = results.filter(result => result.status === 'rejected');
+    if (failed.length > 0) {
+        console.error("Error moving files:", failed);
+        alert(`Failed to move ${failed.length} file${failed.length !== 1 ? 's' : ''}.`);
+    }
+  }, []);
+
+  const handleMoveConfirmed = (folderId: string | null) => {
+    if (!moveRequest) return;
+    if (moveRequest.kind === 'file') handleMoveFile(moveRequest.file.id, folderId);
+    else if (moveRequest.kind === 'files') handleMoveFiles(moveRequest.files, folderId).then(() => setSelectedIds(new Set()));
+    else handleMoveFolder(moveRequest.folder.id, folderId);
+    setMoveRequest(null);
+  };
+
   const handleDragEvents = (e: React.DragEvent<HTMLDivElement>, dragging: boolean) => {
       e.preventDefault();
       e.stopPropagation();
@@ -162,14 +730,42 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ user }) => {
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
-    handleUploadFiles(Array.from(e.dataTransfer.files));
+    readDroppedFiles(e.dataTransfer).then(handleUploadFiles, error => {
+        console.error("Error reading dropped folders:", error);
+        alert("Could not read the dropped folders.");
+    });
   }, [handleUploadFiles]);
   
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-      handleUploadFiles(Array.from(e.target.files || []));
+      handleUploadFiles(readInputFiles(e.target.files));
       e.target.value = '';
   };
 
+  const openPreview = (previewFiles: ManagedFile[], index: number) => {
+      setPreview({ files: previewFiles, index });
+      setPreviewReturnPath(getLocationPath());
+      navigateTo({ name: 'file', fileId: previewFiles[index].id });
+  };
+
+  const openFolder = (folderId: string | null) => {
+      navigateTo({ name: 'folder', folderId });
+      setSearchCriteria(prev => ({ ...EMPTY_SEARCH, sortField: prev.sortField, sortDirection: prev.sortDirection }));
+  };
+
+  const describeLocation = (file: ManagedFile) => {
+      const path = getFolderPath(folders, file.folderId ?? null).map(folder => folder.name);
+      return `${file.type} · ${['My Locker', ...path].join(' / ')}`;
+  };
+
+  const searchResults = useMemo(() => searchFiles(files, searchCriteria), [files, searchCriteria]);
+  const isSearching = isSearchActive(searchCriteria);
+
+  // A selection only makes sense within the view it was made in.
+  useEffect(() => {
+    setSelectedIds(new Set());
+    selectionAnchor.current = null;
+  }, [section, selectedCategory, currentFolderId, selectedTag, isSearching]);
+
   const groupedFiles = useMemo(() => {
     return files.reduce((acc, file) => {
         if (!acc[file.type]) acc[file.type] = [];
@@ -177,42 +773,580 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ user }) => {
         return acc;
     }, {} as Record<FileType, ManagedFile[]>);
   }, [files]);
+
+  // The files the current view lists, in the order shown; bulk actions only ever reach these.
+  const listedFiles = useMemo(() => {
+    const listed = isSearching ? searchResults
+        : section !== 'files' ? []
+        : selectedCategory ? groupedFiles[selectedCategory] || []
+        : selectedTag ? files.filter(file => hasTag(file, selectedTag))
+        : files.filter(file => listedFolderId(folderIds, file) === currentFolderId);
+    return sortFiles(listed, searchCriteria.sortField, searchCriteria.sortDirection);
+  }, [isSearching, searchResults, section, selectedCategory, groupedFiles, selectedTag, files, folderIds, currentFolderId, searchCriteria]);
+
+  // Files that leave the view, say because a filter changed or they moved elsewhere, leave the selection too.
+  useEffect(() => {
+    setSelectedIds(prev => keepVisibleSelection(prev, listedFiles));
+  }, [listedFiles]);
+
+  const tagCounts = useMemo(() => collectTags(files), [files]);
+  const availableTags = useMemo(() => tagCounts.map(({ tag }) => tag), [tagCounts]);
+
+  const tagBytes = useMemo(() => {
+    const bytes = new Map<string, number>();
+    files.forEach(file => file.tags?.forEach(tag => bytes.set(tag, (bytes.get(tag) || 0) + file.size)));
+    return bytes;
+  }, [files]);
+
+  // Inside search results a tag narrows the search; anywhere else it opens the tag's collection.
+  const handleTagClick = (tag: string) => {
+      if (isSearching) {
+          if (!searchCriteria.tags.includes(tag)) setSearchCriteria({ ...searchCriteria, tags: [...searchCriteria.tags, tag] });
+      } else {
+          navigateTo({ name: 'tag', tag });
+      }
+  };
+
+  const categoryBytes = useMemo(() => {
+    const bytes = new Map<FileType, number>();
+    files.forEach(file => bytes.set(file.type, (bytes.get(file.type) || 0) + file.size));
+    return bytes;
+  }, [files]);
+
+  const folderItemCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    const bump = (parentId: string | null | undefined) => {
+        if (parentId) counts.set(parentId, (counts.get(parentId) || 0) + 1);
+    };
+    files.forEach(file => bump(file.folderId));
+    folders.forEach(folder => bump(folder.parentId));
+    return counts;
+  }, [files, folders]);
   
   const folderCategories = Object.values(FileType);
 
+  const uploadPanel = <UploadQueuePanel queue={uploadQueue} entries={uploadEntries} />;
+
+  const describeMoveRequest = (request: MoveRequest) => {
+    switch (request.kind) {
+        case 'file': return { name: request.file.name, folderId: listedFolderId(folderIds, request.file) };
+        case 'files': return { name: `${request.files.length} files`, folderId: request.files[0] ? listedFolderId(folderIds, request.files[0]) : null };
+        case 'folder': return { name: request.folder.name, folderId: request.folder.parentId };
+    }
+  };
+
+  const moveDialog = active && moveRequest && (
+    <MoveDialog
+        title={`Move ${describeMoveRequest(moveRequest).name} to...`}
+        folders={folders}
+        currentFolderId={describeMoveRequest(moveRequest).folderId}
+        excludedFolderIds={moveRequest.kind === 'folder'
+            ? new Set([moveRequest.folder.id, ...getDescendantFolderIds(folders, moveRequest.folder.id)])
+            : undefined}
+        onMove={handleMoveConfirmed}
+        onClose={() => setMoveRequest(null)}
+    />
+  );
+
+  const rootCrumb: Crumb = {
+    key: 'root',
+    label: 'My Locker',
+    onClick: () => openFolder(null),
+    onDropItem: item => handleDropItem(item, null),
+  };
+
+  const selectedFiles = listedFiles.filter(file => selectedIds.has(file.id));
+
+  const handleToggleSelect = (file: ManagedFile, shiftKey: boolean, visibleFiles: ManagedFile[]) => {
+    const anchorIndex = visibleFiles.findIndex(f => f.id === selectionAnchor.current);
+    setSelectedIds(prev => {
+        const next = new Set(prev);
+        if (shiftKey && anchorIndex !== -1) {
+            const index = visibleFiles.findIndex(f => f.id === file.id);
+            visibleFiles.slice(Math.min(index, anchorIndex), Math.max(index, anchorIndex) + 1).forEach(f => next.add(f.id));
+        } else if (next.has(file.id)) {
+            next.delete(file.id);
+        } else {
+            next.add(file.id);
+        }
+        return next;
+    });
+    if (!shiftKey) selectionAnchor.current = file.id;
+  };
+
+  const handleBulkDelete = async () => {
+    const count = selectedFiles.length;
+    if (!window.confirm(`Move ${count} file${count !== 1 ? 's' : ''} to the trash?`)) return;
+    const failed = await trashFiles(selectedFiles);
+    if (failed.length > 0) {
+        console.error("Error deleting files:", failed);
+        alert(`Failed to delete ${failed.length} file${failed.length !== 1 ? 's' : ''}.`);
+    }
+    setSelectedIds(new Set());
+  };
+
+  const handleBulkChangeType = async (type: FileType) => {
+    const results = await Promise.allSettled(selectedFiles.map(file => setFileType(file.id, type)));
+    const failed = results.filter(result => result.status === 'rejected');
+    if (failed.length > 0) {
+        console.error("Error changing categories:", failed);
+        alert(`Failed to change the category of ${failed.length} file${failed.length !== 1 ? 's' : ''}.`);
+    }
+  };
+
+  const handleDownloadZip = async () => {
+    if (zipAbortController.current) return;
+    const controller = new AbortController();
+    zipAbortController.current = controller;
+    try {
+        const archive = await openSaveStream(`safe-locker-${new Date().toISOString().slice(0, 10)}.zip`, 'application/zip');
+        await writeZip(
+            selectedFiles.map(file => ({
+                name: file.name,
+                size: file.size,
+                lastModified: file.updatedAt ?? file.createdAt,
+                load: () => fetchFileBlob(vaultKey, file),
+            })),
+            archive,
+            {
+                signal: controller.signal,
+                onProgress: (processedBytes, totalBytes) => setZipProgress({ processedBytes, totalBytes }),
+            }
+        );
+        recordActivity(user.uid, 'download', { count: selectedFiles.length });
+    } catch (error: any) {
+        if (error?.name !== 'AbortError') {
+            console.error("Error building ZIP:", error);
+            alert("Failed to build the ZIP archive.");
+        }
+    } finally {
+        zipAbortController.current = null;
+        setZipProgress(null);
+    }
+  };
+
+  const handleExportLocker = async () => {
+    if (exportAbortController.current) return;
+    if (files.length === 0) {
+        alert("Your locker is empty.");
+        return;
+    }
+    const exportBytes = files.reduce((total, file) => total + file.size, 0);
+    if (!window.confirm(`Export ${files.length} file${files.length !== 1 ? 's' : ''} (${formatBytes(exportBytes)}) into one ZIP archive? The archive is not encrypted. Files in the trash and old versions are left out.`)) return;
+    const controller = new AbortController();
+    exportAbortController.current = controller;
+    try {
+        const archive = await openSaveStream(`safe-locker-export-${new Date().toISOString().slice(0, 10)}.zip`, 'application/zip');
+        await exportLocker(vaultKey, files, folders, archive, {
+            signal: controller.signal,
+            onProgress: (processedBytes, totalBytes) => setExportProgress({ processedBytes, totalBytes }),
+        });
+        recordActivity(user.uid, 'download', { count: files.length });
+    } catch (error: any) {
+        if (error?.name !== 'AbortError') {
+            console.error("Error exporting locker:", error);
+            alert("Failed to export your locker.");
+        }
+    } finally {
+        exportAbortController.current = null;
+        setExportProgress(null);
+    }
+  };
+
+  // Imports go through the upload queue like any other upload; files already in the locker are
+  // skipped rather than asked about, since an archive can hold thousands of them.
+  const handleImportArchive = async (archive: File) => {
+    let plan: LockerImport;
+    try {
+        plan = await readLockerArchive(archive);
+    } catch (error) {
+        console.error("Error reading archive:", error);
+        alert(error instanceof ZipFormatError ? error.message : "Could not read the archive.");
+        return;
+    }
+    const { items, skipped } = plan;
+    const failed: SkippedImport[] = [];
+    const importable = items.filter(item => {
+        if (item.entry.size <= MAX_FILE_BYTES) return true;
+        skipped.push({ name: item.name, reason: `larger than ${formatBytes(MAX_FILE_BYTES)}` });
+        return false;
+    });
+    const incomingBytes = importable.reduce((total, item) => total + item.entry.size, 0);
+    if (importable.length === 0) {
+        alert("There are no files in this archive to import.");
+        return;
+    }
+    const pastWarning = incomingBytes > getRemainingBytes()
+        ? ` This takes you past the ${formatBytes(usageWarningBytes!)} you asked to be warned at.`
+        : '';
+    if (!window.confirm(`Import ${importable.length} file${importable.length !== 1 ? 's' : ''} (${formatBytes(incomingBytes)}) into your locker? Folders in the archive are recreated.${pastWarning}`)) return;
+
+    const folderBatch = newFolderBatch();
+    const knownHashes = new Set(files.map(file => file.contentHash).filter(Boolean));
+    let queued = 0;
+    setImportProgress({ done: 0, total: importable.length });
+    try {
+        for (const path of plan.folders) await ensureFolderPath(user.uid, vaultKey, folders, folderBatch, null, path);
+    } catch (error) {
+        console.error("Error creating folders:", error);
+    }
+    for (const [index, item] of importable.entries()) {
+        try {
+            const data = await item.entry.load();
+            const file = new File([data], item.name, { type: item.classification?.mimeType ?? '', lastModified: item.lastModified });
+            const contentHash = await hashContents(vaultKey, file);
+            if (knownHashes.has(contentHash)) {
+                skipped.push({ name: item.name, reason: 'already in your locker' });
+            } else {
+                knownHashes.add(contentHash);
+                const folderId = await ensureFolderPath(user.uid, vaultKey, folders, folderBatch, null, item.folderPath);
+                uploadQueue.add([file], {
+                    folderId,
+                    contentHash,
+                    classification: item.classification,
+                    typeSetByUser: item.typeSetByUser,
+                    details: item.details,
+                });
+                queued++;
+            }
+        } catch (error: any) {
+            console.error(`Error importing ${item.name}:`, error);
+            failed.push({ name: item.name, reason: error?.message || 'could not be read' });
+        }
+        setImportProgress({ done: index + 1, total: importable.length });
+    }
+    setImportProgress(null);
+    reportFolderFailures(folderBatch);
+
+    const describe = (title: string, list: SkippedImport[]) => list.length === 0 ? '' :
+        `\n\n${title} (${list.length}):\n${list.slice(0, 10).map(({ name, reason }) => `${name}: ${reason}`).join('\n')}${list.length > 10 ? `\n...and ${list.length - 10} more` : ''}`;
+    alert(`${queued} file${queued !== 1 ? 's' : ''} added to the upload queue.${describe('Skipped', skipped)}${describe('Failed', failed)}`);
+  };
+
+  const renderFileGrid = (filesToShow: ManagedFile[], emptyTitle: string, emptyMessage: string, showLocation = false) => {
+    const sorted = sortFiles(filesToShow, searchCriteria.sortField, searchCriteria.sortDirection);
+    const FileView = viewMode === 'grid' ? FileCard : FileItem;
+    const visibleSelectedCount = sorted.filter(file => selectedIds.has(file.id)).length;
+    return sorted.length > 0 ? (
+        <>
+        <BulkActionBar
+            selectedCount={visibleSelectedCount}
+            totalCount={sorted.length}
+            onToggleAll={() => setSelectedIds(visibleSelectedCount === sorted.length ? new Set() : new Set(sorted.map(file => file.id)))}
+            onClear={() => setSelectedIds(new Set())}
+            onDelete={handleBulkDelete}
+            onMove={() => setMoveRequest({ kind: 'files', files: selectedFiles })}
+            onChangeCategory={handleBulkChangeType}
+            onDownloadZip={handleDownloadZip}
+            zipProgress={zipProgress}
+            onCancelZip={() => zipAbortController.current?.abort()}
+        />
+        <div className={viewMode === 'grid' ? "grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4" : "grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4"}>
+            {sorted.map((file, index) => (
+                <FileView
+                    key={file.id}
+                    file={file}
+                    vaultKey={vaultKey}
+                    onDownload={handleDownloadFile}
+                    onDelete={handleDeleteFile}
+                    onMove={f => setMoveRequest({ kind: 'file', file: f })}
+                    onShare={setShareTarget}
+                    onEditDetails={setDetailsTarget}
+                    onShowVersions={f => setVersionsFileId(f.id)}
+                    onOpen={() => openPreview(sorted, index)}
+                    onTagClick={handleTagClick}
+                    location={showLocation ? describeLocation(file) : undefined}
+                    selected={selectedIds.has(file.id)}
+                    onToggleSelect={(f, shiftKey) => handleToggleSelect(f, shiftKey, sorted)}
+                />
+            ))}
+        </div>
+        </>
+    ) : (
+        <div className="text-center py-16">
+            <FolderIcon className="mx-auto w-16 h-16 text-gray-400 dark:text-gray-500" />
+            <h3 className="mt-2 text-lg font-medium text-gray-900 dark:text-gray-200">{emptyTitle}</h3>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">{emptyMessage}</p>
+        </div>
+    );
+  };
+
+  const closePreview = useCallback(() => {
+      if (previewReturnPath) {
+          window.history.back();
+      } else {
+          const file = preview?.files[preview.index];
+          navigateTo({ name: 'folder', folderId: file ? listedFolderId(folderIds, file) : null }, { replace: true });
+      }
+  }, [preview, previewReturnPath, folderIds]);
+
+  const changePreviewIndex = useCallback((index: number) => {
+      if (!preview) return;
+      setPreview({ ...preview, index });
+      navigateTo({ name: 'file', fileId: preview.files[index].id }, { replace: true });
+  }, [preview]);
+
+  // Rendered by every section: an upload waits on its prompts, which may open in any of them.
+  // Their state lives here, so dialogs left open come back when the dashboard is shown again.
+  const dialogs = active && (
+    <>
+        {duplicatePrompt && (
+            <DuplicateDialog
+                fileName={duplicatePrompt.fileName}
+                existing={duplicatePrompt.existing}
+                location={describeLocation(duplicatePrompt.existing)}
+                remaining={duplicatePrompt.remaining}
+                onChoose={duplicatePrompt.resolve}
+            />
+        )}
+        {newVersionPrompt && (
+            <NewVersionDialog
+                fileName={newVersionPrompt.fileName}
+                existing={newVersionPrompt.existing}
+                location={describeLocation(newVersionPrompt.existing)}
+                remaining={newVersionPrompt.remaining}
+                onChoose={newVersionPrompt.resolve}
+            />
+        )}
+        {directoryUploadPrompt && (
+            <DirectoryUploadDialog
+                files={directoryUploadPrompt.files}
+                typeRules={typeRules}
+                onChoose={directoryUploadPrompt.resolve}
+            />
+        )}
+        {versionsFile && (
+            <VersionHistoryDialog
+                file={versionsFile}
+                retentionDays={versionRetentionDays}
+                onPreview={version => { setVersionsFileId(null); openPreview([versionAsFile(versionsFile, version)], 0); }}
+                onDownload={version => handleDownloadVersion(versionsFile, version)}
+                onRestore={version => handleRestoreVersion(versionsFile, version)}
+                onDelete={version => handleDeleteVersion(versionsFile, version)}
+                onClose={() => setVersionsFileId(null)}
+            />
+        )}
+        {shareTarget && <ShareDialog file={shareTarget} onCreate={handleCreateShare} onClose={() => setShareTarget(null)} />}
+        {detailsTarget && <FileDetailsDialog file={detailsTarget} vaultKey={vaultKey} availableTags={availableTags} onClose={() => setDetailsTarget(null)} />}
+        {preview && (
+            <PreviewModal
+                files={preview.files}
+                index={preview.index}
+                vaultKey={vaultKey}
+                onIndexChange={changePreviewIndex}
+                onClose={closePreview}
+                onDownload={handleDownloadFile}
+                describeLocation={describeLocation}
+            />
+        )}
+    </>
+  );
+
+  const sectionTabs = (
+    <div className="flex space-x-1 mb-6 border-b border-gray-200 dark:border-gray-700">
+        {(Object.keys(sectionLabels) as DashboardSection[]).map(key => (
+            <button
+                key={key}
+                onClick={() => key === 'files' ? openFolder(null) : navigateTo({ name: key })}
+                className={`px-3 py-2 -mb-px border-b-2 text-sm font-semibold transition-colors ${section === key ? 'border-indigo-500 text-indigo-600 dark:text-indigo-400' : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`}
+            >
+                {sectionLabels[key]}
+            </button>
+        ))}
+    </div>
+  );
+
+  const viewModeButtonClass = (mode: ViewMode) =>
+    `p-2 rounded-md transition-colors ${viewMode === mode ? 'bg-indigo-100 text-indigo-600 dark:bg-indigo-900/40 dark:text-indigo-400' : 'text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700'}`;
+
+  const viewControls = (
+    <div className="flex items-center space-x-2">
+        {(thumbnailProgress || filesMissingThumbnails.length > 0) && (
+            <button onClick={handleGenerateThumbnails} disabled={!!thumbnailProgress} className="text-sm font-semibold text-indigo-600 dark:text-indigo-400 hover:underline disabled:no-underline disabled:text-gray-500 disabled:cursor-wait">
+                {thumbnailProgress
+                    ? `Generating thumbnails... ${thumbnailProgress.done}/${thumbnailProgress.total}`
+                    : `Generate missing thumbnails (${filesMissingThumbnails.length})`}
+            </button>
+        )}
+        <button onClick={() => setViewMode('list')} title="List view" className={viewModeButtonClass('list')}>
+            <ListIcon />
+        </button>
+        <button onClick={() => setViewMode('grid')} title="Grid view" className={viewModeButtonClass('grid')}>
+            <GridIcon />
+        </button>
+    </div>
+  );
+
+  const searchBar = (
+    <>
+        <SearchBar criteria={searchCriteria} onChange={setSearchCriteria} availableTags={availableTags} />
+        {sectionTabs}
+    </>
+  );
+
   if (isLoading) {
     return <div className="flex items-center justify-center h-full"><p className="text-center text-gray-600 dark:text-gray-400">Loading your files...</p></div>;
   }
   
+  if (section === 'shared' && !isSearching) {
+    return (
+        <main className="p-4 sm:p-6 lg:p-8">
+            {searchBar}
+            <SharedByMeView userId={user.uid} files={allFiles} />
+            {dialogs}
+            {uploadPanel}
+        </main>
+    );
+  }
+
+  if (section === 'trash' && !isSearching) {
+    return (
+        <main className="p-4 sm:p-6 lg:p-8">
+            {searchBar}
+            <TrashView
+                files={trashedFiles}
+                retentionDays={trashRetentionDays}
+                onRestore={handleRestoreFile}
+                onDeleteForever={handleDeleteForever}
+                onEmptyTrash={handleEmptyTrash}
+                onRetentionChange={handleRetentionChange}
+            />
+            {dialogs}
+            {uploadPanel}
+        </main>
+    );
+  }
+
+  if (section === 'usage' && !isSearching) {
+    return (
+        <main className="p-4 sm:p-6 lg:p-8">
+            {searchBar}
+            <UsageView
+                files={allFiles}
+                usageWarningBytes={usageWarningBytes}
+                onUsageWarningChange={handleUsageWarningChange}
+                versionRetentionDays={versionRetentionDays}
+                onVersionRetentionChange={handleVersionRetentionChange}
+                onOpen={file => openPreview([file], 0)}
+            />
+            <div className="mt-8">
+                <LockerTransferPanel
+                    onExport={handleExportLocker}
+                    exportProgress={exportProgress}
+                    onCancelExport={() => exportAbortController.current?.abort()}
+                    onImport={handleImportArchive}
+                    importProgress={importProgress}
+                />
+            </div>
+            {dialogs}
+            {uploadPanel}
+        </main>
+    );
+  }
+
+  if (section === 'duplicates' && !isSearching) {
+    return (
+        <main className="p-4 sm:p-6 lg:p-8">
+            {searchBar}
+            <DuplicatesView
+                files={files}
+                unscannedCount={filesWithoutHash.length}
+                scanProgress={hashScanProgress}
+                onScan={handleScanForDuplicates}
+                onTrash={handleTrashDuplicates}
+                onOpen={file => openPreview([file], 0)}
+                describeLocation={describeLocation}
+            />
+            {dialogs}
+            {uploadPanel}
+        </main>
+    );
+  }
+
+  if (section === 'activity' && !isSearching) {
+    return (
+        <main className="p-4 sm:p-6 lg:p-8">
+            {searchBar}
+            <ActivityView userId={user.uid} vaultKey={vaultKey} />
+            {dialogs}
+            {uploadPanel}
+        </main>
+    );
+  }
+
+  if (isSearching) {
+    return (
+        <main className="p-4 sm:p-6 lg:p-8">
+            {searchBar}
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200">
+                    {searchResults.length} result{searchResults.length !== 1 ? 's' : ''}
+                </h2>
+                {viewControls}
+            </div>
+            {renderFileGrid(searchResults, "No matching files", "Try a shorter name or loosen the filters.", true)}
+            {moveDialog}
+            {dialogs}
+            {uploadPanel}
+        </main>
+    );
+  }
+
   if (selectedCategory) {
-    const filesInCategory = groupedFiles[selectedCategory] || [];
     return (
         <main className="p-4 sm:p-6 lg:p-8">
-            <div className="flex items-center mb-6">
-                <button onClick={() => setSelectedCategory(null)} className="flex items-center space-x-2 p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors -ml-2">
-                    <ArrowLeftIcon className="w-6 h-6 text-gray-600 dark:text-gray-300" />
-                </button>
-                <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200 ml-2">{selectedCategory}</h2>
+            {searchBar}
+            <div className="flex items-center justify-between mb-6">
+                <Breadcrumb crumbs={[rootCrumb, { key: selectedCategory, label: selectedCategory, onClick: () => {} }]} />
+                {viewControls}
             </div>
-            {filesInCategory.length > 0 ? (
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                    {filesInCategory.map(file => (
-                        <FileItem key={file.id} file={file} onDelete={handleDeleteFile} />
-                    ))}
-                </div>
-            ) : (
-                <div className="text-center py-16">
-                    <FolderIcon className="mx-auto w-16 h-16 text-gray-400 dark:text-gray-500" />
-                    <h3 className="mt-2 text-lg font-medium text-gray-900 dark:text-gray-200">This folder is empty</h3>
-                    <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">Upload some files to see them here.</p>
-                </div>
-            )}
+            {renderFileGrid(listedFiles, "This folder is empty", "Upload some files to see them here.", true)}
+            {moveDialog}
+            {dialogs}
+            {uploadPanel}
         </main>
     )
   }
 
+  if (selectedTag) {
+    return (
+        <main className="p-4 sm:p-6 lg:p-8">
+            {searchBar}
+            <div className="flex items-center justify-between mb-6">
+                <Breadcrumb crumbs={[rootCrumb, { key: `tag:${selectedTag}`, label: `#${selectedTag}`, onClick: () => {} }]} />
+                {viewControls}
+            </div>
+            {renderFileGrid(listedFiles, "Nothing is tagged with this", "Add tags with the tag button on any file.", true)}
+            {moveDialog}
+            {dialogs}
+            {uploadPanel}
+        </main>
+    )
+  }
+
+  const folderPath = getFolderPath(folders, currentFolderId);
+  const crumbs: Crumb[] = [
+    rootCrumb,
+    ...folderPath.map(folder => ({
+        key: folder.id,
+        label: folder.name,
+        onClick: () => openFolder(folder.id),
+        onDropItem: (item: DraggedItem) => handleDropItem(item, folder.id),
+    })),
+  ];
+  const subfolders = folders.filter(folder => folder.parentId === currentFolderId);
+
   return (
     <main className="p-4 sm:p-6 lg:p-8">
+        {searchBar}
+        <div className="flex items-center justify-between mb-6">
+            <Breadcrumb crumbs={crumbs} />
+            <button onClick={handleCreateFolder} className="flex items-center space-x-2 flex-shrink-0 rounded-md bg-gray-200 dark:bg-gray-700 px-3 py-2 text-sm font-semibold text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors">
+                <FolderPlusIcon className="w-5 h-5" />
+                <span className="hidden sm:inline">New folder</span>
+            </button>
+        </div>
+
         <div 
           onDragOver={(e) => handleDragEvents(e, true)}
           onDragEnter={(e) => handleDragEvents(e, true)}
@@ -222,45 +1356,102 @@ const DashboardPage: React.FC<DashboardPageProps> = ({ user }) => {
         >
           <div className="flex flex-col items-center">
             <UploadIcon />
-            <p className="mt-4 text-lg font-semibold text-gray-700 dark:text-gray-300">Drag & drop files here</p>
+            <p className="mt-4 text-lg font-semibold text-gray-700 dark:text-gray-300">Drag & drop files or folders here</p>
             <p className="text-sm text-gray-500 dark:text-gray-400">or</p>
-            <label htmlFor="file-upload" className="mt-2 cursor-pointer rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600">
-              <span>Select files</span>
-              <input id="file-upload" name="file-upload" type="file" className="sr-only" multiple onChange={handleFileInputChange} />
-            </label>
+            <div className="mt-2 flex items-center space-x-2">
+              <label htmlFor="file-upload" className="cursor-pointer rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600">
+                <span>Select files</span>
+                <input id="file-upload" name="file-upload" type="file" className="sr-only" multiple onChange={handleFileInputChange} />
+              </label>
+              <label htmlFor="folder-upload" className="cursor-pointer rounded-md bg-gray-200 dark:bg-gray-700 px-3 py-2 text-sm font-semibold text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600">
+                <span>Select folder</span>
+                {/* webkitdirectory is not in React's input props, so it is set on the element itself. */}
+                <input id="folder-upload" name="folder-upload" type="file" className="sr-only" ref={input => { if (input) input.webkitdirectory = true; }} onChange={handleFileInputChange} />
+              </label>
+            </div>
+            {checkingCount > 0 && (
+              <p className="mt-3 text-sm text-gray-500 dark:text-gray-400">Checking {checkingCount} file{checkingCount !== 1 ? 's' : ''} for duplicates...</p>
+            )}
           </div>
         </div>
 
-        {uploadingFiles.length > 0 && (
+        {subfolders.length > 0 && (
             <div className="mt-8">
-                <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-4">Uploading...</h2>
-                <div className="space-y-2">
-                    {uploadingFiles.map(name => (
-                        <div key={name} className="flex items-center justify-between p-3 bg-gray-200 dark:bg-gray-700 rounded-lg">
-                            <span className="font-medium text-gray-800 dark:text-gray-200 truncate">{name}</span>
-                            <SpinnerIcon className="text-gray-500 dark:text-gray-400" />
-                        </div>
+                <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200 mb-4">Folders</h2>
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+                    {subfolders.map(folder => (
+                        <FolderTile
+                            key={folder.id}
+                            folder={folder}
+                            itemCount={folderItemCounts.get(folder.id) || 0}
+                            onOpen={f => openFolder(f.id)}
+                            onRename={handleRenameFolder}
+                            onMove={f => setMoveRequest({ kind: 'folder', folder: f })}
+                            onDelete={handleDeleteFolder}
+                            onDropItem={(item, f) => handleDropItem(item, f.id)}
+                        />
                     ))}
                 </div>
             </div>
         )}
 
-        <div className="mt-8">
-            <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200 mb-4">Folders</h2>
-            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
-                {folderCategories.map(category => (
-                    <FolderItem
-                        key={category}
-                        category={category}
-                        count={groupedFiles[category]?.length || 0}
-                        icon={categoryIcons[category]}
-                        onClick={() => setSelectedCategory(category)}
-                    />
-                ))}
+        {(currentFolderId || listedFiles.length > 0) && (
+            <div className="mt-8">
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200">Files</h2>
+                    {viewControls}
+                </div>
+                {renderFileGrid(listedFiles, "This folder is empty", "Drop files above to upload them into this folder.")}
             </div>
-        </div>
+        )}
+
+        {!currentFolderId && (
+            <div className="mt-8">
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200">Categories</h2>
+                    <button onClick={handleReclassifyAll} disabled={!!reclassifyProgress} title="Sort existing files into categories again" className="text-sm font-semibold text-indigo-600 dark:text-indigo-400 hover:underline disabled:no-underline disabled:text-gray-500 disabled:cursor-wait">
+                        {reclassifyProgress
+                            ? `Reclassifying... ${reclassifyProgress.done}/${reclassifyProgress.total}`
+                            : 'Reclassify all'}
+                    </button>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+                    {folderCategories.map(category => (
+                        <FolderItem
+                            key={category}
+                            label={category}
+                            count={groupedFiles[category]?.length || 0}
+                            bytes={categoryBytes.get(category) || 0}
+                            icon={categoryIcons[category]}
+                            onClick={() => navigateTo({ name: 'category', category })}
+                        />
+                    ))}
+                </div>
+            </div>
+        )}
+
+        {!currentFolderId && tagCounts.length > 0 && (
+            <div className="mt-8">
+                <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200 mb-4">Collections</h2>
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+                    {tagCounts.map(({ tag, count }) => (
+                        <FolderItem
+                            key={tag}
+                            label={`#${tag}`}
+                            count={count}
+                            bytes={tagBytes.get(tag) || 0}
+                            icon={<TagIcon className="w-12 h-12" />}
+                            onClick={() => navigateTo({ name: 'tag', tag })}
+                        />
+                    ))}
+                </div>
+            </div>
+        )}
+        {moveDialog}
+        {dialogs}
+        {uploadPanel}
       </main>
   );
 };
 
-export default DashboardPage;
\ No newline at end of file
+export default DashboardPage;
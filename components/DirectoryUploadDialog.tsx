@@ -0,0 +1,63 @@
+import React, { useMemo } from 'react';
+import { FileType } from '../types';
+import { TypeRule, classify } from '../services/fileTypes';
+import { formatBytes } from '../utils/format';
+import { PickedFile } from '../utils/pickedFiles';
+import Modal from './Modal';
+
+interface DirectoryUploadDialogProps {
+  files: PickedFile[];
+  typeRules: TypeRule[];
+  onChoose: (upload: boolean) => void;
+}
+
+const DirectoryUploadDialog: React.FC<DirectoryUploadDialogProps> = ({ files, typeRules, onChoose }) => {
+  const summary = useMemo(() => {
+    // Classified by name and browser MIME type only; the contents are sniffed when each file uploads.
+    const byType = new Map<FileType, { count: number; bytes: number }>();
+    for (const { file } of files) {
+      const { type } = classify({ name: file.name, mimeType: file.type }, typeRules);
+      const totals = byType.get(type) ?? { count: 0, bytes: 0 };
+      byType.set(type, { count: totals.count + 1, bytes: totals.bytes + file.size });
+    }
+    return {
+      totalBytes: files.reduce((total, { file }) => total + file.size, 0),
+      folderCount: new Set(files.filter(({ folderPath }) => folderPath.length > 0).map(({ folderPath }) => folderPath.join('/'))).size,
+      topFolders: [...new Set(files.map(({ folderPath }) => folderPath[0]).filter(Boolean))],
+      byType: Object.values(FileType).filter(type => byType.has(type)).map(type => ({ type, ...byType.get(type)! })),
+    };
+  }, [files, typeRules]);
+
+  const footer = (
+    <>
+      <button onClick={() => onChoose(false)} className="rounded-md px-3 py-2 text-sm font-semibold text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700">
+        Cancel
+      </button>
+      <button onClick={() => onChoose(true)} className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500">
+        Upload {files.length} file{files.length !== 1 ? 's' : ''}
+      </button>
+    </>
+  );
+
+  return (
+    <Modal title="Upload folder" onClose={() => onChoose(false)} footer={footer}>
+      <p className="text-sm text-gray-700 dark:text-gray-300">
+        <span className="font-medium break-all">{summary.topFolders.join(', ')}</span> hold{summary.topFolders.length === 1 ? 's' : ''} {files.length} file{files.length !== 1 ? 's' : ''} ({formatBytes(summary.totalBytes)}) in {summary.folderCount} folder{summary.folderCount !== 1 ? 's' : ''}.
+        The folders are recreated here with the same structure.
+      </p>
+      <table className="mt-4 w-full text-sm">
+        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+          {summary.byType.map(({ type, count, bytes }) => (
+            <tr key={type} className="text-gray-700 dark:text-gray-300">
+              <td className="py-1.5">{type}</td>
+              <td className="py-1.5 text-right">{count} file{count !== 1 ? 's' : ''}</td>
+              <td className="py-1.5 text-right text-gray-500 dark:text-gray-400">{formatBytes(bytes)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </Modal>
+  );
+};
+
+export default DirectoryUploadDialog;
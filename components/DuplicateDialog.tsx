@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { ManagedFile } from '../types';
+import Modal from './Modal';
+
+export type DuplicateChoice = 'skip' | 'keep' | 'replace';
+
+interface DuplicateDialogProps {
+  fileName: string;
+  existing: ManagedFile;
+  location: string;
+  // Duplicates still waiting for a decision after this one.
+  remaining: number;
+  onChoose: (choice: DuplicateChoice, applyToRemaining: boolean) => void;
+}
+
+const DuplicateDialog: React.FC<DuplicateDialogProps> = ({ fileName, existing, location, remaining, onChoose }) => {
+  const [applyToRemaining, setApplyToRemaining] = useState(false);
+  const choose = (choice: DuplicateChoice) => onChoose(choice, applyToRemaining);
+
+  const footer = (
+    <>
+      <button onClick={() => choose('skip')} className="rounded-md px-3 py-2 text-sm font-semibold text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700">
+        Skip
+      </button>
+      <button onClick={() => choose('keep')} className="rounded-md px-3 py-2 text-sm font-semibold text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700">
+        Keep both
+      </button>
+      <button onClick={() => choose('replace')} className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500">
+        Replace
+      </button>
+    </>
+  );
+
+  return (
+    <Modal title="Duplicate file" onClose={() => choose('skip')} footer={footer}>
+      <p className="text-sm text-gray-700 dark:text-gray-300">
+        <span className="font-medium break-all">{fileName}</span> has the same contents as <span className="font-medium break-all">{existing.name}</span> ({location}).
+      </p>
+      <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">Replacing uploads the new copy and moves the existing one to the trash.</p>
+      {remaining > 0 && (
+        <label className="mt-4 flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+          <input type="checkbox" checked={applyToRemaining} onChange={(e) => setApplyToRemaining(e.target.checked)} className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+          <span>Do the same for the other {remaining} duplicate{remaining !== 1 ? 's' : ''}</span>
+        </label>
+      )}
+    </Modal>
+  );
+};
+
+export default DuplicateDialog;
@@ -0,0 +1,95 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ManagedFile } from '../types';
+import { findDuplicateGroups } from '../services/files';
+import { formatBytes, formatDateTime } from '../utils/format';
+import { FileIcon } from './FileItem';
+
+interface DuplicatesViewProps {
+  files: ManagedFile[];
+  // Files uploaded before content hashes existed, which have to be scanned to take part.
+  unscannedCount: number;
+  scanProgress: { done: number; total: number } | null;
+  onScan: () => void;
+  onTrash: (files: ManagedFile[]) => void;
+  onOpen: (file: ManagedFile) => void;
+  describeLocation: (file: ManagedFile) => string;
+}
+
+const byAge = (a: ManagedFile, b: ManagedFile) => (a.createdAt ?? 0) - (b.createdAt ?? 0);
+
+// Everything except the oldest copy in each group, which is the one most likely to be referenced.
+const defaultSelection = (groups: ManagedFile[][]) =>
+  new Set(groups.flatMap(group => [...group].sort(byAge).slice(1).map(file => file.id)));
+
+const DuplicatesView: React.FC<DuplicatesViewProps> = ({ files, unscannedCount, scanProgress, onScan, onTrash, onOpen, describeLocation }) => {
+  const groups = useMemo(() => findDuplicateGroups(files).map(group => [...group].sort(byAge)), [files]);
+  const groupsKey = groups.map(group => group.map(file => file.id).join(',')).join(';');
+  const [selected, setSelected] = useState<Set<string>>(() => defaultSelection(groups));
+
+  useEffect(() => setSelected(defaultSelection(groups)), [groupsKey]);
+
+  const toggle = (fileId: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(fileId)) next.delete(fileId); else next.add(fileId);
+    return next;
+  });
+
+  const selectedFiles = groups.flat().filter(file => selected.has(file.id));
+  const reclaimableBytes = selectedFiles.reduce((total, file) => total + file.size, 0);
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {groups.length} set{groups.length !== 1 ? 's' : ''} of identical files
+          {unscannedCount > 0 && !scanProgress && <> · {unscannedCount} older file{unscannedCount !== 1 ? 's' : ''} not checked yet</>}
+        </p>
+        <div className="flex items-center space-x-2">
+          {(scanProgress || unscannedCount > 0) && (
+            <button onClick={onScan} disabled={!!scanProgress} className="rounded-md px-3 py-1.5 text-sm font-semibold text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 disabled:text-gray-500 disabled:cursor-wait">
+              {scanProgress ? `Scanning... ${scanProgress.done}/${scanProgress.total}` : 'Scan older files'}
+            </button>
+          )}
+          {selectedFiles.length > 0 && (
+            <button onClick={() => onTrash(selectedFiles)} className="rounded-md px-3 py-1.5 text-sm font-semibold text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors">
+              Move {selectedFiles.length} to trash ({formatBytes(reclaimableBytes)})
+            </button>
+          )}
+        </div>
+      </div>
+
+      {groups.length === 0 ? (
+        <div className="text-center py-16">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-200">No duplicates found</h3>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">Every file in your locker is unique.</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {groups.map(group => (
+            <section key={group[0].contentHash} className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                {group.length} copies · {formatBytes(group[0].size)} each
+              </h3>
+              {group.map(file => (
+                <label key={file.id} className="flex items-center p-3 bg-white dark:bg-gray-800 rounded-lg shadow-sm cursor-pointer">
+                  <input type="checkbox" checked={selected.has(file.id)} onChange={() => toggle(file.id)} className="mr-3 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+                  <FileIcon type={file.type} />
+                  <div className="truncate min-w-0">
+                    <button onClick={(e) => { e.preventDefault(); onOpen(file); }} className="font-medium text-gray-800 dark:text-gray-200 block truncate hover:underline text-left">
+                      {file.name}
+                    </button>
+                    <span className="text-xs text-gray-500 dark:text-gray-400 block truncate">
+                      {describeLocation(file)}{file.createdAt ? ` · uploaded ${formatDateTime(file.createdAt)}` : ''}
+                    </span>
+                  </div>
+                </label>
+              ))}
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DuplicatesView;
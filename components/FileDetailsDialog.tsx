@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { FileType, ManagedFile } from '../types';
+import { VaultKey } from '../services/crypto';
+import { setFileType, updateFileDetails } from '../services/files';
+import Modal from './Modal';
+import TagInput from './TagInput';
+
+interface FileDetailsDialogProps {
+  file: ManagedFile;
+  vaultKey: VaultKey;
+  availableTags: string[];
+  onClose: () => void;
+}
+
+const MAX_NOTES_LENGTH = 5000;
+
+const FileDetailsDialog: React.FC<FileDetailsDialogProps> = ({ file, vaultKey, availableTags, onClose }) => {
+  const [type, setType] = useState<FileType>(file.type);
+  const [tags, setTags] = useState<string[]>(file.tags ?? []);
+  const [notes, setNotes] = useState(file.notes ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      // Live sync picks the change up, so there is nothing to hand back.
+      await updateFileDetails(vaultKey, file.id, { tags, notes });
+      if (type !== file.type) await setFileType(file.id, type);
+      onClose();
+    } catch (error) {
+      console.error("Error saving file details:", error);
+      alert("Failed to save the file's details.");
+      setIsSaving(false);
+    }
+  };
+
+  const footer = (
+    <>
+      <button onClick={onClose} className="rounded-md px-3 py-2 text-sm font-semibold text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700">
+        Cancel
+      </button>
+      <button
+        onClick={handleSave}
+        disabled={isSaving}
+        className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:bg-indigo-400 disabled:cursor-not-allowed"
+      >
+        {isSaving ? 'Saving...' : 'Save'}
+      </button>
+    </>
+  );
+
+  return (
+    <Modal title={`Details: ${file.name}`} onClose={onClose} footer={footer}>
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="file-details-category" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Category</label>
+          <select
+            id="file-details-category"
+            value={type}
+            onChange={(e) => setType(e.target.value as FileType)}
+            className="block w-full rounded-md border border-gray-300 dark:border-gray-600 px-3 py-2 text-gray-900 dark:text-white dark:bg-gray-700 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          >
+            {Object.values(FileType).map(category => <option key={category} value={category}>{category}</option>)}
+          </select>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            {file.typeSetByUser ? "You picked this category, so reclassifying leaves it alone." : "Picked from the file's contents and name when it was uploaded."}
+          </p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Tags</label>
+          <TagInput tags={tags} onChange={setTags} suggestions={availableTags} />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Press Enter or comma to add a tag.</p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Notes</label>
+          <textarea
+            rows={5}
+            maxLength={MAX_NOTES_LENGTH}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className="block w-full rounded-md border border-gray-300 dark:border-gray-600 px-3 py-2 text-gray-900 dark:text-white dark:bg-gray-700 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          />
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400">Tags and notes are encrypted with your vault key, like file names. The category is not.</p>
+      </div>
+    </Modal>
+  );
+};
+
+export default FileDetailsDialog;
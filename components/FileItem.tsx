@@ -0,0 +1,150 @@
+import React from 'react';
+import { FileType, ManagedFile } from '../types';
+import { VaultKey } from '../services/crypto';
+import { useThumbnailUrl } from '../hooks/useThumbnailUrl';
+import { setDraggedItem } from '../utils/dragItems';
+import { formatBytes } from '../utils/format';
+import { ImageIcon, VideoIcon, DocumentIcon, AudioIcon, OtherIcon, DownloadIcon, DeleteIcon, MoveIcon, ShareIcon, TagIcon } from './icons';
+
+export const FileIcon: React.FC<{ type: FileType }> = ({ type }) => {
+    const iconProps = { className: "w-6 h-6 mr-3 text-gray-500 dark:text-gray-400 flex-shrink-0" };
+    switch (type) {
+        case FileType.Photos: return <ImageIcon {...iconProps} />;
+        case FileType.Videos: return <VideoIcon {...iconProps} />;
+        case FileType.Document: return <DocumentIcon {...iconProps} />;
+        case FileType.Songs: return <AudioIcon {...iconProps} />;
+        default: return <OtherIcon {...iconProps} />;
+    }
+};
+
+interface FileItemProps {
+    file: ManagedFile;
+    vaultKey: VaultKey;
+    onDownload: (file: ManagedFile) => void;
+    onDelete: (file: ManagedFile) => void;
+    onMove: (file: ManagedFile) => void;
+    onShare: (file: ManagedFile) => void;
+    onEditDetails: (file: ManagedFile) => void;
+    onShowVersions: (file: ManagedFile) => void;
+    onOpen: (file: ManagedFile) => void;
+    onTagClick: (tag: string) => void;
+    // Where the file lives, shown in search results.
+    location?: string;
+    // Multi-select; the checkbox is only shown when onToggleSelect is given.
+    selected?: boolean;
+    onToggleSelect?: (file: ManagedFile, shiftKey: boolean) => void;
+}
+
+const actionButtonClass = "p-2 text-gray-500 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors";
+
+type FileActionsProps = Pick<FileItemProps, 'file' | 'onDownload' | 'onDelete' | 'onMove' | 'onShare' | 'onEditDetails'>;
+
+const SelectCheckbox: React.FC<Pick<FileItemProps, 'file' | 'selected' | 'onToggleSelect'> & { className: string }> = ({ file, selected, onToggleSelect, className }) => (
+    <input
+        type="checkbox"
+        readOnly
+        checked={!!selected}
+        onClick={(e) => onToggleSelect!(file, e.shiftKey)}
+        aria-label={`Select ${file.name}`}
+        className={`rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 cursor-pointer ${className}`}
+    />
+);
+
+const TagChips: React.FC<Pick<FileItemProps, 'file' | 'onTagClick'>> = ({ file, onTagClick }) =>
+    file.tags?.length ? (
+        <div className="flex flex-wrap gap-1 mt-1">
+            {file.tags.map(tag => (
+                <button
+                    key={tag}
+                    onClick={(e) => { e.stopPropagation(); onTagClick(tag); }}
+                    className="rounded-full bg-indigo-100 dark:bg-indigo-900/50 px-2 py-0.5 text-xs font-medium text-indigo-700 dark:text-indigo-300 hover:bg-indigo-200 dark:hover:bg-indigo-800"
+                >
+                    {tag}
+                </button>
+            ))}
+        </div>
+    ) : null;
+
+// Only files with a history get the link, so it doubles as the sign that one exists.
+const VersionsLink: React.FC<Pick<FileItemProps, 'file' | 'onShowVersions'>> = ({ file, onShowVersions }) =>
+    file.versions?.length ? (
+        <button onClick={(e) => { e.stopPropagation(); onShowVersions(file); }} className="ml-1 text-xs text-indigo-600 dark:text-indigo-400 hover:underline">
+            · {file.versions.length + 1} versions
+        </button>
+    ) : null;
+
+const FileActions: React.FC<FileActionsProps> = ({ file, onDownload, onDelete, onMove, onShare, onEditDetails }) => (
+    <div className="flex-shrink-0 flex items-center space-x-2 pl-2">
+        <button onClick={() => onEditDetails(file)} title="Category, tags & notes" className={`${actionButtonClass} hover:text-indigo-600 dark:hover:text-indigo-400`}>
+            <TagIcon />
+        </button>
+        <button onClick={() => onMove(file)} title="Move to..." className={`${actionButtonClass} hover:text-indigo-600 dark:hover:text-indigo-400`}>
+            <MoveIcon />
+        </button>
+        <button onClick={() => onShare(file)} title="Share" className={`${actionButtonClass} hover:text-indigo-600 dark:hover:text-indigo-400`}>
+            <ShareIcon />
+        </button>
+        <button onClick={() => onDownload(file)} title="Download" className={`${actionButtonClass} hover:text-blue-600 dark:hover:text-blue-400`}>
+            <DownloadIcon />
+        </button>
+        <button onClick={() => onDelete(file)} title="Delete" className={`${actionButtonClass} hover:text-red-600 dark:hover:text-red-400`}>
+            <DeleteIcon />
+        </button>
+    </div>
+);
+
+const FileItem: React.FC<FileItemProps> = ({ file, vaultKey, onOpen, onTagClick, onShowVersions, location, selected, onToggleSelect, ...actions }) => {
+    const thumbnailUrl = useThumbnailUrl(vaultKey, file);
+    return (
+        <div
+            draggable
+            onDragStart={(e) => setDraggedItem(e, { kind: 'file', id: file.id })}
+            className={`flex items-center justify-between p-3 bg-white dark:bg-gray-800 rounded-lg shadow-sm hover:shadow-md transition-shadow ${selected ? 'ring-2 ring-indigo-500' : ''}`}
+        >
+            {onToggleSelect && <SelectCheckbox file={file} selected={selected} onToggleSelect={onToggleSelect} className="mr-3 flex-shrink-0" />}
+            <div onClick={() => onOpen(file)} className="flex items-center flex-1 truncate min-w-0 cursor-pointer">
+                {thumbnailUrl
+                    ? <img src={thumbnailUrl} alt="" className="w-10 h-10 mr-3 rounded object-cover flex-shrink-0" />
+                    : <FileIcon type={file.type} />}
+                <div className="truncate">
+                    <span className="font-medium text-gray-800 dark:text-gray-200 block truncate">{file.name}</span>
+                    <span className="text-sm text-gray-500 dark:text-gray-400">{formatBytes(file.size)}</span>
+                    <VersionsLink file={file} onShowVersions={onShowVersions} />
+                    {location && <span className="text-xs text-indigo-600 dark:text-indigo-400 block truncate">{location}</span>}
+                    <TagChips file={file} onTagClick={onTagClick} />
+                </div>
+            </div>
+            <FileActions file={file} {...actions} />
+        </div>
+    );
+};
+
+/** Grid variant of FileItem, led by a large thumbnail. */
+export const FileCard: React.FC<FileItemProps> = ({ file, vaultKey, onOpen, onTagClick, onShowVersions, location, selected, onToggleSelect, ...actions }) => {
+    const thumbnailUrl = useThumbnailUrl(vaultKey, file);
+    return (
+        <div
+            draggable
+            onDragStart={(e) => setDraggedItem(e, { kind: 'file', id: file.id })}
+            className={`relative flex flex-col bg-white dark:bg-gray-800 rounded-lg shadow-sm hover:shadow-md transition-shadow overflow-hidden ${selected ? 'ring-2 ring-indigo-500' : ''}`}
+        >
+            {onToggleSelect && <SelectCheckbox file={file} selected={selected} onToggleSelect={onToggleSelect} className="absolute top-2 left-2" />}
+            <div onClick={() => onOpen(file)} className="aspect-square flex items-center justify-center bg-gray-100 dark:bg-gray-900 cursor-pointer">
+                {thumbnailUrl
+                    ? <img src={thumbnailUrl} alt="" className="w-full h-full object-cover" />
+                    : <div className="scale-150 pl-3"><FileIcon type={file.type} /></div>}
+            </div>
+            <div className="p-2 min-w-0">
+                <span onClick={() => onOpen(file)} className="font-medium text-sm text-gray-800 dark:text-gray-200 block truncate cursor-pointer" title={file.name}>{file.name}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400 block">{formatBytes(file.size)}<VersionsLink file={file} onShowVersions={onShowVersions} /></span>
+                {location && <span className="text-xs text-indigo-600 dark:text-indigo-400 block truncate">{location}</span>}
+                <TagChips file={file} onTagClick={onTagClick} />
+                <div className="flex justify-end -mr-1">
+                    <FileActions file={file} {...actions} />
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default FileItem;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Folder } from '../types';
+import { DraggedItem, setDraggedItem } from '../utils/dragItems';
+import { useItemDropTarget } from '../hooks/useItemDropTarget';
+import { FolderIcon, PencilIcon, MoveIcon, DeleteIcon } from './icons';
+
+interface FolderTileProps {
+    folder: Folder;
+    itemCount: number;
+    onOpen: (folder: Folder) => void;
+    onRename: (folder: Folder) => void;
+    onMove: (folder: Folder) => void;
+    onDelete: (folder: Folder) => void;
+    onDropItem: (item: DraggedItem, folder: Folder) => void;
+}
+
+const actionButtonClass = "p-1.5 text-gray-500 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors";
+
+const FolderTile: React.FC<FolderTileProps> = ({ folder, itemCount, onOpen, onRename, onMove, onDelete, onDropItem }) => {
+    const { isOver, dropTargetProps } = useItemDropTarget(item => onDropItem(item, folder));
+    return (
+        <div
+            draggable
+            onDragStart={(e) => setDraggedItem(e, { kind: 'folder', id: folder.id })}
+            onClick={() => onOpen(folder)}
+            {...dropTargetProps}
+            className={`group relative flex flex-col items-center justify-center p-6 bg-white dark:bg-gray-800 rounded-xl shadow-md hover:shadow-lg hover:-translate-y-1 transition-all cursor-pointer ${isOver ? 'ring-2 ring-indigo-500' : ''}`}
+        >
+            <div className="absolute top-2 right-2 flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity" onClick={(e) => e.stopPropagation()}>
+                <button onClick={() => onRename(folder)} title="Rename" className={`${actionButtonClass} hover:text-indigo-600 dark:hover:text-indigo-400`}><PencilIcon className="h-4 w-4" /></button>
+                <button onClick={() => onMove(folder)} title="Move to..." className={`${actionButtonClass} hover:text-indigo-600 dark:hover:text-indigo-400`}><MoveIcon className="h-4 w-4" /></button>
+                <button onClick={() => onDelete(folder)} title="Delete" className={`${actionButtonClass} hover:text-red-600 dark:hover:text-red-400`}><DeleteIcon className="h-4 w-4" /></button>
+            </div>
+            <div className="text-indigo-500 dark:text-indigo-400 mb-3"><FolderIcon className="w-12 h-12" /></div>
+            <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200 truncate max-w-full">{folder.name}</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{itemCount} item{itemCount !== 1 ? 's' : ''}</p>
+        </div>
+    );
+};
+
+export default FolderTile;
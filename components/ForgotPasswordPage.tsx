@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
-import { sendPasswordResetEmail } from 'firebase/auth';
-import { auth } from '../firebase';
+import { backend } from '../services/backend';
+import { queueActivity } from '../services/activity';
 import type { Page } from '../App';
 
 interface ForgotPasswordPageProps {
@@ -19,7 +19,8 @@ const ForgotPasswordPage: React.FC<ForgotPasswordPageProps> = ({ onNavigate }) =
     setError(null);
     setMessage(null);
     try {
-      await sendPasswordResetEmail(auth, email);
+      await backend.auth.sendPasswordReset(email);
+      queueActivity(email, 'password-reset');
       setMessage('Password reset link sent! Please check your email.');
     } catch (err: any) {
       setError('Failed to send reset link. Please check the email address.');
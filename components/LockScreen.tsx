@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { AuthUser, SecondFactorRequiredError, backend } from '../services/backend';
+import { recordActivity } from '../services/activity';
+import { MAX_UNLOCK_ATTEMPTS, getRemainingUnlockAttempts, hasLockPin, recordFailedUnlock, unlock, verifyLockPin } from '../services/lock';
+import { LockIcon } from './icons';
+
+interface LockScreenProps {
+  user: AuthUser;
+  onSignOut: () => void;
+}
+
+type UnlockMethod = 'pin' | 'password';
+
+// Covers the app while the locker is locked; everything underneath stays mounted and running.
+const LockScreen: React.FC<LockScreenProps> = ({ user, onSignOut }) => {
+  const pinAvailable = hasLockPin(user.uid);
+  const [method, setMethod] = useState<UnlockMethod>(pinAvailable ? 'pin' : 'password');
+  const [secret, setSecret] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleFailure = () => {
+    recordActivity(user.uid, 'unlock-failed');
+    const remaining = recordFailedUnlock();
+    if (remaining === 0) {
+      alert("Too many failed attempts. You have been signed out.");
+      onSignOut();
+      return;
+    }
+    setError(`${method === 'pin' ? 'Wrong PIN' : 'Wrong password'}. ${remaining} attempt${remaining !== 1 ? 's' : ''} left before you are signed out.`);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsChecking(true);
+    setError(null);
+    try {
+      if (method === 'pin') {
+        if (await verifyLockPin(user.uid, secret)) unlock();
+        else handleFailure();
+      } else {
+        await backend.auth.reauthenticate(secret);
+        unlock();
+      }
+    } catch (err: any) {
+      // The password was right; the session already passed the second factor when it signed in.
+      if (err instanceof SecondFactorRequiredError) {
+        unlock();
+      } else if (err?.code === 'auth/invalid-credential' || err?.code === 'auth/wrong-password') {
+        handleFailure();
+      } else {
+        console.error(err);
+        setError(navigator.onLine ? "Could not check your password. Please try again." : "Checking your password needs a connection. Use your PIN instead.");
+      }
+    } finally {
+      setSecret('');
+      setIsChecking(false);
+    }
+  };
+
+  const switchMethod = (next: UnlockMethod) => {
+    setMethod(next);
+    setSecret('');
+    setError(null);
+  };
+
+  const remaining = getRemainingUnlockAttempts();
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-[#202124]">
+      <div className="w-full max-w-sm p-8 space-y-6 bg-white dark:bg-gray-800 rounded-lg shadow-lg">
+        <div className="text-center">
+          <LockIcon className="mx-auto h-12 w-12 text-indigo-500" />
+          <h1 className="mt-2 text-2xl font-bold text-gray-900 dark:text-white">Locker locked</h1>
+          <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+            {user.email} · enter your {method === 'pin' ? 'PIN' : 'account password'} to continue.
+          </p>
+        </div>
+        <form className="space-y-4" onSubmit={handleSubmit}>
+          {error && <p className="text-sm text-center text-red-500 dark:text-red-400">{error}</p>}
+          <input
+            type="password"
+            inputMode={method === 'pin' ? 'numeric' : undefined}
+            autoComplete={method === 'pin' ? 'off' : 'current-password'}
+            autoFocus
+            required
+            placeholder={method === 'pin' ? 'PIN' : 'Password'}
+            value={secret}
+            onChange={(e) => setSecret(e.target.value)}
+            className="block w-full rounded-md border border-gray-300 dark:border-gray-600 px-3 py-2 text-gray-900 dark:text-white dark:bg-gray-700 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          />
+          <button type="submit" disabled={isChecking} className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-indigo-400 disabled:cursor-not-allowed">
+            {isChecking ? 'Checking...' : 'Unlock'}
+          </button>
+        </form>
+        {!error && remaining < MAX_UNLOCK_ATTEMPTS && (
+          <p className="text-xs text-center text-gray-500 dark:text-gray-400">{remaining} attempt{remaining !== 1 ? 's' : ''} left before you are signed out.</p>
+        )}
+        <div className="flex items-center justify-between text-sm">
+          {pinAvailable ? (
+            <button onClick={() => switchMethod(method === 'pin' ? 'password' : 'pin')} className="font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300">
+              {method === 'pin' ? 'Use password instead' : 'Use PIN instead'}
+            </button>
+          ) : <span />}
+          <button onClick={onSignOut} className="font-medium text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200">
+            Sign out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LockScreen;
@@ -0,0 +1,56 @@
+import React, { useRef } from 'react';
+import { DownloadIcon, UploadIcon } from './icons';
+
+interface LockerTransferPanelProps {
+  onExport: () => void;
+  // Set while the export archive is being built.
+  exportProgress: { processedBytes: number; totalBytes: number } | null;
+  onCancelExport: () => void;
+  onImport: (archive: File) => void;
+  // Set while an archive's files are read and queued for upload.
+  importProgress: { done: number; total: number } | null;
+}
+
+const buttonClass = "flex items-center space-x-2 rounded-md px-3 py-2 text-sm font-semibold text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-wait";
+
+// Export and import of the whole locker, shown under Storage.
+const LockerTransferPanel: React.FC<LockerTransferPanelProps> = ({ onExport, exportProgress, onCancelExport, onImport, importProgress }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const exportPercent = exportProgress ? Math.floor((exportProgress.processedBytes / Math.max(exportProgress.totalBytes, 1)) * 100) : 0;
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const archive = e.target.files?.[0];
+    // Cleared so picking the same archive again still fires a change.
+    e.target.value = '';
+    if (archive) onImport(archive);
+  };
+
+  return (
+    <section className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow-sm">
+      <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-200">Export and import</h2>
+      <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+        Download every file with its folders, categories, tags and notes as one ZIP archive, or import such an archive into this account.
+        The archive is not encrypted, so keep it somewhere safe.
+      </p>
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        {exportProgress ? (
+          <>
+            <span className="text-sm text-gray-600 dark:text-gray-400">Exporting... {exportPercent}%</span>
+            <button onClick={onCancelExport} className={buttonClass}>Cancel</button>
+          </>
+        ) : (
+          <button onClick={onExport} className={buttonClass}>
+            <DownloadIcon className="w-4 h-4" /><span>Export locker</span>
+          </button>
+        )}
+        <button onClick={() => inputRef.current?.click()} disabled={!!importProgress} className={buttonClass}>
+          <UploadIcon className="w-4 h-4" />
+          <span>{importProgress ? `Importing... ${importProgress.done}/${importProgress.total}` : 'Import archive'}</span>
+        </button>
+        <input ref={inputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={handleChange} />
+      </div>
+    </section>
+  );
+};
+
+export default LockerTransferPanel;
@@ -1,6 +1,9 @@
 import React, { useState } from 'react';
-import { signInWithEmailAndPassword } from 'firebase/auth';
-import { auth } from '../firebase';
+import { SecondFactorChallenge, SecondFactorRequiredError, backend } from '../services/backend';
+import { queueActivity } from '../services/activity';
+import { unlock } from '../services/lock';
+import { signInWithRecoveryCode } from '../services/twoFactor';
+import TwoFactorChallengePage from './TwoFactorChallengePage';
 import type { Page } from '../App';
 
 interface LoginPageProps {
@@ -12,14 +15,34 @@ const LoginPage: React.FC<LoginPageProps> = ({ onNavigate }) => {
   const [password, setPassword] = useState('password');
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [challenge, setChallenge] = useState<SecondFactorChallenge | null>(null);
+
+  const handleSignedIn = () => {
+    queueActivity(email, 'sign-in');
+    // A lock left over from a session that ended without signing out would greet the next sign-in.
+    unlock();
+  };
+
+  const handleRecover = async (recoveryCode: string) => {
+    await signInWithRecoveryCode(email, password, recoveryCode);
+    handleSignedIn();
+    alert("You used a recovery code, so two-step verification is now off. Turn it on again from Security in your account settings.");
+  };
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setIsLoading(true);
     setError(null);
     try {
-      await signInWithEmailAndPassword(auth, email, password);
+      await backend.auth.signIn(email, password);
+      handleSignedIn();
     } catch (err: any) {
+      // The password was right; the account also wants a code from its authenticator app.
+      if (err instanceof SecondFactorRequiredError) {
+        setChallenge(err.challenge);
+        return;
+      }
+      if (err?.code !== 'auth/network-request-failed') queueActivity(email, 'sign-in-failed');
       setError("Failed to sign in. Please check your email and password.");
       console.error(err);
     } finally {
@@ -27,6 +50,10 @@ const LoginPage: React.FC<LoginPageProps> = ({ onNavigate }) => {
     }
   };
 
+  if (challenge) {
+    return <TwoFactorChallengePage challenge={challenge} onPassed={handleSignedIn} onRecover={handleRecover} onCancel={() => setChallenge(null)} />;
+  }
+
   return (
     <div className="flex items-center justify-center min-h-screen">
       <div className="w-full max-w-md p-8 space-y-8 bg-white dark:bg-gray-800 rounded-lg shadow-lg">
@@ -0,0 +1,42 @@
+import React, { useEffect } from 'react';
+import { isLocked } from '../services/lock';
+import { CloseIcon } from './icons';
+
+interface ModalProps {
+  title: string;
+  onClose: () => void;
+  children: React.ReactNode;
+  footer?: React.ReactNode;
+  size?: 'md' | 'lg' | 'xl';
+}
+
+const sizeClasses = { md: 'max-w-md', lg: 'max-w-2xl', xl: 'max-w-5xl' };
+
+const Modal: React.FC<ModalProps> = ({ title, onClose, children, footer, size = 'md' }) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // The lock screen covers open modals without unmounting them; its keys are not meant for them.
+      if (isLocked()) return;
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div className={`w-full ${sizeClasses[size]} max-h-full flex flex-col bg-white dark:bg-gray-800 rounded-xl shadow-lg`} onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-200 truncate">{title}</h2>
+          <button onClick={onClose} className="p-1.5 text-gray-500 hover:text-gray-800 dark:hover:text-gray-100 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors">
+            <CloseIcon />
+          </button>
+        </div>
+        <div className="p-5 overflow-y-auto">{children}</div>
+        {footer && <div className="flex justify-end space-x-2 px-5 py-4 border-t border-gray-200 dark:border-gray-700">{footer}</div>}
+      </div>
+    </div>
+  );
+};
+
+export default Modal;
@@ -0,0 +1,77 @@
+import React, { useMemo, useState } from 'react';
+import { Folder } from '../types';
+import Modal from './Modal';
+import { FolderIcon } from './icons';
+
+interface MoveDialogProps {
+  title: string;
+  folders: Folder[];
+  currentFolderId: string | null;
+  // Folders that cannot be chosen, e.g. a folder being moved and its descendants.
+  excludedFolderIds?: Set<string>;
+  onMove: (folderId: string | null) => void;
+  onClose: () => void;
+}
+
+interface FolderRow {
+  folder: Folder | null;
+  depth: number;
+}
+
+const MoveDialog: React.FC<MoveDialogProps> = ({ title, folders, currentFolderId, excludedFolderIds, onMove, onClose }) => {
+  const [targetId, setTargetId] = useState<string | null>(currentFolderId);
+
+  const rows = useMemo(() => {
+    const result: FolderRow[] = [{ folder: null, depth: 0 }];
+    const visit = (parentId: string | null, depth: number) => {
+      folders
+        .filter(folder => folder.parentId === parentId && !excludedFolderIds?.has(folder.id))
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .forEach(folder => {
+          result.push({ folder, depth });
+          visit(folder.id, depth + 1);
+        });
+    };
+    visit(null, 1);
+    return result;
+  }, [folders, excludedFolderIds]);
+
+  const footer = (
+    <>
+      <button onClick={onClose} className="rounded-md px-3 py-2 text-sm font-semibold text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700">
+        Cancel
+      </button>
+      <button
+        onClick={() => onMove(targetId)}
+        disabled={targetId === currentFolderId}
+        className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:bg-indigo-400 disabled:cursor-not-allowed"
+      >
+        Move here
+      </button>
+    </>
+  );
+
+  return (
+    <Modal title={title} onClose={onClose} footer={footer}>
+      <ul className="space-y-1">
+        {rows.map(({ folder, depth }) => {
+          const id = folder?.id ?? null;
+          return (
+            <li key={id ?? 'root'}>
+              <button
+                onClick={() => setTargetId(id)}
+                style={{ paddingLeft: `${depth * 1.25 + 0.5}rem` }}
+                className={`w-full flex items-center py-2 pr-2 rounded-md text-left transition-colors ${targetId === id ? 'bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+              >
+                <FolderIcon className="w-5 h-5 mr-2 flex-shrink-0" />
+                <span className="truncate">{folder ? folder.name : 'My Locker'}</span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </Modal>
+  );
+};
+
+export default MoveDialog;
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { ManagedFile } from '../types';
+import Modal from './Modal';
+
+export type NewVersionChoice = 'skip' | 'keep' | 'version';
+
+interface NewVersionDialogProps {
+  fileName: string;
+  existing: ManagedFile;
+  location: string;
+  // Name clashes still waiting for a decision after this one.
+  remaining: number;
+  onChoose: (choice: NewVersionChoice, applyToRemaining: boolean) => void;
+}
+
+const NewVersionDialog: React.FC<NewVersionDialogProps> = ({ fileName, existing, location, remaining, onChoose }) => {
+  const [applyToRemaining, setApplyToRemaining] = useState(false);
+  const choose = (choice: NewVersionChoice) => onChoose(choice, applyToRemaining);
+
+  const footer = (
+    <>
+      <button onClick={() => choose('skip')} className="rounded-md px-3 py-2 text-sm font-semibold text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700">
+        Skip
+      </button>
+      <button onClick={() => choose('keep')} className="rounded-md px-3 py-2 text-sm font-semibold text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700">
+        Keep both
+      </button>
+      <button onClick={() => choose('version')} className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500">
+        Save as new version
+      </button>
+    </>
+  );
+
+  return (
+    <Modal title="File already exists" onClose={() => choose('skip')} footer={footer}>
+      <p className="text-sm text-gray-700 dark:text-gray-300">
+        A file named <span className="font-medium break-all">{fileName}</span> is already in this folder ({location}).
+      </p>
+      <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+        Saving as a new version keeps the current contents{existing.versions?.length ? ` and its ${existing.versions.length} earlier version${existing.versions.length !== 1 ? 's' : ''}` : ''} in the file's history, where they can be restored.
+      </p>
+      {remaining > 0 && (
+        <label className="mt-4 flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+          <input type="checkbox" checked={applyToRemaining} onChange={(e) => setApplyToRemaining(e.target.checked)} className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+          <span>Do the same for the other {remaining} file{remaining !== 1 ? 's' : ''} with existing names</span>
+        </label>
+      )}
+    </Modal>
+  );
+};
+
+export default NewVersionDialog;
@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import { FileType, ManagedFile } from '../types';
+import { VaultKey } from '../services/crypto';
+import { fetchFileBlob } from '../services/files';
+import { isLocked } from '../services/lock';
+import { formatBytes, formatDateTime } from '../utils/format';
+import { renderMarkdown } from '../utils/markdown';
+import Modal from './Modal';
+import { FileIcon } from './FileItem';
+import { ArrowLeftIcon, ChevronRightIcon, DownloadIcon, SpinnerIcon } from './icons';
+
+interface PreviewModalProps {
+  files: ManagedFile[];
+  index: number;
+  vaultKey: VaultKey;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+  onDownload: (file: ManagedFile) => void;
+  describeLocation: (file: ManagedFile) => string;
+}
+
+type PreviewKind = 'image' | 'video' | 'audio' | 'pdf' | 'markdown' | 'text' | 'none';
+
+// Text previews beyond this size are cut off rather than rendered whole.
+const MAX_TEXT_PREVIEW_BYTES = 2 * 1024 * 1024;
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.5, 2, 3, 4];
+const ACTUAL_SIZE = ZOOM_LEVELS.indexOf(1);
+const CLICK_ZOOM = ZOOM_LEVELS.indexOf(2);
+
+const extensionOf = (name: string) => name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+
+const getPreviewKind = (file: ManagedFile): PreviewKind => {
+  const mimeType = file.mimeType ?? '';
+  const extension = extensionOf(file.name);
+  switch (file.type) {
+    case FileType.Photos: return 'image';
+    case FileType.Videos: return 'video';
+    case FileType.Songs: return 'audio';
+    case FileType.Document:
+      if (mimeType === 'application/pdf' || extension === 'pdf') return 'pdf';
+      if (mimeType === 'text/markdown' || extension === 'md' || extension === 'markdown') return 'markdown';
+      if (mimeType.startsWith('text/') || ['txt', 'csv', 'log', 'json'].includes(extension)) return 'text';
+      return 'none';
+    default:
+      return 'none';
+  }
+};
+
+const MetadataCard: React.FC<{ file: ManagedFile; location: string }> = ({ file, location }) => (
+  <div className="flex flex-col items-center text-center py-10">
+    <div className="scale-150 mb-4"><FileIcon type={file.type} /></div>
+    <p className="font-medium text-gray-800 dark:text-gray-200 break-all">{file.name}</p>
+    <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">No preview available for this file.</p>
+    <dl className="mt-6 grid grid-cols-2 gap-x-6 gap-y-2 text-sm text-left">
+      <dt className="text-gray-500 dark:text-gray-400">Size</dt><dd className="text-gray-800 dark:text-gray-200">{formatBytes(file.size)}</dd>
+      <dt className="text-gray-500 dark:text-gray-400">Type</dt><dd className="text-gray-800 dark:text-gray-200">{file.mimeType || file.type}</dd>
+      <dt className="text-gray-500 dark:text-gray-400">Uploaded</dt><dd className="text-gray-800 dark:text-gray-200">{file.createdAt ? formatDateTime(file.createdAt) : 'Unknown'}</dd>
+      <dt className="text-gray-500 dark:text-gray-400">Location</dt><dd className="text-gray-800 dark:text-gray-200">{location}</dd>
+    </dl>
+  </div>
+);
+
+// Tags and notes sit under every kind of preview, not just the metadata card.
+const DetailsPanel: React.FC<{ file: ManagedFile }> = ({ file }) => {
+  if (!file.tags?.length && !file.notes) return null;
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700 space-y-2">
+      {!!file.tags?.length && (
+        <div className="flex flex-wrap gap-1">
+          {file.tags.map(tag => (
+            <span key={tag} className="rounded-full bg-indigo-100 dark:bg-indigo-900/50 px-2 py-0.5 text-xs font-medium text-indigo-700 dark:text-indigo-300">{tag}</span>
+          ))}
+        </div>
+      )}
+      {file.notes && <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words">{file.notes}</p>}
+    </div>
+  );
+};
+
+const ImageViewer: React.FC<{ url: string; name: string }> = ({ url, name }) => {
+  const [zoomIndex, setZoomIndex] = useState(ACTUAL_SIZE);
+  const zoom = ZOOM_LEVELS[zoomIndex];
+  const changeZoom = (step: number) => setZoomIndex(i => Math.min(ZOOM_LEVELS.length - 1, Math.max(0, i + step)));
+
+  useEffect(() => setZoomIndex(ACTUAL_SIZE), [url]);
+
+  return (
+    <div>
+      <div className="flex justify-center space-x-2 mb-3">
+        <button onClick={() => changeZoom(-1)} className="px-3 py-1 rounded-md bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200" title="Zoom out">−</button>
+        <span className="px-2 py-1 text-sm text-gray-600 dark:text-gray-300 w-16 text-center">{Math.round(zoom * 100)}%</span>
+        <button onClick={() => changeZoom(1)} className="px-3 py-1 rounded-md bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200" title="Zoom in">+</button>
+      </div>
+      <div
+        className="overflow-auto max-h-[70vh] flex items-center justify-center bg-black/80 rounded-lg"
+        onWheel={(e) => { if (e.ctrlKey) { e.preventDefault(); changeZoom(e.deltaY < 0 ? 1 : -1); } }}
+      >
+        <img
+          src={url}
+          alt={name}
+          onClick={() => setZoomIndex(zoom > 1 ? ACTUAL_SIZE : CLICK_ZOOM)}
+          style={{ transform: `scale(${zoom})`, transformOrigin: 'center' }}
+          className={`max-w-full max-h-[70vh] object-contain transition-transform ${zoom > 1 ? 'cursor-zoom-out' : 'cursor-zoom-in'}`}
+        />
+      </div>
+    </div>
+  );
+};
+
+const PreviewModal: React.FC<PreviewModalProps> = ({ files, index, vaultKey, onIndexChange, onClose, onDownload, describeLocation }) => {
+  const file = files[index];
+  const kind = getPreviewKind(file);
+  const [url, setUrl] = useState<string | null>(null);
+  const [text, setText] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keyed on the file's identity rather than the object, which live sync replaces on every snapshot.
+  useEffect(() => {
+    setUrl(null);
+    setText(null);
+    setError(null);
+    if (kind === 'none') return;
+
+    let canceled = false;
+    let objectUrl: string | null = null;
+    fetchFileBlob(vaultKey, file, { keepOffline: true })
+      .then(async blob => {
+        if (canceled) return;
+        if (kind === 'text' || kind === 'markdown') {
+          const content = await blob.slice(0, MAX_TEXT_PREVIEW_BYTES).text();
+          if (!canceled) setText(blob.size > MAX_TEXT_PREVIEW_BYTES ? `${content}\n\n[Preview truncated]` : content);
+          return;
+        }
+        // PDFs need an explicit type for the browser's viewer to kick in.
+        const typed = kind === 'pdf' && blob.type !== 'application/pdf' ? new Blob([blob], { type: 'application/pdf' }) : blob;
+        objectUrl = URL.createObjectURL(typed);
+        setUrl(objectUrl);
+      })
+      .catch(err => {
+        console.error("Error loading preview:", err);
+        if (!canceled) setError(navigator.onLine ? "Could not load a preview of this file." : "This file has not been opened on this device before, so it is not available offline.");
+      });
+
+    return () => {
+      canceled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [file.id, file.storagePath, kind, vaultKey]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Let arrow keys keep working inside media controls and text fields.
+      if (isLocked() || e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === 'ArrowRight' && index < files.length - 1) onIndexChange(index + 1);
+      if (e.key === 'ArrowLeft' && index > 0) onIndexChange(index - 1);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [index, files.length, onIndexChange]);
+
+  const isReady = kind === 'none' || url !== null || text !== null;
+
+  const renderContent = () => {
+    if (error) return <p className="text-center text-red-500 dark:text-red-400 py-10">{error}</p>;
+    if (!isReady) return <div className="flex justify-center py-16"><SpinnerIcon className="h-8 w-8 text-gray-500" /></div>;
+    switch (kind) {
+      case 'image': return <ImageViewer url={url!} name={file.name} />;
+      case 'video': return <video src={url!} controls autoPlay className="w-full max-h-[70vh] rounded-lg bg-black" />;
+      case 'audio': return <audio src={url!} controls autoPlay className="w-full" />;
+      case 'pdf': return <iframe src={url!} title={file.name} className="w-full h-[70vh] rounded-lg bg-white" />;
+      case 'markdown': return <div className="max-h-[70vh] overflow-auto text-gray-800 dark:text-gray-200" dangerouslySetInnerHTML={{ __html: renderMarkdown(text!) }} />;
+      case 'text': return <pre className="max-h-[70vh] overflow-auto whitespace-pre-wrap break-words text-sm text-gray-800 dark:text-gray-200 p-3 bg-gray-100 dark:bg-gray-900 rounded-lg">{text}</pre>;
+      default: return <MetadataCard file={file} location={describeLocation(file)} />;
+    }
+  };
+
+  const navButtonClass = "flex items-center space-x-1 rounded-md px-3 py-2 text-sm font-semibold text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed";
+
+  const footer = (
+    <div className="flex items-center justify-between w-full">
+      <button onClick={() => onIndexChange(index - 1)} disabled={index === 0} className={navButtonClass}>
+        <ArrowLeftIcon className="w-4 h-4" /><span>Previous</span>
+      </button>
+      <div className="flex items-center space-x-3">
+        <span className="text-sm text-gray-500 dark:text-gray-400">{index + 1} of {files.length}</span>
+        <button onClick={() => onDownload(file)} className="flex items-center space-x-1 rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500">
+          <DownloadIcon /><span>Download</span>
+        </button>
+      </div>
+      <button onClick={() => onIndexChange(index + 1)} disabled={index === files.length - 1} className={navButtonClass}>
+        <span>Next</span><ChevronRightIcon className="w-4 h-4" />
+      </button>
+    </div>
+  );
+
+  return (
+    <Modal title={file.name} onClose={onClose} footer={footer} size="xl">
+      {renderContent()}
+      <DetailsPanel file={file} />
+    </Modal>
+  );
+};
+
+export default PreviewModal;
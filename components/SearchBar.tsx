@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { FileType } from '../types';
+import { EMPTY_SEARCH, SearchCriteria, SortField, isSearchActive } from '../services/search';
+import { SearchIcon, FilterIcon, CloseIcon } from './icons';
+import TagInput from './TagInput';
+
+interface SearchBarProps {
+  criteria: SearchCriteria;
+  onChange: (criteria: SearchCriteria) => void;
+  availableTags: string[];
+}
+
+const MEGABYTE = 1024 * 1024;
+const DAY = 24 * 60 * 60 * 1000;
+
+const inputClass = "block w-full rounded-md border border-gray-300 dark:border-gray-600 px-3 py-1.5 text-gray-900 dark:text-white dark:bg-gray-700 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
+const labelClass = "block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1";
+
+const toMegabytes = (bytes: number | null) => (bytes === null ? '' : String(bytes / MEGABYTE));
+const fromMegabytes = (value: string) => (value === '' ? null : Math.max(0, Number(value)) * MEGABYTE);
+
+// Date inputs work in local calendar days; stored bounds are epoch milliseconds.
+const toDateInput = (time: number | null) => {
+  if (time === null) return '';
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+const fromDateInput = (value: string, endOfDay: boolean) => {
+  if (!value) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  const start = new Date(year, month - 1, day).getTime();
+  return endOfDay ? start + DAY - 1 : start;
+};
+
+const SearchBar: React.FC<SearchBarProps> = ({ criteria, onChange, availableTags }) => {
+  const [showFilters, setShowFilters] = useState(false);
+  const update = (changes: Partial<SearchCriteria>) => onChange({ ...criteria, ...changes });
+  const hasFilters = isSearchActive({ ...criteria, query: '' });
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center space-x-2">
+        <div className="relative flex-1">
+          <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+          <input
+            type="search"
+            placeholder="Search your locker"
+            value={criteria.query}
+            onChange={(e) => update({ query: e.target.value })}
+            className="block w-full rounded-md border border-gray-300 dark:border-gray-600 pl-10 pr-3 py-2 text-gray-900 dark:text-white dark:bg-gray-800 placeholder-gray-500 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          />
+        </div>
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          className={`flex items-center space-x-1 rounded-md px-3 py-2 text-sm font-semibold transition-colors ${hasFilters ? 'bg-indigo-600 text-white hover:bg-indigo-500' : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600'}`}
+        >
+          <FilterIcon />
+          <span className="hidden sm:inline">Filters</span>
+        </button>
+        {isSearchActive(criteria) && (
+          <button onClick={() => onChange(EMPTY_SEARCH)} title="Clear search" className="p-2 text-gray-500 hover:text-gray-800 dark:hover:text-gray-100 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">
+            <CloseIcon />
+          </button>
+        )}
+      </div>
+
+      {showFilters && (
+        <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-4 p-4 bg-white dark:bg-gray-800 rounded-lg shadow-sm">
+          <div>
+            <label className={labelClass}>Type</label>
+            <select value={criteria.type ?? ''} onChange={(e) => update({ type: (e.target.value || null) as FileType | null })} className={inputClass}>
+              <option value="">Any type</option>
+              {Object.values(FileType).map(type => <option key={type} value={type}>{type}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Size (MB)</label>
+            <div className="flex items-center space-x-1">
+              <input type="number" min="0" step="any" placeholder="Min" value={toMegabytes(criteria.minSize)} onChange={(e) => update({ minSize: fromMegabytes(e.target.value) })} className={inputClass} />
+              <span className="text-gray-400">–</span>
+              <input type="number" min="0" step="any" placeholder="Max" value={toMegabytes(criteria.maxSize)} onChange={(e) => update({ maxSize: fromMegabytes(e.target.value) })} className={inputClass} />
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Uploaded</label>
+            <div className="flex items-center space-x-1">
+              <input type="date" value={toDateInput(criteria.uploadedFrom)} onChange={(e) => update({ uploadedFrom: fromDateInput(e.target.value, false) })} className={inputClass} />
+              <span className="text-gray-400">–</span>
+              <input type="date" value={toDateInput(criteria.uploadedTo)} onChange={(e) => update({ uploadedTo: fromDateInput(e.target.value, true) })} className={inputClass} />
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Sort by</label>
+            <div className="flex items-center space-x-1">
+              <select value={criteria.sortField} onChange={(e) => update({ sortField: e.target.value as SortField })} className={inputClass}>
+                <option value="name">Name</option>
+                <option value="size">Size</option>
+                <option value="date">Upload date</option>
+              </select>
+              <button
+                onClick={() => update({ sortDirection: criteria.sortDirection === 'asc' ? 'desc' : 'asc' })}
+                title={criteria.sortDirection === 'asc' ? 'Ascending' : 'Descending'}
+                className="px-3 py-1.5 rounded-md bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600"
+              >
+                {criteria.sortDirection === 'asc' ? '↑' : '↓'}
+              </button>
+            </div>
+          </div>
+          <div className="col-span-2 md:col-span-4">
+            <label className={labelClass}>Tags</label>
+            <TagInput tags={criteria.tags} onChange={(tags) => update({ tags })} suggestions={availableTags} placeholder="Only files with these tags" />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchBar;
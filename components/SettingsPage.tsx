@@ -0,0 +1,468 @@
+import React, { useRef, useState, useSyncExternalStore } from 'react';
+import { AuthUser, InvalidCodeError, SecondFactorRequiredError, backend } from '../services/backend';
+import { DeletionProgress, changeEmail, changePassword, deleteAccount, removeAvatar, uploadAvatar } from '../services/account';
+import { navigateTo } from '../services/routes';
+import { DEFAULT_SETTINGS, updateSettings } from '../services/settings';
+import { MAX_UNLOCK_ATTEMPTS, MIN_PIN_LENGTH, hasLockPin, removeLockPin, setLockPin, subscribeToLock } from '../services/lock';
+import { normalizeExtension } from '../services/fileTypes';
+import { useUserSettings } from '../hooks/useUserSettings';
+import { FileType } from '../types';
+import TwoFactorSettingsDialog from './TwoFactorSettingsDialog';
+import { ArrowLeftIcon, ProfileIcon } from './icons';
+
+interface SettingsPageProps {
+  user: AuthUser;
+}
+
+const MIN_PASSWORD_LENGTH = 6;
+
+const inputClass = "block w-full rounded-md border border-gray-300 dark:border-gray-600 px-3 py-2 text-gray-900 dark:text-white dark:bg-gray-700 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
+const labelClass = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+const primaryButtonClass = "py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-indigo-400 disabled:cursor-not-allowed";
+const secondaryButtonClass = "py-2 px-4 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50";
+
+// Firebase reports a wrong current password under either code depending on the project's settings.
+const describeAuthError = (err: any, fallback: string) => {
+  if (err instanceof InvalidCodeError || err instanceof SecondFactorRequiredError) return err.message;
+  switch (err?.code) {
+    case 'auth/invalid-credential':
+    case 'auth/wrong-password':
+      return "Your current password is incorrect.";
+    case 'auth/email-already-in-use':
+      return "An account with that email already exists.";
+    case 'auth/invalid-email':
+      return "That email address is not valid.";
+    case 'auth/weak-password':
+      return `Passwords must be at least ${MIN_PASSWORD_LENGTH} characters long.`;
+    case 'auth/too-many-requests':
+      return "Too many attempts. Please wait a few minutes and try again.";
+    default:
+      return fallback;
+  }
+};
+
+const Section: React.FC<{ title: string; description?: string; children: React.ReactNode; danger?: boolean }> = ({ title, description, children, danger }) => (
+  <section className={`p-6 bg-white dark:bg-gray-800 rounded-lg shadow ${danger ? 'border border-red-300 dark:border-red-800' : ''}`}>
+    <h2 className={`text-lg font-semibold ${danger ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>{title}</h2>
+    {description && <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">{description}</p>}
+    <div className="mt-4">{children}</div>
+  </section>
+);
+
+const Feedback: React.FC<{ message: string | null; error: string | null }> = ({ message, error }) => (
+  <>
+    {message && <p className="text-sm text-green-600 dark:text-green-400">{message}</p>}
+    {error && <p className="text-sm text-red-500 dark:text-red-400">{error}</p>}
+  </>
+);
+
+// Asked for beside the current password while two-step verification is on, since checking the
+// password again needs a code too.
+const CodeField: React.FC<{ id: string; user: AuthUser; value: string; onChange: (value: string) => void; disabled?: boolean }> = ({ id, user, value, onChange, disabled }) => {
+  if (user.secondFactorSince === null) return null;
+  return (
+    <div>
+      <label htmlFor={id} className={labelClass}>Authenticator code</label>
+      <input id={id} type="text" inputMode="numeric" autoComplete="one-time-code" required disabled={disabled} value={value} onChange={(e) => onChange(e.target.value)} className={inputClass} />
+    </div>
+  );
+};
+
+const ProfileSection: React.FC<{ user: AuthUser }> = ({ user }) => {
+  const [displayName, setDisplayName] = useState(user.displayName ?? '');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const avatarInput = useRef<HTMLInputElement>(null);
+
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await backend.auth.updateProfile({ displayName: displayName.trim() || null });
+      setMessage("Profile saved.");
+    } catch (err) {
+      console.error(err);
+      setError("Failed to save your profile.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAvatar = async (change: () => Promise<void>) => {
+    setIsUploading(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await change();
+    } catch (err) {
+      console.error(err);
+      setError("Failed to update your avatar.");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleAvatarChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const image = e.target.files?.[0];
+    e.target.value = '';
+    if (image) handleAvatar(() => uploadAvatar(user, image));
+  };
+
+  return (
+    <Section title="Profile" description="Your name and picture are shown in the header. Your avatar is not encrypted.">
+      <div className="flex items-center space-x-4 mb-4">
+        {user.photoUrl
+          ? <img src={user.photoUrl} alt="" className="h-16 w-16 rounded-full object-cover" />
+          : <ProfileIcon className="h-16 w-16 text-gray-400 bg-gray-100 dark:bg-gray-700 rounded-full p-2" />}
+        <div className="flex space-x-2">
+          <input ref={avatarInput} type="file" accept="image/*" className="hidden" onChange={handleAvatarChange} />
+          <button type="button" onClick={() => avatarInput.current?.click()} disabled={isUploading} className={secondaryButtonClass}>
+            {isUploading ? 'Saving...' : 'Change avatar'}
+          </button>
+          {user.photoUrl && (
+            <button type="button" onClick={() => handleAvatar(() => removeAvatar(user))} disabled={isUploading} className={secondaryButtonClass}>Remove</button>
+          )}
+        </div>
+      </div>
+      <form className="space-y-4" onSubmit={handleSave}>
+        <div>
+          <label htmlFor="settings-display-name" className={labelClass}>Display name</label>
+          <input id="settings-display-name" type="text" autoComplete="name" value={displayName} onChange={(e) => setDisplayName(e.target.value)} className={inputClass} />
+        </div>
+        <Feedback message={message} error={error} />
+        <div className="flex justify-end">
+          <button type="submit" disabled={isSaving} className={primaryButtonClass}>{isSaving ? 'Saving...' : 'Save'}</button>
+        </div>
+      </form>
+    </Section>
+  );
+};
+
+const EmailSection: React.FC<{ user: AuthUser }> = ({ user }) => {
+  const [newEmail, setNewEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await changeEmail(password, newEmail.trim(), code || undefined);
+      setMessage(`We sent a confirmation link to ${newEmail.trim()}. Your email changes once you follow it.`);
+      setNewEmail('');
+      setPassword('');
+      setCode('');
+    } catch (err) {
+      console.error(err);
+      setError(describeAuthError(err, "Failed to change your email."));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Section title="Email" description={`You sign in as ${user.email}.`}>
+      <form className="space-y-4" onSubmit={handleSubmit}>
+        <div>
+          <label htmlFor="settings-new-email" className={labelClass}>New email</label>
+          <input id="settings-new-email" type="email" autoComplete="email" required value={newEmail} onChange={(e) => setNewEmail(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor="settings-email-password" className={labelClass}>Current password</label>
+          <input id="settings-email-password" type="password" autoComplete="current-password" required value={password} onChange={(e) => setPassword(e.target.value)} className={inputClass} />
+        </div>
+        <CodeField id="settings-email-code" user={user} value={code} onChange={setCode} />
+        <Feedback message={message} error={error} />
+        <div className="flex justify-end">
+          <button type="submit" disabled={isLoading} className={primaryButtonClass}>{isLoading ? 'Sending...' : 'Change email'}</button>
+        </div>
+      </form>
+    </Section>
+  );
+};
+
+const PasswordSection: React.FC<{ user: AuthUser }> = ({ user }) => {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setMessage(null);
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      setError(`Passwords must be at least ${MIN_PASSWORD_LENGTH} characters long.`);
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError("Passwords do not match.");
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      await changePassword(user, currentPassword, newPassword, code || undefined);
+      setMessage("Password changed.");
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      setCode('');
+    } catch (err) {
+      console.error(err);
+      setError(describeAuthError(err, "Failed to change your password."));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Section title="Password" description="This is your sign-in password. Your vault passphrase is separate and does not change.">
+      <form className="space-y-4" onSubmit={handleSubmit}>
+        <div>
+          <label htmlFor="settings-current-password" className={labelClass}>Current password</label>
+          <input id="settings-current-password" type="password" autoComplete="current-password" required value={currentPassword} onChange={(e) => setCurrentPassword(e.target.value)} className={inputClass} />
+        </div>
+        <CodeField id="settings-password-code" user={user} value={code} onChange={setCode} />
+        <div>
+          <label htmlFor="settings-new-password" className={labelClass}>New password</label>
+          <input id="settings-new-password" type="password" autoComplete="new-password" required value={newPassword} onChange={(e) => setNewPassword(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor="settings-confirm-password" className={labelClass}>Confirm new password</label>
+          <input id="settings-confirm-password" type="password" autoComplete="new-password" required value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} className={inputClass} />
+        </div>
+        <Feedback message={message} error={error} />
+        <div className="flex justify-end">
+          <button type="submit" disabled={isLoading} className={primaryButtonClass}>{isLoading ? 'Saving...' : 'Change password'}</button>
+        </div>
+      </form>
+    </Section>
+  );
+};
+
+const DeleteAccountSection: React.FC<{ user: AuthUser }> = ({ user }) => {
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [progress, setProgress] = useState<DeletionProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!window.confirm("Permanently delete your account and every file in your locker? This cannot be undone.")) return;
+    setIsDeleting(true);
+    setError(null);
+    let started = false;
+    try {
+      // On success the auth listener signs the user out and App returns to the login page.
+      await deleteAccount(user, password, code || undefined, next => {
+        started = true;
+        setProgress(next);
+      });
+    } catch (err) {
+      console.error(err);
+      setError(describeAuthError(err, started
+        ? "Deletion stopped partway. Enter your password and try again to remove the rest."
+        : "Failed to delete your account."));
+      setIsDeleting(false);
+    }
+  };
+
+  const percent = progress ? Math.floor((progress.done / Math.max(progress.total, 1)) * 100) : 0;
+
+  return (
+    <Section title="Delete account" description="Removes every file, folder, share link and setting, then the account itself." danger>
+      <form className="space-y-4" onSubmit={handleSubmit}>
+        <div>
+          <label htmlFor="settings-delete-password" className={labelClass}>Current password</label>
+          <input id="settings-delete-password" type="password" autoComplete="current-password" required disabled={isDeleting} value={password} onChange={(e) => setPassword(e.target.value)} className={inputClass} />
+        </div>
+        <CodeField id="settings-delete-code" user={user} value={code} onChange={setCode} disabled={isDeleting} />
+        {isDeleting && progress && (
+          <div>
+            <div className="h-2 w-full rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+              <div className="h-full bg-red-600 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">Deleted {progress.done} of {progress.total} items...</p>
+          </div>
+        )}
+        <Feedback message={null} error={error} />
+        <div className="flex justify-end">
+          <button type="submit" disabled={isDeleting} className="py-2 px-4 text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50">
+            {isDeleting ? 'Deleting...' : 'Delete my account'}
+          </button>
+        </div>
+      </form>
+    </Section>
+  );
+};
+
+const AUTO_LOCK_CHOICES = [1, 5, 15, 30, 60];
+
+const AutoLockSection: React.FC<{ user: AuthUser }> = ({ user }) => {
+  const settings = useUserSettings(user.uid);
+  const autoLockMinutes = settings ? settings.autoLockMinutes : DEFAULT_SETTINGS.autoLockMinutes;
+  const pinIsSet = useSyncExternalStore(subscribeToLock, () => hasLockPin(user.uid));
+  const [pin, setPin] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleMinutesChange = async (minutes: number | null) => {
+    try {
+      await updateSettings(user.uid, { autoLockMinutes: minutes });
+    } catch (err) {
+      console.error("Error saving settings:", err);
+      alert("Failed to save the auto-lock time.");
+    }
+  };
+
+  const handleSetPin = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setMessage(null);
+    if (!/^\d+$/.test(pin) || pin.length < MIN_PIN_LENGTH) {
+      setError(`PINs must be at least ${MIN_PIN_LENGTH} digits.`);
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      await setLockPin(user.uid, pin);
+      setPin('');
+      setMessage("PIN saved on this device.");
+    } catch (err) {
+      console.error(err);
+      setError("Failed to save the PIN.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemovePin = () => {
+    if (!window.confirm("Remove the PIN? Unlocking will need your account password.")) return;
+    removeLockPin(user.uid);
+    setMessage(null);
+  };
+
+  return (
+    <Section title="Locker lock" description="Hide your locker behind a lock screen when you step away, without signing out. Uploads keep running while it is locked.">
+      <div className="space-y-4">
+        <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+          <span>Lock after</span>
+          <select
+            value={autoLockMinutes ?? ''}
+            onChange={(e) => handleMinutesChange(e.target.value === '' ? null : Number(e.target.value))}
+            className="rounded-md border border-gray-300 dark:border-gray-600 px-2 py-1 text-gray-900 dark:text-white dark:bg-gray-700 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            {[...new Set([...AUTO_LOCK_CHOICES, ...(autoLockMinutes !== null ? [autoLockMinutes] : [])])].sort((a, b) => a - b).map(minutes => (
+              <option key={minutes} value={minutes}>{minutes} minute{minutes !== 1 ? 's' : ''} idle</option>
+            ))}
+            <option value="">Only when I lock it</option>
+          </select>
+        </label>
+        <form className="space-y-2" onSubmit={handleSetPin}>
+          <label htmlFor="settings-lock-pin" className={labelClass}>{pinIsSet ? 'Change unlock PIN' : 'Unlock PIN'}</label>
+          <div className="flex items-center space-x-2">
+            <input id="settings-lock-pin" type="password" inputMode="numeric" autoComplete="off" placeholder={`${MIN_PIN_LENGTH} or more digits`} value={pin} onChange={(e) => setPin(e.target.value)} className={inputClass} />
+            <button type="submit" disabled={isSaving || !pin} className={primaryButtonClass}>{isSaving ? 'Saving...' : 'Save'}</button>
+            {pinIsSet && <button type="button" onClick={handleRemovePin} className={secondaryButtonClass}>Remove</button>}
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            The PIN is kept on this device only. Without one, unlocking needs your account password. {MAX_UNLOCK_ATTEMPTS} wrong attempts sign you out.
+          </p>
+          <Feedback message={message} error={error} />
+        </form>
+      </div>
+    </Section>
+  );
+};
+
+const FileCategoriesSection: React.FC<{ user: AuthUser }> = ({ user }) => {
+  const settings = useUserSettings(user.uid);
+  const typeRules = settings?.typeRules ?? DEFAULT_SETTINGS.typeRules;
+  const [extension, setExtension] = useState('');
+  const [type, setType] = useState<FileType>(FileType.Document);
+
+  // The whole list is written each time: merging would keep rules that were removed.
+  const saveRules = async (rules: typeof typeRules) => {
+    try {
+      await updateSettings(user.uid, { typeRules: rules });
+    } catch (err) {
+      console.error("Error saving settings:", err);
+      alert("Failed to save your category rules.");
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const normalized = normalizeExtension(extension);
+    if (!normalized) return;
+    await saveRules([...typeRules.filter(rule => rule.extension !== normalized), { extension: normalized, type }]);
+    setExtension('');
+  };
+
+  return (
+    <Section title="File categories" description="Files are sorted by their contents first and their extension second. Pick a category for an extension here to override both. Rules apply to new uploads and to Reclassify all in your locker.">
+      <div className="space-y-4">
+        {typeRules.length > 0 && (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {typeRules.map(rule => (
+              <li key={rule.extension} className="flex items-center justify-between py-2 text-sm text-gray-700 dark:text-gray-300">
+                <span><span className="font-mono">.{rule.extension}</span> files go to {rule.type}</span>
+                <button onClick={() => saveRules(typeRules.filter(other => other !== rule))} className="text-sm font-semibold text-red-600 dark:text-red-400 hover:underline">Remove</button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <form className="flex items-center space-x-2" onSubmit={handleAdd}>
+          <input type="text" placeholder="Extension, e.g. heic" aria-label="Extension" value={extension} onChange={(e) => setExtension(e.target.value)} className={inputClass} />
+          <select value={type} onChange={(e) => setType(e.target.value as FileType)} aria-label="Category" className={inputClass}>
+            {Object.values(FileType).map(category => <option key={category} value={category}>{category}</option>)}
+          </select>
+          <button type="submit" disabled={!normalizeExtension(extension)} className={primaryButtonClass}>Add</button>
+        </form>
+      </div>
+    </Section>
+  );
+};
+
+const SettingsPage: React.FC<SettingsPageProps> = ({ user }) => {
+  const [isTwoFactorOpen, setIsTwoFactorOpen] = useState(false);
+
+  return (
+    <main className="p-4 sm:p-6 lg:p-8">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="flex items-center space-x-3">
+          <button onClick={() => navigateTo({ name: 'folder', folderId: null })} title="Back to your locker" className="p-1.5 text-gray-500 hover:text-gray-800 dark:hover:text-gray-100 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors">
+            <ArrowLeftIcon className="w-5 h-5" />
+          </button>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Account settings</h1>
+        </div>
+        <ProfileSection user={user} />
+        <EmailSection user={user} />
+        <PasswordSection user={user} />
+        <Section title="Two-step verification" description="Ask for a code from an authenticator app each time you sign in.">
+          <button onClick={() => setIsTwoFactorOpen(true)} className={secondaryButtonClass}>Manage two-step verification</button>
+        </Section>
+        <AutoLockSection user={user} />
+        <FileCategoriesSection user={user} />
+        <DeleteAccountSection user={user} />
+      </div>
+      {isTwoFactorOpen && <TwoFactorSettingsDialog user={user} onClose={() => setIsTwoFactorOpen(false)} />}
+    </main>
+  );
+};
+
+export default SettingsPage;
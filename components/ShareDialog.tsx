@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { ManagedFile } from '../types';
+import { ShareOptions } from '../services/shares';
+import Modal from './Modal';
+
+interface ShareDialogProps {
+  file: ManagedFile;
+  onCreate: (file: ManagedFile, options: ShareOptions) => Promise<string>;
+  onClose: () => void;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const EXPIRY_CHOICES = [
+  { label: 'Never', value: 0 },
+  { label: '1 hour', value: DAY / 24 },
+  { label: '1 day', value: DAY },
+  { label: '7 days', value: 7 * DAY },
+  { label: '30 days', value: 30 * DAY },
+];
+
+const inputClass = "block w-full rounded-md border border-gray-300 dark:border-gray-600 px-3 py-2 text-gray-900 dark:text-white dark:bg-gray-700 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
+const labelClass = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+const ShareDialog: React.FC<ShareDialogProps> = ({ file, onCreate, onClose }) => {
+  const [expiresIn, setExpiresIn] = useState(7 * DAY);
+  const [maxDownloads, setMaxDownloads] = useState('');
+  const [password, setPassword] = useState('');
+  const [link, setLink] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleCreate = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    try {
+      const limit = maxDownloads === '' ? null : Math.max(1, Math.floor(Number(maxDownloads)));
+      setLink(await onCreate(file, {
+        expiresAt: expiresIn > 0 ? Date.now() + expiresIn : null,
+        maxDownloads: limit,
+        password: password || null,
+      }));
+    } catch (err) {
+      console.error(err);
+      setError("Failed to create the share link.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!link) return;
+    await navigator.clipboard.writeText(link);
+    setCopied(true);
+  };
+
+  return (
+    <Modal title={`Share ${file.name}`} onClose={onClose}>
+      {link ? (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Anyone with this link can download the file{password ? ' after entering the password' : ''}. You can revoke it at any time under "Shared by me".
+          </p>
+          <div className="flex items-center space-x-2">
+            <input readOnly value={link} onFocus={(e) => e.target.select()} className={inputClass} />
+            <button onClick={handleCopy} className="flex-shrink-0 rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500">
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <form className="space-y-4" onSubmit={handleCreate}>
+          {error && <p className="text-sm text-center text-red-500 dark:text-red-400">{error}</p>}
+          <div>
+            <label htmlFor="share-expiry" className={labelClass}>Link expires</label>
+            <select id="share-expiry" value={expiresIn} onChange={(e) => setExpiresIn(Number(e.target.value))} className={inputClass}>
+              {EXPIRY_CHOICES.map(choice => <option key={choice.label} value={choice.value}>{choice.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="share-max-downloads" className={labelClass}>Download limit (best effort)</label>
+            <input id="share-max-downloads" type="number" min="1" placeholder="Never" value={maxDownloads} onChange={(e) => setMaxDownloads(e.target.value)} className={inputClass} />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Not enforced. The share page counts its downloads and stops offering the file at this number, but anyone with the link can fetch the file without being counted. Use an expiry or revoke the link to cut off access.
+            </p>
+          </div>
+          <div>
+            <label htmlFor="share-password" className={labelClass}>Password</label>
+            <input id="share-password" type="password" autoComplete="new-password" placeholder="Optional" value={password} onChange={(e) => setPassword(e.target.value)} className={inputClass} />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Anyone with the link can try passwords on their own computer, with no limit on attempts. Use a long, random password and send it separately from the link.
+            </p>
+          </div>
+          <button type="submit" disabled={isLoading} className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-indigo-400 disabled:cursor-not-allowed">
+            {isLoading ? 'Creating link...' : 'Create link'}
+          </button>
+        </form>
+      )}
+    </Modal>
+  );
+};
+
+export default ShareDialog;
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { ShareRecord } from '../types';
+import { ShareLink, ShareUnavailableError, decryptShareName, downloadShare, isShareActive, loadShare, unlockShare } from '../services/shares';
+import { saveBlob } from '../services/files';
+import { formatBytes, formatDateTime } from '../utils/format';
+import { FileIcon } from './FileItem';
+import { ShieldIcon } from './icons';
+
+interface ShareViewerPageProps {
+  link: ShareLink;
+}
+
+const INVALID_LINK = "This link is invalid or incomplete.";
+
+const ShareViewerPage: React.FC<ShareViewerPageProps> = ({ link }) => {
+  const { shareId, key: linkKey, invalid } = link;
+  const [share, setShare] = useState<ShareRecord | null>(null);
+  const [key, setKey] = useState<CryptoKey | null>(null);
+  const [name, setName] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const isPasswordProtected = !!share?.encryption.wrappedKey;
+
+  const openWithKey = async (record: ShareRecord, shareKey: CryptoKey) => {
+    setName(await decryptShareName(record, shareKey));
+    setKey(shareKey);
+  };
+
+  useEffect(() => {
+    if (invalid) {
+      setError(INVALID_LINK);
+      setIsLoading(false);
+      return;
+    }
+    (async () => {
+      try {
+        const record = await loadShare(shareId);
+        setShare(record);
+        if (!record.encryption.wrappedKey) {
+          await openWithKey(record, await unlockShare(record, linkKey, null));
+        }
+      } catch (err) {
+        console.error(err);
+        setError(err instanceof ShareUnavailableError ? err.message : INVALID_LINK);
+      } finally {
+        setIsLoading(false);
+      }
+    })();
+  }, [shareId, linkKey, invalid]);
+
+  const handleUnlock = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!share) return;
+    setError(null);
+    try {
+      await openWithKey(share, await unlockShare(share, null, password));
+    } catch (err) {
+      console.error(err);
+      setError("Incorrect password.");
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!share || !key || !name) return;
+    setIsDownloading(true);
+    setError(null);
+    try {
+      saveBlob(await downloadShare(share, key), name);
+      setShare({ ...share, downloadCount: share.downloadCount + 1 });
+    } catch (err) {
+      console.error(err);
+      setError("The download failed. The link may have just expired or reached its download count.");
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-[#202124] p-4">
+      <div className="w-full max-w-md p-8 space-y-6 bg-white dark:bg-gray-800 rounded-lg shadow-lg">
+        <div className="text-center">
+          <ShieldIcon className="mx-auto w-12 h-12 text-indigo-500 dark:text-indigo-400" />
+          <h1 className="mt-2 text-2xl font-bold text-gray-900 dark:text-white">Shared with you</h1>
+          <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">Decrypted in your browser via Safe Locker</p>
+        </div>
+        {isLoading && <p className="text-center text-gray-600 dark:text-gray-400">Loading...</p>}
+        {error && <p className="text-sm text-center text-red-500 dark:text-red-400">{error}</p>}
+        {share && !key && isPasswordProtected && (
+          <form className="space-y-4" onSubmit={handleUnlock}>
+            <label htmlFor="share-viewer-password" className="sr-only">Password</label>
+            <input id="share-viewer-password" type="password" required autoFocus
+                   className="appearance-none rounded-md relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 placeholder-gray-500 text-gray-900 dark:text-white dark:bg-gray-700 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                   placeholder="Password" value={password} onChange={(e) => setPassword(e.target.value)} />
+            <button type="submit" className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700">
+              Unlock
+            </button>
+          </form>
+        )}
+        {share && key && name && (
+          <div className="space-y-4">
+            <div className="flex items-center p-3 bg-gray-100 dark:bg-gray-700 rounded-lg">
+              <FileIcon type={share.type} />
+              <div className="truncate">
+                <span className="font-medium text-gray-800 dark:text-gray-200 block truncate">{name}</span>
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  {formatBytes(share.size)}{share.expiresAt !== null ? ` · available until ${formatDateTime(share.expiresAt)}` : ''}
+                </span>
+              </div>
+            </div>
+            <button onClick={handleDownload} disabled={isDownloading || !isShareActive(share)} className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 disabled:cursor-not-allowed">
+              {isDownloading ? 'Downloading...' : 'Download'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShareViewerPage;
@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { ManagedFile, ShareRecord } from '../types';
+import { subscribeToRecords } from '../services/liveQuery';
+import { isShareActive, revokeShare } from '../services/shares';
+import { formatDateTime } from '../utils/format';
+import { FileIcon } from './FileItem';
+import { LinkIcon } from './icons';
+
+interface SharedByMeViewProps {
+  userId: string;
+  files: ManagedFile[];
+}
+
+const shareStatus = (share: ShareRecord) => {
+  if (share.revoked) return { label: 'Revoked', className: 'text-gray-500 dark:text-gray-400' };
+  if (share.expiresAt !== null && Date.now() >= share.expiresAt) return { label: 'Expired', className: 'text-gray-500 dark:text-gray-400' };
+  if (!isShareActive(share)) return { label: 'Download count reached', className: 'text-gray-500 dark:text-gray-400' };
+  return { label: 'Active', className: 'text-green-600 dark:text-green-400' };
+};
+
+const SharedByMeView: React.FC<SharedByMeViewProps> = ({ userId, files }) => {
+  const [shares, setShares] = useState<ShareRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    return subscribeToRecords(
+      'shares',
+      { field: 'ownerId', value: userId },
+      async doc => ({ ...(doc.data as Omit<ShareRecord, 'id'>), id: doc.id }),
+      userShares => {
+        userShares.sort((a, b) => b.createdAt - a.createdAt);
+        setShares(userShares);
+        setIsLoading(false);
+      },
+      error => {
+        console.error("Error fetching shares:", error);
+        alert("Could not fetch your shared links.");
+        setIsLoading(false);
+      }
+    );
+  }, [userId]);
+
+  const handleRevoke = async (share: ShareRecord) => {
+    if (!window.confirm("Revoke this link? Anyone who has it will lose access immediately.")) return;
+    try {
+      await revokeShare(share);
+    } catch (error) {
+      console.error("Error revoking share:", error);
+      alert("Failed to revoke the link.");
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-center text-gray-600 dark:text-gray-400 py-16">Loading your shared links...</p>;
+  }
+
+  if (shares.length === 0) {
+    return (
+      <div className="text-center py-16">
+        <LinkIcon className="mx-auto w-16 h-16 text-gray-400 dark:text-gray-500" />
+        <h3 className="mt-2 text-lg font-medium text-gray-900 dark:text-gray-200">No shared links</h3>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">Use the share button on a file to create one.</p>
+      </div>
+    );
+  }
+
+  const fileNames = new Map(files.map(file => [file.id, file.name]));
+
+  return (
+    <div className="space-y-2">
+      {shares.map(share => {
+        const status = shareStatus(share);
+        return (
+          <div key={share.id} className="flex items-center justify-between p-3 bg-white dark:bg-gray-800 rounded-lg shadow-sm">
+            <div className="flex items-center truncate min-w-0">
+              <FileIcon type={share.type} />
+              <div className="truncate">
+                <span className="font-medium text-gray-800 dark:text-gray-200 block truncate">{fileNames.get(share.fileId) ?? 'Deleted file'}</span>
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  <span className={status.className}>{status.label}</span>
+                  {' · '}{share.downloadCount}{share.maxDownloads !== null ? ` of ${share.maxDownloads}` : ''} download{share.downloadCount !== 1 ? 's' : ''}
+                  {' · '}{share.expiresAt !== null ? `expires ${formatDateTime(share.expiresAt)}` : 'never expires'}
+                  {share.encryption.wrappedKey ? ' · password protected' : ''}
+                </span>
+              </div>
+            </div>
+            {!share.revoked && (
+              <button onClick={() => handleRevoke(share)} className="flex-shrink-0 ml-2 rounded-md px-3 py-1.5 text-sm font-semibold text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors">
+                Revoke
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SharedByMeView;
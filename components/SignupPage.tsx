@@ -1,6 +1,5 @@
 import React, { useState } from 'react';
-import { createUserWithEmailAndPassword } from 'firebase/auth';
-import { auth } from '../firebase';
+import { backend } from '../services/backend';
 import type { Page } from '../App';
 
 interface SignupPageProps {
@@ -24,8 +23,9 @@ const SignupPage: React.FC<SignupPageProps> = ({ onNavigate }) => {
     setIsLoading(true);
     setError(null);
     try {
-      await createUserWithEmailAndPassword(auth, email, password);
-      // Auth state change will handle navigation
+      await backend.auth.signUp(email, password, name.trim());
+      // Auth state change will handle navigation, to the verification screen until the link is followed.
+      await backend.auth.sendEmailVerification();
     } catch (err: any) {
       setError("Failed to create an account. The email might already be in use.");
       console.error(err);
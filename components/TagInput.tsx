@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { normalizeTag } from '../services/tags';
+import { CloseIcon } from './icons';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: string[]; // Tags already used elsewhere in the locker
+  placeholder?: string;
+  className?: string;
+}
+
+let nextListId = 0;
+
+// Chips for the chosen tags followed by a text box that suggests the user's existing tags.
+const TagInput: React.FC<TagInputProps> = ({ tags, onChange, suggestions, placeholder = 'Add a tag', className = '' }) => {
+  const [draft, setDraft] = useState('');
+  const [listId] = useState(() => `tag-suggestions-${nextListId++}`);
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  // Picking a suggestion from the datalist fills the box without a key press, so add it straight away.
+  const handleChange = (value: string) => {
+    if (suggestions.includes(value) && !tags.includes(value)) {
+      addTag(value);
+    } else {
+      setDraft(value);
+    }
+  };
+
+  return (
+    <div className={`flex flex-wrap items-center gap-1 rounded-md border border-gray-300 dark:border-gray-600 px-2 py-1 dark:bg-gray-700 focus-within:ring-1 focus-within:ring-indigo-500 focus-within:border-indigo-500 ${className}`}>
+      {tags.map(tag => (
+        <span key={tag} className="flex items-center rounded-full bg-indigo-100 dark:bg-indigo-900/50 pl-2 pr-1 py-0.5 text-xs font-medium text-indigo-700 dark:text-indigo-300">
+          {tag}
+          <button type="button" onClick={() => onChange(tags.filter(other => other !== tag))} title={`Remove ${tag}`} className="ml-1 rounded-full hover:bg-indigo-200 dark:hover:bg-indigo-800">
+            <CloseIcon className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+      <input
+        type="text"
+        list={listId}
+        value={draft}
+        placeholder={tags.length === 0 ? placeholder : ''}
+        onChange={(e) => handleChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => draft && addTag(draft)}
+        className="flex-1 min-w-[6rem] border-0 bg-transparent p-1 text-gray-900 dark:text-white focus:outline-none focus:ring-0 sm:text-sm"
+      />
+      <datalist id={listId}>
+        {suggestions.filter(tag => !tags.includes(tag)).map(tag => <option key={tag} value={tag} />)}
+      </datalist>
+    </div>
+  );
+};
+
+export default TagInput;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { ManagedFile } from '../types';
+import { formatDateTime } from '../utils/format';
+import { FileIcon } from './FileItem';
+import { DeleteIcon, RetryIcon } from './icons';
+
+interface TrashViewProps {
+  files: ManagedFile[];
+  retentionDays: number;
+  onRestore: (file: ManagedFile) => void;
+  onDeleteForever: (file: ManagedFile) => void;
+  onEmptyTrash: () => void;
+  onRetentionChange: (days: number) => void;
+}
+
+const RETENTION_CHOICES = [7, 14, 30, 60, 90];
+const DAY = 24 * 60 * 60 * 1000;
+
+const TrashView: React.FC<TrashViewProps> = ({ files, retentionDays, onRestore, onDeleteForever, onEmptyTrash, onRetentionChange }) => {
+  const sorted = [...files].sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0));
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <label className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+          <span>Delete items forever after</span>
+          <select
+            value={retentionDays}
+            onChange={(e) => onRetentionChange(Number(e.target.value))}
+            className="rounded-md border border-gray-300 dark:border-gray-600 px-2 py-1 text-gray-900 dark:text-white dark:bg-gray-700 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            {[...new Set([...RETENTION_CHOICES, retentionDays])].sort((a, b) => a - b).map(days => (
+              <option key={days} value={days}>{days} days</option>
+            ))}
+          </select>
+        </label>
+        {files.length > 0 && (
+          <button onClick={onEmptyTrash} className="rounded-md px-3 py-1.5 text-sm font-semibold text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors">
+            Empty trash
+          </button>
+        )}
+      </div>
+
+      {sorted.length === 0 ? (
+        <div className="text-center py-16">
+          <DeleteIcon className="mx-auto w-16 h-16 text-gray-400 dark:text-gray-500" />
+          <h3 className="mt-2 text-lg font-medium text-gray-900 dark:text-gray-200">Trash is empty</h3>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">Deleted files stay here for {retentionDays} days before they are removed for good.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {sorted.map(file => {
+            const daysLeft = Math.max(0, Math.ceil(((file.deletedAt ?? 0) + retentionDays * DAY - Date.now()) / DAY));
+            return (
+              <div key={file.id} className="flex items-center justify-between p-3 bg-white dark:bg-gray-800 rounded-lg shadow-sm">
+                <div className="flex items-center truncate min-w-0">
+                  <FileIcon type={file.type} />
+                  <div className="truncate">
+                    <span className="font-medium text-gray-800 dark:text-gray-200 block truncate">{file.name}</span>
+                    <span className="text-sm text-gray-500 dark:text-gray-400">
+                      Deleted {formatDateTime(file.deletedAt ?? 0)} · gone in {daysLeft} day{daysLeft !== 1 ? 's' : ''}
+                    </span>
+                  </div>
+                </div>
+                <div className="flex-shrink-0 flex items-center space-x-2 pl-2">
+                  <button onClick={() => onRestore(file)} title="Restore" className="p-2 text-gray-500 hover:text-green-600 dark:hover:text-green-400 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors">
+                    <RetryIcon />
+                  </button>
+                  <button onClick={() => onDeleteForever(file)} title="Delete forever" className="p-2 text-gray-500 hover:text-red-600 dark:hover:text-red-400 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors">
+                    <DeleteIcon />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrashView;
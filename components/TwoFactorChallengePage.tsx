@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { InvalidCodeError, SecondFactorChallenge } from '../services/backend';
+import { ShieldIcon } from './icons';
+
+interface TwoFactorChallengePageProps {
+  challenge: SecondFactorChallenge;
+  onPassed: () => void;
+  /** Spends a recovery code instead, which turns the second factor off and finishes signing in. */
+  onRecover: (recoveryCode: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+// The second half of signing in, for accounts with an authenticator app enrolled.
+const TwoFactorChallengePage: React.FC<TwoFactorChallengePageProps> = ({ challenge, onPassed, onRecover, onCancel }) => {
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    try {
+      if (useRecoveryCode) {
+        await onRecover(code);
+      } else {
+        await challenge.resolve(code);
+        onPassed();
+      }
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof InvalidCodeError ? err.message : "Failed to check the code. Please try again.");
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen">
+      <div className="w-full max-w-md p-8 space-y-8 bg-white dark:bg-gray-800 rounded-lg shadow-lg">
+        <div className="text-center">
+          <ShieldIcon className="mx-auto w-12 h-12 text-indigo-500 dark:text-indigo-400" />
+          <h1 className="mt-2 text-3xl font-bold text-gray-900 dark:text-white">Two-Step Verification</h1>
+          <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+            {useRecoveryCode
+              ? "Enter one of the recovery codes you saved when you turned on two-step verification. It turns two-step verification off."
+              : "Enter the 6-digit code from your authenticator app."}
+          </p>
+        </div>
+        <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+          {error && <p className="text-sm text-center text-red-500 dark:text-red-400">{error}</p>}
+          <div>
+            <label htmlFor="second-factor-code" className="sr-only">{useRecoveryCode ? 'Recovery code' : 'Authentication code'}</label>
+            <input id="second-factor-code" name="second-factor-code" type="text" required autoFocus
+                   autoComplete="one-time-code" inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                   className="appearance-none relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 placeholder-gray-500 text-gray-900 dark:text-white dark:bg-gray-700 rounded-md text-center tracking-widest focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                   placeholder={useRecoveryCode ? 'XXXX-XXXX-XXXX-XXXX' : '123456'} value={code} onChange={(e) => setCode(e.target.value)} />
+          </div>
+          <div>
+            <button type="submit" disabled={isLoading} className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-indigo-400 disabled:cursor-not-allowed">
+              {isLoading ? 'Verifying...' : 'Verify'}
+            </button>
+          </div>
+        </form>
+        <div className="flex items-center justify-between text-sm">
+          <button onClick={() => { setUseRecoveryCode(!useRecoveryCode); setCode(''); setError(null); }} className="font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300">
+            {useRecoveryCode ? 'Use your authenticator app' : 'Use a recovery code'}
+          </button>
+          <button onClick={onCancel} className="font-medium text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200">
+            Back to sign in
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorChallengePage;
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { AuthUser, InvalidCodeError, TotpEnrolment } from '../services/backend';
+import { saveBlob } from '../services/files';
+import {
+  TWO_FACTOR_ISSUER, createRecoveryCodes, disableTwoFactor, enableTwoFactor, regenerateRecoveryCodes, startTwoFactorEnrolment,
+} from '../services/twoFactor';
+import Modal from './Modal';
+
+interface TwoFactorSettingsDialogProps {
+  user: AuthUser;
+  onClose: () => void;
+}
+
+const inputClass = "block w-full rounded-md border border-gray-300 dark:border-gray-600 px-3 py-2 text-gray-900 dark:text-white dark:bg-gray-700 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
+const primaryButtonClass = "flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-indigo-400 disabled:cursor-not-allowed";
+const secondaryButtonClass = "py-2 px-4 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50";
+
+// Groups of four are easier to type into an authenticator app by hand.
+const formatSecret = (secret: string) => secret.match(/.{1,4}/g)?.join(' ') ?? secret;
+
+const describeError = (err: any) => {
+  if (err instanceof InvalidCodeError) return err.message;
+  if (err?.code === 'auth/invalid-credential' || err?.code === 'auth/wrong-password') return "The password is incorrect.";
+  return "Something went wrong. Please try again.";
+};
+
+const TwoFactorSettingsDialog: React.FC<TwoFactorSettingsDialogProps> = ({ user, onClose }) => {
+  const [enrolment, setEnrolment] = useState<TotpEnrolment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Runs an action that needs the password or a valid code, reporting a wrong one without closing anything.
+  const withChecks = async (action: () => Promise<void>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await action();
+      setPassword('');
+      setCode('');
+    } catch (err) {
+      console.error(err);
+      setError(describeError(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleStart = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    withChecks(async () => setEnrolment(await startTwoFactorEnrolment(password)));
+  };
+
+  const handleEnable = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!enrolment) return;
+    withChecks(async () => {
+      await enableTwoFactor(user.uid, enrolment, code);
+      setEnrolment(null);
+      try {
+        setRecoveryCodes(await createRecoveryCodes());
+      } catch (err) {
+        console.error("Error creating recovery codes:", err);
+        setError("Two-step verification is on, but the recovery codes could not be made. Enter your password and a new code, then choose New recovery codes.");
+      }
+    });
+  };
+
+  const handleRegenerate = () => {
+    if (!password || !code) {
+      setError("Enter your password and a current code to make new recovery codes.");
+      return;
+    }
+    withChecks(async () => setRecoveryCodes(await regenerateRecoveryCodes(password, code)));
+  };
+
+  const handleDownloadCodes = () => {
+    if (!recoveryCodes) return;
+    const text = `${TWO_FACTOR_ISSUER} recovery codes for ${user.email}\nEach code turns two-step verification off once, for when your authenticator app is lost.\n\n${recoveryCodes.join('\n')}\n`;
+    saveBlob(new Blob([text], { type: 'text/plain' }), 'recovery-codes.txt');
+  };
+
+  const handleDisable = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!window.confirm("Turn off two-step verification? Signing in will only need your password.")) return;
+    withChecks(() => disableTwoFactor(user.uid, password, code));
+  };
+
+  const renderBody = () => {
+    if (recoveryCodes) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Save these recovery codes somewhere safe. If you lose your authenticator app, one of them turns two-step verification off so you can sign in with your password. They will not be shown again.
+          </p>
+          <ul className="grid grid-cols-2 gap-2 rounded-md bg-gray-100 dark:bg-gray-900 p-4 font-mono text-sm text-gray-900 dark:text-gray-100">
+            {recoveryCodes.map(recoveryCode => <li key={recoveryCode}>{recoveryCode}</li>)}
+          </ul>
+          <div className="flex justify-end space-x-2">
+            <button onClick={() => navigator.clipboard.writeText(recoveryCodes.join('\n'))} className={secondaryButtonClass}>Copy</button>
+            <button onClick={handleDownloadCodes} className={secondaryButtonClass}>Download</button>
+            <button onClick={() => setRecoveryCodes(null)} className={primaryButtonClass}>I've saved them</button>
+          </div>
+        </div>
+      );
+    }
+
+    if (enrolment) {
+      return (
+        <form className="space-y-4" onSubmit={handleEnable}>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Add this key to an authenticator app such as Google Authenticator, 1Password or Authy, then enter the code it shows.
+          </p>
+          <div className="rounded-md bg-gray-100 dark:bg-gray-900 p-3 text-center font-mono text-sm tracking-wider text-gray-900 dark:text-gray-100 select-all">
+            {formatSecret(enrolment.secret)}
+          </div>
+          <a href={enrolment.uri} className="block text-center text-sm font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400">
+            Open in authenticator app
+          </a>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Recovery codes for when you lose your authenticator app are shown next.
+          </p>
+          {error && <p className="text-sm text-center text-red-500 dark:text-red-400">{error}</p>}
+          <input type="text" inputMode="numeric" autoComplete="one-time-code" required placeholder="6-digit code" value={code} onChange={(e) => setCode(e.target.value)} className={inputClass} />
+          <div className="flex justify-end space-x-2">
+            <button type="button" onClick={() => { setEnrolment(null); setError(null); }} className={secondaryButtonClass}>Cancel</button>
+            <button type="submit" disabled={isLoading} className={primaryButtonClass}>{isLoading ? 'Checking...' : 'Turn on'}</button>
+          </div>
+        </form>
+      );
+    }
+
+    if (user.secondFactorSince === null) {
+      return (
+        <form className="space-y-4" onSubmit={handleStart}>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Two-step verification is off. Turn it on to ask for a code from your authenticator app each time you sign in.
+          </p>
+          {error && <p className="text-sm text-center text-red-500 dark:text-red-400">{error}</p>}
+          <input type="password" autoComplete="current-password" required placeholder="Current password" value={password} onChange={(e) => setPassword(e.target.value)} className={inputClass} />
+          <div className="flex justify-end">
+            <button type="submit" disabled={isLoading} className={primaryButtonClass}>
+              {isLoading ? 'Checking...' : 'Set up two-step verification'}
+            </button>
+          </div>
+        </form>
+      );
+    }
+
+    return (
+      <form className="space-y-4" onSubmit={handleDisable}>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Two-step verification has been on since {new Date(user.secondFactorSince).toLocaleDateString()}.
+        </p>
+        <p className="text-sm text-gray-600 dark:text-gray-400">Enter your password and a current code to turn it off or make new recovery codes, which replace the old ones.</p>
+        {error && <p className="text-sm text-center text-red-500 dark:text-red-400">{error}</p>}
+        <input type="password" autoComplete="current-password" required placeholder="Current password" value={password} onChange={(e) => setPassword(e.target.value)} className={inputClass} />
+        <input type="text" inputMode="numeric" autoComplete="one-time-code" required placeholder="6-digit code" value={code} onChange={(e) => setCode(e.target.value)} className={inputClass} />
+        <div className="flex justify-end space-x-2">
+          <button type="button" onClick={handleRegenerate} disabled={isLoading} className={secondaryButtonClass}>New recovery codes</button>
+          <button type="submit" disabled={isLoading} className="py-2 px-4 text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50">Turn off</button>
+        </div>
+      </form>
+    );
+  };
+
+  return (
+    <Modal title="Two-step verification" onClose={onClose}>
+      {renderBody()}
+    </Modal>
+  );
+};
+
+export default TwoFactorSettingsDialog;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { UploadEntry, UploadQueue } from '../services/uploadQueue';
+import { formatBytes, formatDuration } from '../utils/format';
+import { PauseIcon, PlayIcon, CloseIcon, RetryIcon, SpinnerIcon } from './icons';
+
+interface UploadQueuePanelProps {
+  queue: UploadQueue<unknown>;
+  entries: UploadEntry[];
+}
+
+const statusLabel = (entry: UploadEntry) => {
+  switch (entry.status) {
+    case 'queued': return 'Waiting...';
+    case 'preparing': return 'Encrypting...';
+    case 'paused': return `Paused at ${formatBytes(entry.bytesTransferred)}`;
+    case 'offline': return 'Waiting for a connection...';
+    case 'done': return 'Uploaded';
+    case 'canceled': return 'Canceled';
+    case 'error': return entry.error || 'Upload failed';
+    case 'running': {
+      const progress = `${formatBytes(entry.bytesTransferred)} of ${formatBytes(entry.totalBytes)}`;
+      if (entry.speed <= 0) return progress;
+      const eta = entry.eta !== null ? ` · ${formatDuration(entry.eta)} left` : '';
+      return `${progress} · ${formatBytes(entry.speed)}/s${eta}`;
+    }
+  }
+};
+
+const actionButtonClass = "p-1.5 text-gray-500 hover:text-gray-800 dark:hover:text-gray-100 rounded-full hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors";
+
+const UploadRow: React.FC<{ entry: UploadEntry; queue: UploadQueue<unknown> }> = ({ entry, queue }) => {
+  const percent = entry.totalBytes > 0 ? Math.round((entry.bytesTransferred / entry.totalBytes) * 100) : 0;
+  const barColor = entry.status === 'error' ? 'bg-red-500' : entry.status === 'done' ? 'bg-green-500' : 'bg-indigo-500';
+  return (
+    <div className="p-3 bg-gray-200 dark:bg-gray-700 rounded-lg">
+      <div className="flex items-center justify-between">
+        <div className="min-w-0">
+          <span className="font-medium text-gray-800 dark:text-gray-200 block truncate">{entry.name}</span>
+          <span className={`text-xs ${entry.status === 'error' ? 'text-red-500 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>{statusLabel(entry)}</span>
+        </div>
+        <div className="flex-shrink-0 flex items-center space-x-1 pl-2">
+          {entry.status === 'preparing' && <SpinnerIcon className="text-gray-500 dark:text-gray-400" />}
+          {(entry.status === 'running' || entry.status === 'queued' || entry.status === 'offline') && (
+            <button onClick={() => queue.pause(entry.id)} className={actionButtonClass} title="Pause"><PauseIcon /></button>
+          )}
+          {entry.status === 'paused' && (
+            <button onClick={() => queue.resume(entry.id)} className={actionButtonClass} title="Resume"><PlayIcon /></button>
+          )}
+          {(entry.status === 'error' || entry.status === 'canceled') && (
+            <button onClick={() => queue.retry(entry.id)} className={actionButtonClass} title="Retry"><RetryIcon /></button>
+          )}
+          {entry.status !== 'done' && entry.status !== 'canceled' && (
+            <button onClick={() => queue.cancel(entry.id)} className={actionButtonClass} title="Cancel"><CloseIcon /></button>
+          )}
+        </div>
+      </div>
+      <div className="mt-2 h-1.5 w-full bg-gray-300 dark:bg-gray-600 rounded-full overflow-hidden">
+        <div className={`h-full ${barColor} transition-all`} style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+};
+
+const UploadQueuePanel: React.FC<UploadQueuePanelProps> = ({ queue, entries }) => {
+  if (entries.length === 0) return null;
+  const hasFinished = entries.some(entry => entry.status === 'done' || entry.status === 'canceled');
+  const activeCount = entries.filter(entry => entry.status !== 'done' && entry.status !== 'canceled').length;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-30 w-full max-w-sm bg-white dark:bg-gray-800 rounded-xl shadow-lg">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="font-semibold text-gray-800 dark:text-gray-200">
+          {activeCount > 0 ? `Uploading ${activeCount} file${activeCount !== 1 ? 's' : ''}` : 'Uploads complete'}
+        </h2>
+        {hasFinished && (
+          <button onClick={() => queue.clearFinished()} className="text-sm font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300">
+            Clear finished
+          </button>
+        )}
+      </div>
+      <div className="p-3 space-y-2 max-h-80 overflow-y-auto">
+        {entries.map(entry => <UploadRow key={entry.id} entry={entry} queue={queue} />)}
+      </div>
+    </div>
+  );
+};
+
+export default UploadQueuePanel;
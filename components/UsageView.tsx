@@ -0,0 +1,128 @@
+import React, { useMemo } from 'react';
+import { FileType, ManagedFile } from '../types';
+import { getStorageUsage } from '../services/usage';
+import { formatBytes } from '../utils/format';
+import { FileIcon } from './FileItem';
+
+interface UsageViewProps {
+  // Every file the user owns, trashed ones included.
+  files: ManagedFile[];
+  usageWarningBytes: number | null;
+  onUsageWarningChange: (usageWarningBytes: number | null) => void;
+  versionRetentionDays: number | null;
+  onVersionRetentionChange: (days: number | null) => void;
+  onOpen: (file: ManagedFile) => void;
+}
+
+const GB = 1024 ** 3;
+const USAGE_WARNING_CHOICES = [1 * GB, 5 * GB, 10 * GB, 50 * GB, 100 * GB];
+const VERSION_RETENTION_CHOICES = [7, 30, 90, 180, 365];
+const VERSIONS_COLOR = 'bg-sky-500';
+
+const typeColors: Record<FileType, string> = {
+  [FileType.Photos]: 'bg-indigo-500',
+  [FileType.Videos]: 'bg-pink-500',
+  [FileType.Document]: 'bg-amber-500',
+  [FileType.Songs]: 'bg-emerald-500',
+  [FileType.Others]: 'bg-gray-400',
+};
+
+const UsageView: React.FC<UsageViewProps> = ({ files, usageWarningBytes, onUsageWarningChange, versionRetentionDays, onVersionRetentionChange, onOpen }) => {
+  const usage = useMemo(() => getStorageUsage(files), [files]);
+  // The bar is scaled to the usage warning, or to the total when there is none.
+  const scale = Math.max(usageWarningBytes ?? usage.totalBytes, 1);
+  const isPastWarning = usageWarningBytes !== null && usage.totalBytes > usageWarningBytes;
+
+  return (
+    <div className="space-y-8">
+      <section className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow-sm">
+        <div className="flex flex-wrap items-baseline justify-between gap-2 mb-3">
+          <p className="text-lg font-semibold text-gray-800 dark:text-gray-200">
+            {formatBytes(usage.totalBytes)} used
+          </p>
+          <label className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+            <span>Warn me at</span>
+            <select
+              value={usageWarningBytes ?? ''}
+              onChange={(e) => onUsageWarningChange(e.target.value === '' ? null : Number(e.target.value))}
+              className="rounded-md border border-gray-300 dark:border-gray-600 px-2 py-1 text-gray-900 dark:text-white dark:bg-gray-700 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="">Never</option>
+              {[...new Set([...USAGE_WARNING_CHOICES, ...(usageWarningBytes !== null ? [usageWarningBytes] : [])])].sort((a, b) => a - b).map(bytes => (
+                <option key={bytes} value={bytes}>{formatBytes(bytes)}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="flex h-3 w-full overflow-hidden rounded-full bg-gray-200 dark:bg-gray-700">
+          {Object.values(FileType).map(type => (
+            <div key={type} className={typeColors[type]} style={{ width: `${Math.min(100, (usage.byType[type].bytes / scale) * 100)}%` }} />
+          ))}
+          <div className={VERSIONS_COLOR} style={{ width: `${Math.min(100, (usage.versionBytes / scale) * 100)}%` }} />
+        </div>
+        {isPastWarning && (
+          <p className="mt-2 text-sm text-amber-600 dark:text-amber-400">You have passed the {formatBytes(usageWarningBytes!)} you asked to be warned at. Uploads ask before going ahead until you free up space.</p>
+        )}
+        <dl className="mt-4 grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4 text-sm">
+          {Object.values(FileType).map(type => (
+            <div key={type}>
+              <dt className="flex items-center text-gray-500 dark:text-gray-400">
+                <span className={`inline-block w-2.5 h-2.5 mr-2 rounded-full ${typeColors[type]}`} />{type}
+              </dt>
+              <dd className="text-gray-800 dark:text-gray-200">
+                {formatBytes(usage.byType[type].bytes)} · {usage.byType[type].count} file{usage.byType[type].count !== 1 ? 's' : ''}
+              </dd>
+            </div>
+          ))}
+          <div>
+            <dt className="flex items-center text-gray-500 dark:text-gray-400">
+              <span className={`inline-block w-2.5 h-2.5 mr-2 rounded-full ${VERSIONS_COLOR}`} />Old versions
+            </dt>
+            <dd className="text-gray-800 dark:text-gray-200">
+              {formatBytes(usage.versionBytes)} · {usage.versionCount} version{usage.versionCount !== 1 ? 's' : ''}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-500 dark:text-gray-400">In trash</dt>
+            <dd className="text-gray-800 dark:text-gray-200">{formatBytes(usage.trashBytes)}</dd>
+          </div>
+        </dl>
+        <label className="mt-4 flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+          <span>Keep old versions for</span>
+          <select
+            value={versionRetentionDays ?? ''}
+            onChange={(e) => onVersionRetentionChange(e.target.value === '' ? null : Number(e.target.value))}
+            className="rounded-md border border-gray-300 dark:border-gray-600 px-2 py-1 text-gray-900 dark:text-white dark:bg-gray-700 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            {[...new Set([...VERSION_RETENTION_CHOICES, ...(versionRetentionDays !== null ? [versionRetentionDays] : [])])].sort((a, b) => a - b).map(days => (
+              <option key={days} value={days}>{days} days</option>
+            ))}
+            <option value="">Forever</option>
+          </select>
+        </label>
+      </section>
+
+      <section>
+        <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200 mb-4">Largest files</h2>
+        {usage.largestFiles.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Your locker is empty.</p>
+        ) : (
+          <div className="space-y-2">
+            {usage.largestFiles.map(file => (
+              <div key={file.id} onClick={() => onOpen(file)} className="flex items-center justify-between p-3 bg-white dark:bg-gray-800 rounded-lg shadow-sm hover:shadow-md transition-shadow cursor-pointer">
+                <div className="flex items-center truncate min-w-0">
+                  <FileIcon type={file.type} />
+                  <span className="font-medium text-gray-800 dark:text-gray-200 truncate">{file.name}</span>
+                  {file.deletedAt && <span className="ml-2 flex-shrink-0 text-xs text-gray-500 dark:text-gray-400">(in trash)</span>}
+                </div>
+                <span className="flex-shrink-0 pl-2 text-sm text-gray-500 dark:text-gray-400">{formatBytes(file.size)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default UsageView;
@@ -0,0 +1,103 @@
+import React, { useState, useEffect } from 'react';
+import { AuthUser } from '../services/backend';
+import { VaultKey } from '../services/crypto';
+import { VaultRecord, WrongPassphraseError, createVault, loadVault, unlockVault } from '../services/vault';
+import { ShieldIcon } from './icons';
+
+interface VaultPageProps {
+  user: AuthUser;
+  onUnlock: (vaultKey: VaultKey) => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 10;
+
+const VaultPage: React.FC<VaultPageProps> = ({ user, onUnlock }) => {
+  const [record, setRecord] = useState<VaultRecord | null>(null);
+  const [isChecking, setIsChecking] = useState(true);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    loadVault(user.uid)
+      .then(setRecord)
+      .catch(err => {
+        console.error("Error loading vault:", err);
+        setError("Could not load your vault. Please try again later.");
+      })
+      .finally(() => setIsChecking(false));
+  }, [user.uid]);
+
+  const isSetup = !record;
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (isSetup) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Your passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long.`);
+        return;
+      }
+      if (passphrase !== confirmPassphrase) {
+        setError("Passphrases do not match.");
+        return;
+      }
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      const vaultKey = isSetup ? await createVault(user.uid, passphrase) : await unlockVault(record, passphrase);
+      onUnlock(vaultKey);
+    } catch (err: any) {
+      setError(err instanceof WrongPassphraseError ? err.message : "Failed to open your vault. Please try again.");
+      console.error(err);
+      setIsLoading(false);
+    }
+  };
+
+  if (isChecking) {
+    return <div className="flex items-center justify-center h-full"><p className="text-center text-gray-600 dark:text-gray-400">Opening your vault...</p></div>;
+  }
+
+  return (
+    <div className="flex items-center justify-center h-full p-4">
+      <div className="w-full max-w-md p-8 space-y-8 bg-white dark:bg-gray-800 rounded-lg shadow-lg">
+        <div className="text-center">
+          <ShieldIcon className="mx-auto w-12 h-12 text-indigo-500 dark:text-indigo-400" />
+          <h1 className="mt-2 text-3xl font-bold text-gray-900 dark:text-white">{isSetup ? 'Set a Vault Passphrase' : 'Unlock Your Vault'}</h1>
+          <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+            {isSetup
+              ? "Your files are encrypted in this browser before upload. The passphrase never leaves your device and cannot be recovered if you lose it."
+              : "Enter your vault passphrase to decrypt your files."}
+          </p>
+        </div>
+        <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+          {error && <p className="text-sm text-center text-red-500 dark:text-red-400">{error}</p>}
+          <div className="rounded-md shadow-sm -space-y-px">
+            <div>
+              <label htmlFor="vault-passphrase" className="sr-only">Vault passphrase</label>
+              <input id="vault-passphrase" name="vault-passphrase" type="password" autoComplete={isSetup ? 'new-password' : 'current-password'} required autoFocus
+                     className={`appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 placeholder-gray-500 text-gray-900 dark:text-white dark:bg-gray-700 rounded-t-md ${isSetup ? '' : 'rounded-b-md'} focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm`}
+                     placeholder="Vault passphrase" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} />
+            </div>
+            {isSetup && (
+              <div>
+                <label htmlFor="vault-passphrase-confirm" className="sr-only">Confirm passphrase</label>
+                <input id="vault-passphrase-confirm" name="vault-passphrase-confirm" type="password" autoComplete="new-password" required
+                       className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 placeholder-gray-500 text-gray-900 dark:text-white dark:bg-gray-700 rounded-b-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                       placeholder="Confirm passphrase" value={confirmPassphrase} onChange={(e) => setConfirmPassphrase(e.target.value)} />
+              </div>
+            )}
+          </div>
+          <div>
+            <button type="submit" disabled={isLoading} className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-indigo-400 disabled:cursor-not-allowed">
+              {isLoading ? 'Deriving key...' : isSetup ? 'Create vault' : 'Unlock'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default VaultPage;
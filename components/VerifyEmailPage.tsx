@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { AuthUser, backend } from '../services/backend';
+
+interface VerifyEmailPageProps {
+  user: AuthUser;
+}
+
+// Shown to signed-in users whose address is unconfirmed; the security rules refuse them all data until then.
+const VerifyEmailPage: React.FC<VerifyEmailPageProps> = ({ user }) => {
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleResend = async () => {
+    setIsSending(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await backend.auth.sendEmailVerification();
+      setMessage(`Verification email sent to ${user.email}.`);
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.code === 'auth/too-many-requests'
+        ? "Too many emails sent. Please wait a few minutes before trying again."
+        : "Failed to send the verification email.");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    setError(null);
+    setMessage(null);
+    try {
+      // A verified user reaches App through the auth listener; this page only hears about failure.
+      const refreshed = await backend.auth.reloadUser();
+      if (!refreshed?.emailVerified) {
+        setError("Your email is not verified yet. Follow the link in the email, then try again.");
+      }
+    } catch (err) {
+      console.error(err);
+      setError("Could not check your verification status. Please try again.");
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen">
+      <div className="w-full max-w-md p-8 space-y-6 bg-white dark:bg-gray-800 rounded-lg shadow-lg">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Verify Your Email</h1>
+          <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+            We sent a verification link to <span className="font-medium">{user.email}</span>. Confirm your address to open your locker.
+          </p>
+        </div>
+        {message && <p className="text-sm text-center text-green-600 dark:text-green-400">{message}</p>}
+        {error && <p className="text-sm text-center text-red-500 dark:text-red-400">{error}</p>}
+        <button onClick={handleCheck} disabled={isChecking} className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-indigo-400 disabled:cursor-not-allowed">
+          {isChecking ? 'Checking...' : "I've verified my email"}
+        </button>
+        <div className="flex items-center justify-between text-sm">
+          <button onClick={handleResend} disabled={isSending} className="font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300 disabled:opacity-50">
+            {isSending ? 'Sending...' : 'Resend verification email'}
+          </button>
+          <button onClick={() => backend.auth.signOut()} className="font-medium text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200">
+            Sign out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmailPage;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { FileVersion, ManagedFile } from '../types';
+import { formatBytes, formatDateTime } from '../utils/format';
+import Modal from './Modal';
+
+interface VersionHistoryDialogProps {
+  file: ManagedFile;
+  // Days an old version is kept after being replaced; null keeps them all.
+  retentionDays: number | null;
+  onPreview: (version: FileVersion) => void;
+  onDownload: (version: FileVersion) => void;
+  onRestore: (version: FileVersion) => void;
+  onDelete: (version: FileVersion) => void;
+  onClose: () => void;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const linkButtonClass = "px-2 py-1 text-sm font-medium rounded-md text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20";
+
+const VersionHistoryDialog: React.FC<VersionHistoryDialogProps> = ({ file, retentionDays, onPreview, onDownload, onRestore, onDelete, onClose }) => {
+  const versions = file.versions ?? [];
+
+  return (
+    <Modal title={`Versions of ${file.name}`} onClose={onClose} size="lg">
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+        <li className="flex items-center justify-between py-3">
+          <div>
+            <p className="font-medium text-gray-800 dark:text-gray-200">Current version</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {file.createdAt ? formatDateTime(file.createdAt) : 'Unknown date'} · {formatBytes(file.size)}
+            </p>
+          </div>
+        </li>
+        {versions.map(version => {
+          const daysLeft = retentionDays === null ? null : Math.max(0, Math.ceil((version.replacedAt + retentionDays * DAY - Date.now()) / DAY));
+          return (
+            <li key={version.storagePath} className="flex flex-wrap items-center justify-between gap-2 py-3">
+              <div>
+                <p className="font-medium text-gray-800 dark:text-gray-200">{formatDateTime(version.uploadedAt)}</p>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {formatBytes(version.size)}{daysLeft !== null && ` · deleted in ${daysLeft} day${daysLeft !== 1 ? 's' : ''}`}
+                </p>
+              </div>
+              <div className="flex items-center space-x-1">
+                <button onClick={() => onPreview(version)} className={linkButtonClass}>Preview</button>
+                <button onClick={() => onDownload(version)} className={linkButtonClass}>Download</button>
+                <button onClick={() => onRestore(version)} className={linkButtonClass}>Restore</button>
+                <button onClick={() => onDelete(version)} className="px-2 py-1 text-sm font-medium rounded-md text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20">Delete</button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      {versions.length === 0 && (
+        <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">No earlier versions. Upload a file with the same name into the same folder to save one.</p>
+      )}
+    </Modal>
+  );
+};
+
+export default VersionHistoryDialog;
@@ -1,7 +1,10 @@
 import { initializeApp } from "firebase/app";
-import { getAuth } from "firebase/auth";
-import { getFirestore } from "firebase/firestore";
-import { getStorage } from "firebase/storage";
+import { connectAuthEmulator, getAuth } from "firebase/auth";
+import {
+  connectFirestoreEmulator, initializeFirestore, persistentLocalCache, persistentMultipleTabManager,
+} from "firebase/firestore";
+import { connectFunctionsEmulator, getFunctions } from "firebase/functions";
+import { connectStorageEmulator, getStorage } from "firebase/storage";
 
 // IMPORTANT: This configuration is for a demo project.
 // Replace it with your own Firebase project's configuration.
@@ -19,7 +22,21 @@ const app = initializeApp(firebaseConfig);
 
 // Get Firebase services
 const auth = getAuth(app);
-const db = getFirestore(app);
+// The persistent cache keeps the last synced listings in IndexedDB, so the locker can be browsed
+// offline and writes made meanwhile are sent once the connection returns.
+const db = initializeFirestore(app, {
+  localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+});
 const storage = getStorage(app);
+// Recovery codes for two-step verification; see functions/src/index.ts.
+const functions = getFunctions(app);
 
-export { auth, db, storage };
+// Ports match the emulators block in firebase.json.
+if (process.env.LOCKER_BACKEND === 'emulator') {
+  connectAuthEmulator(auth, "http://127.0.0.1:9099", { disableWarnings: true });
+  connectFirestoreEmulator(db, "127.0.0.1", 8080);
+  connectStorageEmulator(storage, "127.0.0.1", 9199);
+  connectFunctionsEmulator(functions, "127.0.0.1", 5001);
+}
+
+export { auth, db, functions, storage };
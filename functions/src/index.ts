@@ -0,0 +1,48 @@
+import { initializeApp } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
+import { HttpsError, onCall } from 'firebase-functions/https';
+import { RecoveryCodeRecord, generateRecoveryCodes, hashRecoveryCodes, matchesRecoveryCode } from './recoveryCodes';
+
+// Recovery codes for two-step verification. Only these functions touch recoveryCodes/{uid}: the
+// Admin SDK is not bound by firestore.rules, which let clients do no more than delete it.
+initializeApp();
+
+const recoveryCodesRef = (uid: string) => getFirestore().doc(`recoveryCodes/${uid}`);
+
+/** Replaces the caller's recovery codes and returns the new ones; only their hashes are kept. */
+export const createRecoveryCodes = onCall(async request => {
+  // Set by Firebase Auth when the session entered a code from the authenticator app.
+  if (!request.auth?.token.firebase.sign_in_second_factor) {
+    throw new HttpsError('permission-denied', 'Sign in with your authenticator app first.');
+  }
+  const codes = generateRecoveryCodes();
+  await recoveryCodesRef(request.auth.uid).set(hashRecoveryCodes(codes));
+  return { codes };
+});
+
+/**
+ * Spends a recovery code to take the second factor off the account, for a user who lost their
+ * authenticator app. All of the account's codes go with it, as does the marker that makes the
+ * security rules ask for the factor. Signing in afterwards still takes the password.
+ */
+export const redeemRecoveryCode = onCall<{ email?: unknown; code?: unknown }>(async request => {
+  const { email, code } = request.data ?? {};
+  if (typeof email !== 'string' || typeof code !== 'string') {
+    throw new HttpsError('invalid-argument', 'An email address and a recovery code are needed.');
+  }
+  // The same answer whether the account, its factor or the code is missing, so nothing is revealed.
+  const rejected = new HttpsError('permission-denied', 'That recovery code is not valid.');
+  const user = await getAuth().getUserByEmail(email).catch(() => null);
+  if (!user?.multiFactor?.enrolledFactors.length) throw rejected;
+
+  const db = getFirestore();
+  // Spent in a transaction, so two requests racing with the same code cannot both get through.
+  await db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(recoveryCodesRef(user.uid));
+    if (!snapshot.exists || !matchesRecoveryCode(snapshot.data() as RecoveryCodeRecord, code)) throw rejected;
+    transaction.delete(snapshot.ref);
+  });
+  await getAuth().updateUser(user.uid, { multiFactor: { enrolledFactors: null } });
+  await db.doc(`twoFactor/${user.uid}`).delete();
+});
@@ -0,0 +1,50 @@
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+
+// One-time codes that stand in for the authenticator app when it is lost. Each holds 80 random
+// bits, so guessing one is hopeless even with the stored hashes in hand; the salt keeps the same
+// code from hashing alike in two accounts.
+
+export const RECOVERY_CODE_COUNT = 10;
+const CODE_BYTES = 10;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// Stored at recoveryCodes/{uid}, which no client may read.
+export interface RecoveryCodeRecord {
+  salt: string; // base64
+  hashes: string[]; // base64 SHA-256 of salt and code
+  createdAt: number;
+}
+
+const toBase32 = (bytes: Uint8Array) => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  return output;
+};
+
+// Dashes, spaces and case are ignored, since codes get copied by hand.
+const normalize = (code: string) => code.toUpperCase().replace(/[^A-Z2-7]/g, '');
+
+const hash = (salt: string, code: string) => createHash('sha256').update(`${salt}:${normalize(code)}`).digest();
+
+/** Fresh codes, formatted XXXX-XXXX-XXXX-XXXX. */
+export const generateRecoveryCodes = (): string[] =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => toBase32(randomBytes(CODE_BYTES)).match(/.{4}/g)!.join('-'));
+
+export const hashRecoveryCodes = (codes: string[], now = Date.now()): RecoveryCodeRecord => {
+  const salt = randomBytes(16).toString('base64');
+  return { salt, hashes: codes.map(code => hash(salt, code).toString('base64')), createdAt: now };
+};
+
+export const matchesRecoveryCode = (record: RecoveryCodeRecord, code: string): boolean => {
+  const candidate = hash(record.salt, code);
+  return record.hashes.some(stored => timingSafeEqual(Buffer.from(stored, 'base64'), candidate));
+};
@@ -0,0 +1,26 @@
+import { useEffect, useRef } from 'react';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart', 'scroll'];
+
+/**
+ * Calls `onIdle` once nobody has touched the page for `timeoutMs`; null turns the timer off. Time
+ * spent in a background tab counts as idle too.
+ */
+export const useIdleTimer = (timeoutMs: number | null, onIdle: () => void) => {
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (timeoutMs === null) return;
+    let timer = window.setTimeout(() => onIdleRef.current(), timeoutMs);
+    const reset = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => onIdleRef.current(), timeoutMs);
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, reset, { passive: true, capture: true }));
+    return () => {
+      window.clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, reset, { capture: true }));
+    };
+  }, [timeoutMs]);
+};
@@ -0,0 +1,31 @@
+import React, { useState } from 'react';
+import { DraggedItem, getDraggedItem, isLockerItemDrag } from '../utils/dragItems';
+
+/**
+ * Makes an element accept locker items dragged from inside the app. Drags coming from the OS are
+ * ignored so they still reach the upload drop zone.
+ */
+export const useItemDropTarget = (onDropItem: (item: DraggedItem) => void) => {
+  const [isOver, setIsOver] = useState(false);
+
+  const dropTargetProps = {
+    onDragOver: (e: React.DragEvent) => {
+      if (!isLockerItemDrag(e)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer.dropEffect = 'move';
+      setIsOver(true);
+    },
+    onDragLeave: () => setIsOver(false),
+    onDrop: (e: React.DragEvent) => {
+      if (!isLockerItemDrag(e)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      setIsOver(false);
+      const item = getDraggedItem(e);
+      if (item) onDropItem(item);
+    },
+  };
+
+  return { isOver, dropTargetProps };
+};
@@ -0,0 +1,11 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { getLocationPath, parseRoute, subscribeToLocation } from '../services/routes';
+
+/** The current route, re-rendering on navigation and on the browser's back and forward buttons. */
+export const useRoute = () => {
+  const path = useSyncExternalStore(subscribeToLocation, getLocationPath);
+  return useMemo(() => {
+    const url = new URL(path, window.location.origin);
+    return { path, route: parseRoute(url.pathname, url.search) };
+  }, [path]);
+};
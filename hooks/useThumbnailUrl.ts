@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import { ManagedFile } from '../types';
+import { VaultKey } from '../services/crypto';
+import { loadThumbnailUrl } from '../services/thumbnails';
+
+/** Decrypted thumbnail URL for a file; null while it loads, or when the file has none. */
+export const useThumbnailUrl = (vaultKey: VaultKey, file: ManagedFile) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const thumbnail = file.thumbnail;
+
+  useEffect(() => {
+    setUrl(null);
+    if (!thumbnail) return;
+    let canceled = false;
+    loadThumbnailUrl(vaultKey, thumbnail)
+      .then(objectUrl => { if (!canceled) setUrl(objectUrl); })
+      .catch(error => console.warn("Could not load thumbnail:", error));
+    return () => { canceled = true; };
+  }, [vaultKey, thumbnail?.storagePath, thumbnail?.iv]);
+
+  return url;
+};
@@ -0,0 +1,22 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { PrepareUpload, UploadQueue } from '../services/uploadQueue';
+import { useOnlineStatus } from './useOnlineStatus';
+
+/**
+ * Owns an UploadQueue for the lifetime of the calling component and re-renders on every
+ * progress change. `prepare` may change between renders; the queue always calls the latest one.
+ * Uploads wait while the browser is offline and resume when it reconnects.
+ */
+export const useUploadQueue = <C>(prepare: PrepareUpload<C>, concurrency?: number) => {
+  const prepareRef = useRef(prepare);
+  prepareRef.current = prepare;
+
+  const [queue] = useState(() => new UploadQueue<C>((file, context) => prepareRef.current(file, context), concurrency));
+  useEffect(() => () => queue.cancelAll(), [queue]);
+
+  const online = useOnlineStatus();
+  useEffect(() => queue.setOnline(online), [queue, online]);
+
+  const entries = useSyncExternalStore(queue.subscribe, queue.getSnapshot);
+  return { queue, entries };
+};
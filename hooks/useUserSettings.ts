@@ -0,0 +1,9 @@
+import { useEffect, useState } from 'react';
+import { UserSettings, subscribeToSettings } from '../services/settings';
+
+/** Live view of the user's settings; null until the first snapshot arrives. */
+export const useUserSettings = (userId: string) => {
+  const [settings, setSettings] = useState<UserSettings | null>(null);
+  useEffect(() => subscribeToSettings(userId, setSettings), [userId]);
+  return settings;
+};
@@ -0,0 +1,80 @@
+// Keeps the app shell and the scripts it loads from CDNs available offline. File data is not
+// handled here: Firestore's persistent cache holds the listings and services/offlineCache.ts the
+// encrypted contents of previewed files.
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `safe-locker-shell-${CACHE_VERSION}`;
+const RUNTIME_CACHE = `safe-locker-runtime-${CACHE_VERSION}`;
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+// Hosts index.html and its import map load scripts from.
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'aistudiocdn.com', 'www.gstatic.com'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== SHELL_CACHE && key !== RUNTIME_CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Opaque cross-origin responses report status 0 but still work from the cache.
+const isCacheable = response => response.ok || response.type === 'opaque';
+
+const networkFirst = async (request, fallbackUrl) => {
+  try {
+    const response = await fetch(request);
+    if (isCacheable(response)) (await caches.open(RUNTIME_CACHE)).put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = (await caches.match(request)) || (fallbackUrl && (await caches.match(fallbackUrl)));
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const cacheFirst = async request => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (isCacheable(response)) (await caches.open(RUNTIME_CACHE)).put(request, response.clone());
+  return response;
+};
+
+// Serves the cached copy at once and refreshes it in the background, so CDN updates arrive a load later.
+const staleWhileRevalidate = async (request, event) => {
+  const cached = await caches.match(request);
+  const refreshed = fetch(request).then(async response => {
+    if (isCacheable(response)) await (await caches.open(RUNTIME_CACHE)).put(request, response.clone());
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(refreshed.catch(() => undefined));
+    return cached;
+  }
+  return refreshed;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    // Every route is the single-page app, so an offline navigation gets the cached shell.
+    event.respondWith(networkFirst(request, '/index.html'));
+  } else if (url.origin === self.location.origin) {
+    // Built assets have hashed names and never change; anything else may, e.g. under the dev server.
+    event.respondWith(url.pathname.startsWith('/assets/') ? cacheFirst(request) : networkFirst(request));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request, event));
+  }
+});
@@ -0,0 +1,94 @@
+import { AuthUser, backend } from './backend';
+import { FileType } from '../types';
+import { deleteObjectIfExists, deleteVersionObjects } from './files';
+import { generateThumbnail } from './thumbnails';
+import { clearOfflineCache } from './offlineCache';
+import { recordActivity } from './activity';
+import { removeLockPin } from './lock';
+
+export interface DeletionProgress {
+  done: number;
+  total: number;
+}
+
+// Documents stored under the user's uid rather than found by an owner field.
+const USER_DOCUMENTS = ['settings', 'twoFactor', 'vaults'];
+
+// Avatars are shown before the vault is unlocked, so unlike files they are stored unencrypted.
+const avatarPath = (uid: string) => `avatars/${uid}`;
+
+/** Shrinks an image to a small JPEG, stores it and makes it the user's avatar. */
+export const uploadAvatar = async (user: AuthUser, image: File) => {
+  const resized = await generateThumbnail(image, FileType.Photos);
+  if (!resized) throw new Error('Could not read that image.');
+  await backend.blobs.upload(avatarPath(user.uid), resized, 'image/jpeg');
+  const url = await backend.blobs.getDownloadUrl(avatarPath(user.uid));
+  // An overwritten object can keep its download URL; a version parameter stops browsers showing the old
+  // picture from cache. Object URLs from the local backends are new for every upload and take no query.
+  await backend.auth.updateProfile({ photoUrl: url.startsWith('blob:') ? url : `${url}${url.includes('?') ? '&' : '?'}v=${Date.now()}` });
+};
+
+export const removeAvatar = async (user: AuthUser) => {
+  await deleteObjectIfExists(avatarPath(user.uid));
+  await backend.auth.updateProfile({ photoUrl: null });
+};
+
+// Each change below checks the password again first, along with a current code from the user's
+// authenticator app while two-step verification is on.
+
+/** Checks the password, then asks for a confirmation link to be sent to the new address. */
+export const changeEmail = async (password: string, newEmail: string, code?: string) => {
+  await backend.auth.reauthenticate(password, code);
+  await backend.auth.changeEmail(newEmail);
+};
+
+export const changePassword = async (user: AuthUser, currentPassword: string, newPassword: string, code?: string) => {
+  await backend.auth.reauthenticate(currentPassword, code);
+  await backend.auth.changePassword(newPassword);
+  await recordActivity(user.uid, 'password-change');
+};
+
+/**
+ * Deletes everything the user stored, one item at a time so progress can be shown, and then the
+ * account itself. The password is checked first so a typo cannot leave a half-deleted account.
+ */
+export const deleteAccount = async (user: AuthUser, password: string, code: string | undefined, onProgress: (progress: DeletionProgress) => void) => {
+  await backend.auth.reauthenticate(password, code);
+
+  const [files, folders, shares, activity] = await Promise.all([
+    backend.db.list('files', { field: 'userId', value: user.uid }),
+    backend.db.list('folders', { field: 'userId', value: user.uid }),
+    backend.db.list('shares', { field: 'ownerId', value: user.uid }),
+    backend.db.list('activity', { field: 'userId', value: user.uid }),
+  ]);
+
+  const steps: (() => Promise<void>)[] = [
+    ...files.map(({ id, data }) => async () => {
+      await deleteObjectIfExists(data.storagePath);
+      if (data.thumbnail) await deleteObjectIfExists(data.thumbnail.storagePath);
+      for (const version of data.versions ?? []) await deleteVersionObjects(version);
+      await backend.db.remove('files', id);
+    }),
+    ...shares.map(({ id, data }) => async () => {
+      await deleteObjectIfExists(data.storagePath);
+      await backend.db.remove('shares', id);
+    }),
+    ...folders.map(({ id }) => () => backend.db.remove('folders', id)),
+    () => deleteObjectIfExists(avatarPath(user.uid)),
+    // The rules only let the vault go once it is retired, and a retired vault cannot be recreated.
+    () => backend.db.set('retiredVaults', user.uid, { retiredAt: Date.now() }),
+    ...USER_DOCUMENTS.map(collection => () => backend.db.remove(collection, user.uid)),
+    // The rules only let the log go once the vault is gone.
+    ...activity.map(({ id }) => () => backend.db.remove('activity', id)),
+  ];
+
+  onProgress({ done: 0, total: steps.length });
+  for (const [index, step] of steps.entries()) {
+    await step();
+    onProgress({ done: index + 1, total: steps.length });
+  }
+
+  await backend.auth.deleteAccount();
+  await clearOfflineCache();
+  removeLockPin(user.uid);
+};
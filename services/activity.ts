@@ -0,0 +1,236 @@
+import { NameEncryptionInfo } from '../types';
+import { StoredDoc, backend } from './backend';
+import { VaultKey, decryptName, encryptName } from './crypto';
+
+// Append-only record of what happened in a locker, stored at activity/{id}. File names are
+// encrypted like everywhere else; the event type, time and device are not, so the log can be
+// written before the vault is unlocked.
+
+export type ActivityType =
+  | 'sign-in'
+  | 'sign-in-failed'
+  | 'sign-out'
+  | 'password-reset'
+  | 'password-change'
+  | 'unlock-failed'
+  | 'upload'
+  | 'download'
+  | 'trash'
+  | 'restore'
+  | 'delete';
+
+export const activityLabels: Record<ActivityType, string> = {
+  'sign-in': 'Signed in',
+  'sign-in-failed': 'Failed sign-in',
+  'sign-out': 'Signed out',
+  'password-reset': 'Password reset requested',
+  'password-change': 'Password changed',
+  'unlock-failed': 'Failed unlock',
+  upload: 'Uploaded',
+  download: 'Downloaded',
+  trash: 'Moved to trash',
+  restore: 'Restored from trash',
+  delete: 'Deleted forever',
+};
+
+export interface ActivityEvent {
+  id: string;
+  userId: string;
+  type: ActivityType;
+  at: number; // Epoch milliseconds, on the device that did it
+  deviceId: string;
+  deviceLabel: string; // e.g. "Firefox on Windows"
+  fileName?: string; // Decrypted in memory from `subject`
+  count?: number; // For events covering several files, e.g. a ZIP download
+  subject?: string; // base64 ciphertext of the file name
+  subjectEncryption?: NameEncryptionInfo;
+}
+
+export interface ActivityDetails {
+  vaultKey?: VaultKey; // Needed to record a file name
+  fileName?: string;
+  count?: number;
+  at?: number;
+}
+
+const DEVICE_ID_STORAGE_KEY = 'safe-locker:device-id';
+const PENDING_STORAGE_KEY = 'safe-locker:pending-activity';
+
+/** A random id for this browser, kept across sessions so sign-ins from a new device stand out. */
+const getDeviceId = () => {
+  let deviceId = localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_STORAGE_KEY, deviceId);
+  }
+  return deviceId;
+};
+
+// Order matters: Edge and Opera also claim to be Chrome, and Chrome claims to be Safari.
+const describeDevice = (userAgent = navigator.userAgent) => {
+  const browser = [['Edg/', 'Edge'], ['OPR/', 'Opera'], ['Firefox/', 'Firefox'], ['Chrome/', 'Chrome'], ['Safari/', 'Safari']]
+    .find(([marker]) => userAgent.includes(marker))?.[1] ?? 'Unknown browser';
+  const system = [['iPhone', 'iOS'], ['iPad', 'iOS'], ['Android', 'Android'], ['Windows', 'Windows'], ['Mac OS', 'macOS'], ['Linux', 'Linux']]
+    .find(([marker]) => userAgent.includes(marker))?.[1] ?? 'unknown system';
+  return `${browser} on ${system}`;
+};
+
+/**
+ * Appends an event to the user's log. Logging never gets in the way of what is being logged, so
+ * failures are only reported to the console.
+ */
+export const recordActivity = async (userId: string, type: ActivityType, details: ActivityDetails = {}) => {
+  const { vaultKey, fileName, count, at = Date.now() } = details;
+  try {
+    const subject = vaultKey && fileName ? await encryptName(vaultKey, fileName) : null;
+    await backend.db.add('activity', {
+      userId,
+      type,
+      at,
+      deviceId: getDeviceId(),
+      deviceLabel: describeDevice(),
+      ...(count !== undefined && { count }),
+      ...(subject && { subject: subject.encryptedName, subjectEncryption: subject.encryption }),
+    });
+  } catch (error) {
+    console.warn("Could not record activity:", error);
+  }
+};
+
+interface PendingActivity {
+  email: string;
+  type: ActivityType;
+  at: number;
+}
+
+const loadPending = (): PendingActivity[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_STORAGE_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+};
+
+const savePending = (pending: PendingActivity[]) => {
+  if (pending.length > 0) localStorage.setItem(PENDING_STORAGE_KEY, JSON.stringify(pending));
+  else localStorage.removeItem(PENDING_STORAGE_KEY);
+};
+
+/**
+ * Notes an event from the auth pages, where nobody is signed in yet and the security rules refuse
+ * writes. It is added to the log of the account with that email the next time it signs in here.
+ */
+export const queueActivity = (email: string, type: ActivityType) => {
+  savePending([...loadPending(), { email: email.trim().toLowerCase(), type, at: Date.now() }]);
+};
+
+/** Writes the queued events that belong to the signed-in user, keeping those of other accounts. */
+export const flushQueuedActivity = async (userId: string, email: string | null) => {
+  const pending = loadPending();
+  const mine = pending.filter(entry => entry.email === email?.toLowerCase());
+  if (mine.length === 0) return;
+  savePending(pending.filter(entry => !mine.includes(entry)));
+  for (const entry of mine) await recordActivity(userId, entry.type, { at: entry.at });
+};
+
+export const readActivityDoc = async (vaultKey: VaultKey, stored: StoredDoc): Promise<ActivityEvent> => {
+  const data = stored.data as Omit<ActivityEvent, 'id'>;
+  let fileName: string | undefined;
+  if (data.subject && data.subjectEncryption) {
+    try {
+      fileName = await decryptName(vaultKey, data.subject, data.subjectEncryption);
+    } catch (error) {
+      console.warn("Could not read an activity entry's file name:", error);
+    }
+  }
+  return { ...data, fileName, id: stored.id };
+};
+
+const MINUTE = 60 * 1000;
+const DELETE_BURST = { count: 10, window: 5 * MINUTE };
+const FAILED_SIGN_IN_BURST = { count: 5, window: 15 * MINUTE };
+
+export interface SuspiciousActivity {
+  key: string;
+  at: number;
+  message: string;
+  eventIds: string[];
+}
+
+const burstMinutes = (burst: ActivityEvent[]) => Math.max(1, Math.round((burst[burst.length - 1].at - burst[0].at) / MINUTE));
+
+// Runs of at least `count` matching events no more than `window` apart from first to last.
+const findBursts = (events: ActivityEvent[], count: number, window: number) => {
+  const bursts: ActivityEvent[][] = [];
+  let start = 0;
+  for (let end = 0; end < events.length; end++) {
+    while (events[end].at - events[start].at > window) start++;
+    if (end - start + 1 < count) continue;
+    const last = bursts[bursts.length - 1];
+    // Overlapping windows describe one burst; extend it rather than reporting it again.
+    if (last && events.indexOf(last[last.length - 1]) >= start) last.push(events[end]);
+    else bursts.push(events.slice(start, end + 1));
+  }
+  return bursts;
+};
+
+/**
+ * Looks for patterns worth a second look: many deletes in a short window, repeated failed
+ * sign-ins, and sign-ins from a device that has not been seen before.
+ */
+export const findSuspiciousActivity = (events: ActivityEvent[]): SuspiciousActivity[] => {
+  const chronological = [...events].sort((a, b) => a.at - b.at);
+  const flags: SuspiciousActivity[] = [];
+
+  const deletes = chronological.filter(event => event.type === 'trash' || event.type === 'delete');
+  findBursts(deletes, DELETE_BURST.count, DELETE_BURST.window).forEach(burst => flags.push({
+    key: `deletes-${burst[0].id}`,
+    at: burst[0].at,
+    message: `${burst.length} files deleted within ${burstMinutes(burst)} minutes`,
+    eventIds: burst.map(event => event.id),
+  }));
+
+  const failures = chronological.filter(event => event.type === 'sign-in-failed');
+  findBursts(failures, FAILED_SIGN_IN_BURST.count, FAILED_SIGN_IN_BURST.window).forEach(burst => flags.push({
+    key: `failures-${burst[0].id}`,
+    at: burst[0].at,
+    message: `${burst.length} failed sign-in attempts within ${burstMinutes(burst)} minutes`,
+    eventIds: burst.map(event => event.id),
+  }));
+
+  // The first device ever seen is the user's own; every later first appearance is flagged.
+  const seenDevices = new Set<string>();
+  chronological.forEach(event => {
+    if (event.type === 'sign-in' && !seenDevices.has(event.deviceId) && seenDevices.size > 0) {
+      flags.push({ key: `device-${event.id}`, at: event.at, message: `Sign-in from a new device (${event.deviceLabel})`, eventIds: [event.id] });
+    }
+    seenDevices.add(event.deviceId);
+  });
+
+  return flags.sort((a, b) => b.at - a.at);
+};
+
+const describeSubject = (event: ActivityEvent) =>
+  event.fileName ?? (event.count !== undefined ? `${event.count} files` : '');
+
+// Spreadsheets run a cell starting with one of these as a formula, so a device label or file name
+// such as `=HYPERLINK(...)` is defused with a leading apostrophe.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvField = (value: string) => {
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** The log as CSV, one row per event, for spreadsheets. */
+export const activityToCsv = (events: ActivityEvent[]) => [
+  ['Time', 'Event', 'File', 'Device'].join(','),
+  ...events.map(event => [new Date(event.at).toISOString(), activityLabels[event.type], describeSubject(event), event.deviceLabel].map(csvField).join(',')),
+].join('\n') + '\n';
+
+/** The log as JSON, with decrypted file names and without the ciphertext they came from. */
+export const activityToJson = (events: ActivityEvent[]) => JSON.stringify(
+  events.map(({ subject, subjectEncryption, userId, ...event }) => ({ ...event, time: new Date(event.at).toISOString() })),
+  null,
+  2,
+);
@@ -0,0 +1,234 @@
+import {
+  AuthErrorCodes, EmailAuthProvider, MultiFactorError, TotpMultiFactorGenerator, User, createUserWithEmailAndPassword, deleteUser,
+  getMultiFactorResolver, multiFactor, onAuthStateChanged, reauthenticateWithCredential, reload, sendEmailVerification,
+  sendPasswordResetEmail, signInWithEmailAndPassword, signOut, updatePassword, updateProfile, verifyBeforeUpdateEmail,
+} from 'firebase/auth';
+import {
+  addDoc, collection, deleteDoc, doc, getDoc, getDocs, increment, onSnapshot, query, setDoc, updateDoc, where,
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { deleteObject, getBlob, getDownloadURL, ref, uploadBytes, uploadBytesResumable } from 'firebase/storage';
+import { auth, db, functions, storage } from '../../firebase';
+import {
+  AuthUser, Backend, BackendName, BlobNotFoundError, INVALID_RECOVERY_CODE, InvalidCodeError, SecondFactorChallenge,
+  SecondFactorRequiredError, StoredDoc,
+} from './types';
+
+const isNotFound = (error: any) => error?.code === 'storage/object-not-found';
+
+const totpFactor = (user: User) =>
+  multiFactor(user).enrolledFactors.find(factor => factor.factorId === TotpMultiFactorGenerator.FACTOR_ID);
+
+// A copy rather than the SDK's User, which reload() mutates in place where React would not notice.
+const toAuthUser = (user: User | null): AuthUser | null => {
+  if (!user) return null;
+  const factor = totpFactor(user);
+  return {
+    uid: user.uid,
+    email: user.email,
+    emailVerified: user.emailVerified,
+    displayName: user.displayName,
+    photoUrl: user.photoURL,
+    secondFactorSince: factor ? Date.parse(factor.enrollmentTime) : null,
+  };
+};
+
+const rejectWrongCode = (error: any): never => {
+  throw error?.code === AuthErrorCodes.INVALID_CODE ? new InvalidCodeError() : error;
+};
+
+// Firebase checks the second factor itself and only then issues an ID token, which records it for
+// the security rules. A sign-in or reauthentication that needs one fails with a resolver to finish it.
+const secondFactorChallenge = (error: any): SecondFactorChallenge | null => {
+  if (error?.code !== AuthErrorCodes.MFA_REQUIRED) return null;
+  const resolver = getMultiFactorResolver(auth, error as MultiFactorError);
+  const hint = resolver.hints.find(factor => factor.factorId === TotpMultiFactorGenerator.FACTOR_ID);
+  if (!hint) return null;
+  return {
+    resolve: async code => {
+      await resolver.resolveSignIn(TotpMultiFactorGenerator.assertionForSignIn(hint.uid, code.replace(/\s/g, ''))).catch(rejectWrongCode);
+    },
+  };
+};
+
+// The hashes live at recoveryCodes/{uid}, written and checked by the functions in functions/src.
+// Clients may only delete them, which goes along with the factor or the account.
+const removeRecoveryCodes = (uid: string) => deleteDoc(doc(db, 'recoveryCodes', uid));
+
+const requireUser = () => {
+  if (!auth.currentUser) throw new Error('No user is signed in.');
+  return auth.currentUser;
+};
+
+/** Backend over the configured Firebase project, or its local emulators when `name` is 'emulator'. */
+export const createFirebaseBackend = (name: Extract<BackendName, 'firebase' | 'emulator'>): Backend => {
+  // The SDK only announces sign-in and sign-out, so profile changes made here are passed on by hand.
+  const listeners = new Set<(user: AuthUser | null) => void>();
+  const notifyProfileChange = () => {
+    const user = toAuthUser(auth.currentUser);
+    listeners.forEach(listener => listener(user));
+  };
+
+  return {
+    name,
+
+    auth: {
+      getCurrentUser: () => toAuthUser(auth.currentUser),
+      onAuthStateChanged: listener => {
+        listeners.add(listener);
+        const unsubscribe = onAuthStateChanged(auth, user => listener(toAuthUser(user)));
+        return () => {
+          listeners.delete(listener);
+          unsubscribe();
+        };
+      },
+      signIn: async (email, password) => {
+        try {
+          await signInWithEmailAndPassword(auth, email, password);
+        } catch (error) {
+          const challenge = secondFactorChallenge(error);
+          throw challenge ? new SecondFactorRequiredError(challenge) : error;
+        }
+      },
+      signUp: async (email, password, displayName) => {
+        const { user } = await createUserWithEmailAndPassword(auth, email, password);
+        if (displayName) {
+          await updateProfile(user, { displayName });
+          notifyProfileChange();
+        }
+      },
+      signOut: () => signOut(auth),
+      sendPasswordReset: email => sendPasswordResetEmail(auth, email),
+      sendEmailVerification: async () => {
+        if (auth.currentUser) await sendEmailVerification(auth.currentUser);
+      },
+      reloadUser: async () => {
+        if (!auth.currentUser) return null;
+        await reload(auth.currentUser);
+        // Security rules read email_verified from the ID token, so fetch one that carries the change.
+        await auth.currentUser.getIdToken(true);
+        notifyProfileChange();
+        return toAuthUser(auth.currentUser);
+      },
+      updateProfile: async ({ displayName, photoUrl }) => {
+        await updateProfile(requireUser(), { displayName, photoURL: photoUrl });
+        notifyProfileChange();
+      },
+      reauthenticate: async (password, code) => {
+        const user = requireUser();
+        try {
+          await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email ?? '', password));
+        } catch (error) {
+          const challenge = secondFactorChallenge(error);
+          if (!challenge) throw error;
+          if (code === undefined) throw new SecondFactorRequiredError(challenge);
+          await challenge.resolve(code);
+        }
+      },
+      changeEmail: newEmail => verifyBeforeUpdateEmail(requireUser(), newEmail),
+      changePassword: newPassword => updatePassword(requireUser(), newPassword),
+      deleteAccount: async () => {
+        const user = requireUser();
+        await removeRecoveryCodes(user.uid);
+        await deleteUser(user);
+      },
+      startTotpEnrolment: async issuer => {
+        const user = requireUser();
+        const secret = await TotpMultiFactorGenerator.generateSecret(await multiFactor(user).getSession());
+        return {
+          secret: secret.secretKey,
+          uri: secret.generateQrCodeUrl(user.email ?? user.uid, issuer),
+          finish: async code => {
+            const assertion = TotpMultiFactorGenerator.assertionForEnrollment(secret, code.replace(/\s/g, ''));
+            await multiFactor(user).enroll(assertion, 'Authenticator app').catch(rejectWrongCode);
+            notifyProfileChange();
+          },
+        };
+      },
+      removeSecondFactor: async () => {
+        const user = requireUser();
+        const factor = totpFactor(user);
+        await removeRecoveryCodes(user.uid);
+        if (factor) await multiFactor(user).unenroll(factor);
+        notifyProfileChange();
+      },
+      createRecoveryCodes: async () => {
+        const { data } = await httpsCallable<void, { codes: string[] }>(functions, 'createRecoveryCodes')();
+        return data.codes;
+      },
+      redeemRecoveryCode: async (email, code) => {
+        await httpsCallable(functions, 'redeemRecoveryCode')({ email, code }).catch(error => {
+          throw error?.code === 'functions/permission-denied' ? new InvalidCodeError(INVALID_RECOVERY_CODE) : error;
+        });
+      },
+      isMissingSecondFactor: async () => {
+        const user = auth.currentUser;
+        if (!user || !totpFactor(user)) return false;
+        return !(await user.getIdTokenResult()).signInSecondFactor;
+      },
+    },
+
+    db: {
+      get: async (path, id) => {
+        const snapshot = await getDoc(doc(db, path, id));
+        return snapshot.exists() ? snapshot.data() : null;
+      },
+      list: async (path, filter) => {
+        const snapshot = await getDocs(query(collection(db, path), where(filter.field, '==', filter.value)));
+        return snapshot.docs.map((d): StoredDoc => ({ id: d.id, data: d.data() }));
+      },
+      add: async (path, data) => (await addDoc(collection(db, path), data)).id,
+      newId: path => doc(collection(db, path)).id,
+      set: (path, id, data, options) => setDoc(doc(db, path, id), data, { merge: !!options?.merge }),
+      update: (path, id, changes) => updateDoc(doc(db, path, id), changes),
+      increment: (path, id, field, by = 1) => updateDoc(doc(db, path, id), { [field]: increment(by) }),
+      remove: (path, id) => deleteDoc(doc(db, path, id)),
+      watch: (path, filter, onChanges, onError) =>
+        onSnapshot(
+          query(collection(db, path), where(filter.field, '==', filter.value)),
+          snapshot => onChanges(snapshot.docChanges().map(change => ({
+            type: change.type,
+            doc: { id: change.doc.id, data: change.doc.data() },
+          }))),
+          onError
+        ),
+      watchDoc: (path, id, onDoc, onError) =>
+        onSnapshot(doc(db, path, id), snapshot => onDoc(snapshot.exists() ? snapshot.data() : null), onError),
+    },
+
+    blobs: {
+      upload: async (path, data, contentType) => {
+        await uploadBytes(ref(storage, path), data, contentType ? { contentType } : undefined);
+      },
+      uploadResumable: (path, data, contentType, { onProgress, onError, onComplete }) => {
+        const task = uploadBytesResumable(ref(storage, path), data, contentType ? { contentType } : undefined);
+        task.on(
+          'state_changed',
+          snapshot => onProgress({ bytesTransferred: snapshot.bytesTransferred, totalBytes: snapshot.totalBytes }),
+          onError,
+          onComplete
+        );
+        return {
+          pause: () => { task.pause(); },
+          resume: () => { task.resume(); },
+          cancel: () => { task.cancel(); },
+        };
+      },
+      getBlob: async path => {
+        try {
+          return await getBlob(ref(storage, path));
+        } catch (error) {
+          throw isNotFound(error) ? new BlobNotFoundError(path) : error;
+        }
+      },
+      getDownloadUrl: path => getDownloadURL(ref(storage, path)),
+      remove: async path => {
+        try {
+          await deleteObject(ref(storage, path));
+        } catch (error) {
+          throw isNotFound(error) ? new BlobNotFoundError(path) : error;
+        }
+      },
+    },
+  };
+};
@@ -0,0 +1,29 @@
+import { Backend, BackendName } from './types';
+
+export * from './types';
+
+const BACKEND_NAMES: BackendName[] = ['firebase', 'emulator', 'memory', 'local'];
+
+// Each backend is imported only when picked, so the local ones never load or initialise Firebase
+// and the Firebase build carries no local store.
+const createBackend = async (name: BackendName): Promise<Backend> => {
+  switch (name) {
+    case 'firebase':
+    case 'emulator':
+      return (await import('./firebase')).createFirebaseBackend(name);
+    case 'memory':
+      return (await import('./memory')).createMemoryBackend(name);
+    case 'local': {
+      const [{ createMemoryBackend }, { createIndexedDbPersistence }] = await Promise.all([import('./memory'), import('./indexedDb')]);
+      return createMemoryBackend(name, createIndexedDbPersistence());
+    }
+  }
+};
+
+const requestedBackend = process.env.LOCKER_BACKEND as BackendName;
+if (!BACKEND_NAMES.includes(requestedBackend)) {
+  throw new Error(`Unknown LOCKER_BACKEND "${requestedBackend}"; expected one of ${BACKEND_NAMES.join(', ')}.`);
+}
+
+/** The backend picked by LOCKER_BACKEND at build time; see README.md. */
+export const backend = await createBackend(requestedBackend);
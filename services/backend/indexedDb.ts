@@ -0,0 +1,42 @@
+import { MemoryPersistence, MemoryState } from './memory';
+
+const DATABASE_NAME = 'safe-locker-local';
+const STORE_NAME = 'state';
+const STATE_KEY = 'current';
+// Writes are coalesced so a burst of changes, e.g. a bulk move, costs one transaction.
+const SAVE_DELAY_MS = 200;
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const run = <T>(database: IDBDatabase, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    const request = action(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/** Keeps the memory backend's state in IndexedDB, so the local backend survives reloads. */
+export const createIndexedDbPersistence = (): MemoryPersistence => {
+  const database = openDatabase();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  return {
+    load: async () => (await run<MemoryState | undefined>(await database, 'readonly', store => store.get(STATE_KEY))) ?? null,
+    save: state => {
+      clearTimeout(timer);
+      timer = setTimeout(async () => {
+        try {
+          await run(await database, 'readwrite', store => store.put(state, STATE_KEY));
+        } catch (error) {
+          console.error("Error saving local data:", error);
+        }
+      }, SAVE_DELAY_MS);
+    },
+  };
+};
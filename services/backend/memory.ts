@@ -0,0 +1,446 @@
+import {
+  AuthUser, Backend, BackendName, BlobNotFoundError, DocChange, DocData, DocFilter, DocNotFoundError, INVALID_RECOVERY_CODE,
+  InvalidCodeError, SecondFactorRequiredError, StoredDoc,
+} from './types';
+import { generateTotpSecret, matchTotp, toBase32, totpUri } from '../totp';
+
+// Everything the local backends keep: documents by collection and id, Storage objects by path,
+// and the accounts that can sign in.
+export interface MemoryState {
+  collections: Record<string, Record<string, DocData>>;
+  blobs: Record<string, { data: Blob; contentType: string }>;
+  users: Record<string, MemoryAccount>; // Keyed by lower-case email
+  currentUid: string | null;
+}
+
+export interface MemoryAccount {
+  uid: string;
+  email: string;
+  passwordHash: string;
+  emailVerified?: boolean;
+  displayName?: string | null;
+  photoUrl?: string | null;
+  totpSecret?: string; // Set while an authenticator app is enrolled
+  totpEnrolledAt?: number;
+  lastTotpStep?: number; // So an accepted code cannot be used twice
+  recoveryCodeHashes?: string[];
+}
+
+export interface MemoryPersistence {
+  load(): Promise<MemoryState | null>;
+  save(state: MemoryState): void;
+}
+
+// Mirrors Firebase Auth error codes so the sign-in screens behave the same on every backend.
+class LocalAuthError extends Error {
+  constructor(public code: string, message: string) {
+    super(message);
+    this.name = 'LocalAuthError';
+  }
+}
+
+const UPLOAD_CHUNK_BYTES = 256 * 1024;
+const MIN_PASSWORD_LENGTH = 6;
+
+const assertStrongPassword = (password: string) => {
+  if (password.length < MIN_PASSWORD_LENGTH) throw new LocalAuthError('auth/weak-password', 'Password should be at least 6 characters.');
+};
+
+const emptyState = (): MemoryState => ({ collections: {}, blobs: {}, users: {}, currentUid: null });
+
+const matches = (data: DocData | undefined, filter: DocFilter) => data !== undefined && data[filter.field] === filter.value;
+
+// Only fends off casual reading of a persisted store; the local backends are for development and tests.
+const hashPassword = async (password: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Ten codes of 80 random bits, like the recovery code functions in functions/src make.
+const generateRecoveryCodes = () =>
+  Array.from({ length: 10 }, () => toBase32(crypto.getRandomValues(new Uint8Array(10))).match(/.{4}/g)!.join('-'));
+
+// Dashes, spaces and case are ignored, since codes get copied by hand.
+const hashRecoveryCode = (code: string) => hashPassword(code.toUpperCase().replace(/[^A-Z2-7]/g, ''));
+
+/**
+ * Backend that keeps everything in memory, optionally mirrored to a persistence layer. It enforces
+ * no security rules: it stands in for Firebase in tests and offline development, not in production.
+ */
+export const createMemoryBackend = (name: Extract<BackendName, 'memory' | 'local'>, persistence?: MemoryPersistence): Backend => {
+  let state = emptyState();
+  const ready = (persistence?.load() ?? Promise.resolve(null)).then(loaded => {
+    if (loaded) state = loaded;
+  });
+
+  type Watcher = { collection: string; filter: DocFilter; onChanges: (changes: DocChange[]) => void };
+  type DocWatcher = { collection: string; id: string; onDoc: (data: DocData | null) => void };
+  const watchers = new Set<Watcher>();
+  const docWatchers = new Set<DocWatcher>();
+  const authListeners = new Set<(user: AuthUser | null) => void>();
+  const downloadUrls = new Map<string, string>();
+
+  const save = () => persistence?.save(state);
+
+  // Object URLs point at one Blob, so a new upload to the same path needs a new URL.
+  const forgetDownloadUrl = (path: string) => {
+    const url = downloadUrls.get(path);
+    if (url) URL.revokeObjectURL(url);
+    downloadUrls.delete(path);
+  };
+  const docsOf = (collection: string) => (state.collections[collection] ??= {});
+
+  const currentAccount = () => Object.values(state.users).find(user => user.uid === state.currentUid);
+
+  const currentUser = (): AuthUser | null => {
+    const account = currentAccount();
+    return account ? {
+      uid: account.uid,
+      email: account.email,
+      emailVerified: !!account.emailVerified,
+      displayName: account.displayName ?? null,
+      photoUrl: account.photoUrl ?? null,
+      secondFactorSince: account.totpSecret ? account.totpEnrolledAt ?? null : null,
+    } : null;
+  };
+
+  const requireAccount = () => {
+    const account = currentAccount();
+    if (!account) throw new LocalAuthError('auth/no-current-user', 'No user is signed in.');
+    return account;
+  };
+
+  const notifyAuthListeners = () => {
+    save();
+    const user = currentUser();
+    authListeners.forEach(listener => listener(user));
+  };
+
+  const setCurrentUid = (uid: string | null) => {
+    state.currentUid = uid;
+    notifyAuthListeners();
+  };
+
+  const clearSecondFactor = (account: MemoryAccount) => {
+    delete account.totpSecret;
+    delete account.totpEnrolledAt;
+    delete account.lastTotpStep;
+    delete account.recoveryCodeHashes;
+  };
+
+  // Accepts each code once, like Firebase does.
+  const checkTotp = async (account: MemoryAccount, code: string) => {
+    const step = await matchTotp(account.totpSecret!, code);
+    if (step === null || step <= (account.lastTotpStep ?? -1)) throw new InvalidCodeError();
+    account.lastTotpStep = step;
+    save();
+  };
+
+  // Applies a write and tells every affected watcher, the way Firestore reports local writes at once.
+  const write = (collection: string, id: string, next: DocData | undefined) => {
+    const docs = docsOf(collection);
+    const previous = docs[id];
+    if (next === undefined) delete docs[id];
+    else docs[id] = structuredClone(next);
+    save();
+
+    watchers.forEach(watcher => {
+      if (watcher.collection !== collection) return;
+      const before = matches(previous, watcher.filter);
+      const after = matches(next, watcher.filter);
+      if (!before && !after) return;
+      const type = before && after ? 'modified' : after ? 'added' : 'removed';
+      watcher.onChanges([{ type, doc: { id, data: structuredClone(next ?? previous!) } }]);
+    });
+    docWatchers.forEach(watcher => {
+      if (watcher.collection === collection && watcher.id === id) watcher.onDoc(next ? structuredClone(next) : null);
+    });
+  };
+
+  const requireDoc = (collection: string, id: string) => {
+    const existing = docsOf(collection)[id];
+    if (!existing) throw new DocNotFoundError(collection, id);
+    return existing;
+  };
+
+  return {
+    name,
+
+    auth: {
+      getCurrentUser: currentUser,
+      onAuthStateChanged: listener => {
+        authListeners.add(listener);
+        let active = true;
+        ready.then(() => { if (active) listener(currentUser()); });
+        return () => {
+          active = false;
+          authListeners.delete(listener);
+        };
+      },
+      signIn: async (email, password) => {
+        await ready;
+        const account = state.users[email.toLowerCase()];
+        if (!account || account.passwordHash !== await hashPassword(password)) {
+          throw new LocalAuthError('auth/invalid-credential', 'Incorrect email or password.');
+        }
+        if (account.totpSecret) {
+          throw new SecondFactorRequiredError({
+            resolve: async code => {
+              await checkTotp(account, code);
+              setCurrentUid(account.uid);
+            },
+          });
+        }
+        setCurrentUid(account.uid);
+      },
+      signUp: async (email, password, displayName) => {
+        await ready;
+        const key = email.toLowerCase();
+        if (state.users[key]) throw new LocalAuthError('auth/email-already-in-use', 'An account with this email already exists.');
+        assertStrongPassword(password);
+        state.users[key] = { uid: crypto.randomUUID(), email, passwordHash: await hashPassword(password), displayName: displayName || null };
+        setCurrentUid(state.users[key].uid);
+      },
+      signOut: async () => {
+        await ready;
+        setCurrentUid(null);
+      },
+      sendPasswordReset: async email => {
+        await ready;
+        console.info(`Password reset requested for ${email}; the ${name} backend sends no email.`);
+      },
+      // There is no inbox to send a link to, so asking for one verifies the address straight away.
+      sendEmailVerification: async () => {
+        await ready;
+        const account = currentAccount();
+        if (!account) return;
+        account.emailVerified = true;
+        save();
+        console.info(`Verified ${account.email}; the ${name} backend sends no email.`);
+      },
+      reloadUser: async () => {
+        await ready;
+        notifyAuthListeners();
+        return currentUser();
+      },
+      updateProfile: async changes => {
+        await ready;
+        Object.assign(requireAccount(), changes);
+        notifyAuthListeners();
+      },
+      reauthenticate: async (password, code) => {
+        await ready;
+        const account = requireAccount();
+        if (account.passwordHash !== await hashPassword(password)) {
+          throw new LocalAuthError('auth/invalid-credential', 'Incorrect password.');
+        }
+        if (!account.totpSecret) return;
+        if (code === undefined) throw new SecondFactorRequiredError({ resolve: resolvedCode => checkTotp(account, resolvedCode) });
+        await checkTotp(account, code);
+      },
+      // Switches straight away, as if the confirmation link had been followed.
+      changeEmail: async newEmail => {
+        await ready;
+        const account = requireAccount();
+        const key = newEmail.toLowerCase();
+        if (state.users[key]) throw new LocalAuthError('auth/email-already-in-use', 'An account with this email already exists.');
+        delete state.users[account.email.toLowerCase()];
+        state.users[key] = { ...account, email: newEmail, emailVerified: true };
+        notifyAuthListeners();
+      },
+      changePassword: async newPassword => {
+        await ready;
+        assertStrongPassword(newPassword);
+        requireAccount().passwordHash = await hashPassword(newPassword);
+        save();
+      },
+      deleteAccount: async () => {
+        await ready;
+        delete state.users[requireAccount().email.toLowerCase()];
+        setCurrentUid(null);
+      },
+      startTotpEnrolment: async issuer => {
+        await ready;
+        const account = requireAccount();
+        const secret = generateTotpSecret();
+        return {
+          secret,
+          uri: totpUri(secret, account.email, issuer),
+          finish: async code => {
+            const step = await matchTotp(secret, code);
+            if (step === null) throw new InvalidCodeError();
+            Object.assign(account, { totpSecret: secret, totpEnrolledAt: Date.now(), lastTotpStep: step });
+            notifyAuthListeners();
+          },
+        };
+      },
+      removeSecondFactor: async () => {
+        await ready;
+        const account = requireAccount();
+        clearSecondFactor(account);
+        notifyAuthListeners();
+      },
+      createRecoveryCodes: async () => {
+        await ready;
+        const account = requireAccount();
+        if (!account.totpSecret) throw new Error('Two-step verification is off.');
+        const codes = generateRecoveryCodes();
+        account.recoveryCodeHashes = await Promise.all(codes.map(hashRecoveryCode));
+        save();
+        return codes;
+      },
+      redeemRecoveryCode: async (email, code) => {
+        await ready;
+        const account = state.users[email.toLowerCase()];
+        const hash = await hashRecoveryCode(code);
+        if (!account?.totpSecret || !account.recoveryCodeHashes?.includes(hash)) throw new InvalidCodeError(INVALID_RECOVERY_CODE);
+        clearSecondFactor(account);
+        if (docsOf('twoFactor')[account.uid]) write('twoFactor', account.uid, undefined);
+        notifyAuthListeners();
+      },
+      // Local sessions only ever start through signIn(), which always asks for the code.
+      isMissingSecondFactor: async () => false,
+    },
+
+    db: {
+      get: async (collection, id) => {
+        await ready;
+        const data = docsOf(collection)[id];
+        return data ? structuredClone(data) : null;
+      },
+      list: async (collection, filter) => {
+        await ready;
+        return Object.entries(docsOf(collection))
+          .filter(([, data]) => matches(data, filter))
+          .map(([id, data]): StoredDoc => ({ id, data: structuredClone(data) }));
+      },
+      add: async (collection, data) => {
+        await ready;
+        const id = crypto.randomUUID();
+        write(collection, id, data);
+        return id;
+      },
+      newId: () => crypto.randomUUID(),
+      set: async (collection, id, data, options) => {
+        await ready;
+        const existing = options?.merge ? docsOf(collection)[id] : undefined;
+        write(collection, id, { ...existing, ...data });
+      },
+      update: async (collection, id, changes) => {
+        await ready;
+        write(collection, id, { ...requireDoc(collection, id), ...changes });
+      },
+      increment: async (collection, id, field, by = 1) => {
+        await ready;
+        const existing = requireDoc(collection, id);
+        write(collection, id, { ...existing, [field]: (existing[field] ?? 0) + by });
+      },
+      remove: async (collection, id) => {
+        await ready;
+        if (docsOf(collection)[id]) write(collection, id, undefined);
+      },
+      watch: (collection, filter, onChanges, onError) => {
+        const watcher: Watcher = { collection, filter, onChanges };
+        let active = true;
+        ready.then(() => {
+          if (!active) return;
+          // Register before the initial batch so no write can slip in between.
+          watchers.add(watcher);
+          onChanges(Object.entries(docsOf(collection))
+            .filter(([, data]) => matches(data, filter))
+            .map(([id, data]) => ({ type: 'added', doc: { id, data: structuredClone(data) } })));
+        }, onError);
+        return () => {
+          active = false;
+          watchers.delete(watcher);
+        };
+      },
+      watchDoc: (collection, id, onDoc, onError) => {
+        const watcher: DocWatcher = { collection, id, onDoc };
+        let active = true;
+        ready.then(() => {
+          if (!active) return;
+          docWatchers.add(watcher);
+          const data = docsOf(collection)[id];
+          onDoc(data ? structuredClone(data) : null);
+        }, onError);
+        return () => {
+          active = false;
+          docWatchers.delete(watcher);
+        };
+      },
+    },
+
+    blobs: {
+      upload: async (path, data, contentType) => {
+        await ready;
+        state.blobs[path] = { data, contentType: contentType ?? data.type };
+        forgetDownloadUrl(path);
+        save();
+      },
+      // Reports progress in chunks across event-loop turns so pause, resume and cancel can be exercised.
+      uploadResumable: (path, data, contentType, { onProgress, onError, onComplete }) => {
+        let transferred = 0;
+        let paused = false;
+        let canceled = false;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+
+        const step = () => {
+          timer = undefined;
+          if (paused || canceled) return;
+          transferred = Math.min(data.size, transferred + UPLOAD_CHUNK_BYTES);
+          onProgress({ bytesTransferred: transferred, totalBytes: data.size });
+          if (transferred < data.size) {
+            timer = setTimeout(step, 0);
+            return;
+          }
+          ready.then(() => {
+            state.blobs[path] = { data, contentType: contentType ?? data.type };
+            forgetDownloadUrl(path);
+            save();
+            onComplete();
+          }, onError);
+        };
+        timer = setTimeout(step, 0);
+
+        return {
+          pause: () => {
+            paused = true;
+            clearTimeout(timer);
+          },
+          resume: () => {
+            if (!paused || canceled) return;
+            paused = false;
+            timer = setTimeout(step, 0);
+          },
+          cancel: () => {
+            canceled = true;
+            clearTimeout(timer);
+            // Asynchronous like Firebase's, so callers can mark the upload canceled first.
+            setTimeout(() => onError(Object.assign(new Error('Upload canceled'), { code: 'storage/canceled' })), 0);
+          },
+        };
+      },
+      getBlob: async path => {
+        await ready;
+        const stored = state.blobs[path];
+        if (!stored) throw new BlobNotFoundError(path);
+        return new Blob([stored.data], { type: stored.contentType });
+      },
+      getDownloadUrl: async path => {
+        await ready;
+        const stored = state.blobs[path];
+        if (!stored) throw new BlobNotFoundError(path);
+        if (!downloadUrls.has(path)) downloadUrls.set(path, URL.createObjectURL(stored.data));
+        return downloadUrls.get(path)!;
+      },
+      remove: async path => {
+        await ready;
+        if (!state.blobs[path]) throw new BlobNotFoundError(path);
+        delete state.blobs[path];
+        forgetDownloadUrl(path);
+        save();
+      },
+    },
+  };
+};
@@ -0,0 +1,185 @@
+// The seam between the app and wherever its data lives. Everything outside services/backend talks
+// to these interfaces, so the same screens run against Firebase, its emulators or a local store.
+
+export type Unsubscribe = () => void;
+
+export type DocData = Record<string, any>;
+
+export interface StoredDoc {
+  id: string;
+  data: DocData;
+}
+
+export interface DocChange {
+  type: 'added' | 'modified' | 'removed';
+  doc: StoredDoc;
+}
+
+// Every query the app makes is a single equality match, usually on the owner field.
+export interface DocFilter {
+  field: string;
+  value: unknown;
+}
+
+export interface DocumentStore {
+  get(collection: string, id: string): Promise<DocData | null>;
+  list(collection: string, filter: DocFilter): Promise<StoredDoc[]>;
+  /** Creates a document under a generated id and returns the id. */
+  add(collection: string, data: DocData): Promise<string>;
+  /** A fresh id for a document in `collection`, for writing with set() without waiting on add(). */
+  newId(collection: string): string;
+  /** Writes a whole document, or merges the given top-level fields into it. */
+  set(collection: string, id: string, data: DocData, options?: { merge?: boolean }): Promise<void>;
+  /** Changes top-level fields of an existing document; fails when it does not exist. */
+  update(collection: string, id: string, changes: DocData): Promise<void>;
+  /** Atomically adds `by` to a numeric field, so concurrent visitors do not lose counts. */
+  increment(collection: string, id: string, field: string, by?: number): Promise<void>;
+  remove(collection: string, id: string): Promise<void>;
+  /**
+   * Reports matching documents as batches of changes: everything as `added` first, then only what
+   * changed. The app's own writes are reported straight away.
+   */
+  watch(collection: string, filter: DocFilter, onChanges: (changes: DocChange[]) => void, onError: (error: Error) => void): Unsubscribe;
+  watchDoc(collection: string, id: string, onDoc: (data: DocData | null) => void, onError: (error: Error) => void): Unsubscribe;
+}
+
+export interface UploadProgress {
+  bytesTransferred: number;
+  totalBytes: number;
+}
+
+export interface UploadCallbacks {
+  onProgress: (progress: UploadProgress) => void;
+  onError: (error: Error) => void;
+  onComplete: () => void;
+}
+
+export interface ResumableUpload {
+  pause(): void;
+  resume(): void;
+  cancel(): void;
+}
+
+export interface BlobStore {
+  upload(path: string, data: Blob, contentType?: string): Promise<void>;
+  uploadResumable(path: string, data: Blob, contentType: string | undefined, callbacks: UploadCallbacks): ResumableUpload;
+  getBlob(path: string): Promise<Blob>;
+  getDownloadUrl(path: string): Promise<string>;
+  /** Deletes an object; rejects with BlobNotFoundError when there is none. */
+  remove(path: string): Promise<void>;
+}
+
+export interface AuthUser {
+  uid: string;
+  email: string | null;
+  emailVerified: boolean;
+  displayName: string | null;
+  photoUrl: string | null;
+  // When an authenticator app was enrolled as a second factor, or null while there is none.
+  secondFactorSince: number | null;
+}
+
+/** A sign-in that has passed the password and now needs the current code from the authenticator app. */
+export interface SecondFactorChallenge {
+  /** Completes the sign-in; rejects with InvalidCodeError for a wrong code. */
+  resolve(code: string): Promise<void>;
+}
+
+/** An authenticator app being added as a second factor; nothing changes until finish() succeeds. */
+export interface TotpEnrolment {
+  secret: string; // base32, for typing into the app by hand
+  uri: string; // otpauth:// URI the app can import
+  /** Enrols the app once `code` shows it holds the secret; rejects with InvalidCodeError otherwise. */
+  finish(code: string): Promise<void>;
+}
+
+export interface ProfileChanges {
+  displayName?: string | null;
+  photoUrl?: string | null;
+}
+
+export interface AuthBackend {
+  getCurrentUser(): AuthUser | null;
+  /** Reports sign-in, sign-out and any profile change made through this interface. */
+  onAuthStateChanged(listener: (user: AuthUser | null) => void): Unsubscribe;
+  /** Rejects with SecondFactorRequiredError when the account has a second factor. */
+  signIn(email: string, password: string): Promise<void>;
+  signUp(email: string, password: string, displayName?: string): Promise<void>;
+  signOut(): Promise<void>;
+  sendPasswordReset(email: string): Promise<void>;
+  /** Emails the signed-in user a link that confirms their address. */
+  sendEmailVerification(): Promise<void>;
+  /** Fetches the signed-in user again, e.g. after they follow a verification link. */
+  reloadUser(): Promise<AuthUser | null>;
+  updateProfile(changes: ProfileChanges): Promise<void>;
+  /**
+   * Confirms the password again, and the authenticator code when the account has a second factor;
+   * email, password, second factor and deletion changes need a recent sign-in. Rejects with
+   * SecondFactorRequiredError when a code is needed but none was given.
+   */
+  reauthenticate(password: string, code?: string): Promise<void>;
+  /** Sends a confirmation link to the new address; the email changes once it is followed. */
+  changeEmail(newEmail: string): Promise<void>;
+  changePassword(newPassword: string): Promise<void>;
+  /** Deletes the signed-in account itself; its data must be removed first. */
+  deleteAccount(): Promise<void>;
+  /** Starts adding an authenticator app as the second factor; needs a recent sign-in. */
+  startTotpEnrolment(issuer: string): Promise<TotpEnrolment>;
+  /** Removes the second factor and its recovery codes; needs a recent sign-in, which asks for a code while it is on. */
+  removeSecondFactor(): Promise<void>;
+  /**
+   * Replaces the account's recovery codes with new ones and returns them. Only their hashes are
+   * kept, where no client can read them. Needs a session that passed the second factor.
+   */
+  createRecoveryCodes(): Promise<string[]>;
+  /**
+   * Spends one of the account's recovery codes to remove its second factor, for a user who lost
+   * their authenticator app; the other codes go with it. Rejects with InvalidCodeError when the
+   * code matches none. Signing in afterwards still takes the password.
+   */
+  redeemRecoveryCode(email: string, code: string): Promise<void>;
+  /**
+   * Whether the account has a second factor that this session never passed, as with a session
+   * that began on another device before it was turned on. The security rules refuse such sessions.
+   */
+  isMissingSecondFactor(): Promise<boolean>;
+}
+
+export interface Backend {
+  name: BackendName;
+  auth: AuthBackend;
+  db: DocumentStore;
+  blobs: BlobStore;
+}
+
+export type BackendName = 'firebase' | 'emulator' | 'memory' | 'local';
+
+export class BlobNotFoundError extends Error {
+  constructor(path: string) {
+    super(`No object at ${path}`);
+    this.name = 'BlobNotFoundError';
+  }
+}
+
+export class SecondFactorRequiredError extends Error {
+  constructor(public challenge: SecondFactorChallenge) {
+    super('Enter the code from your authenticator app.');
+    this.name = 'SecondFactorRequiredError';
+  }
+}
+
+export const INVALID_RECOVERY_CODE = 'That recovery code is not valid, or has already been used.';
+
+export class InvalidCodeError extends Error {
+  constructor(message = 'That code is not valid. Check your authenticator app and try again.') {
+    super(message);
+    this.name = 'InvalidCodeError';
+  }
+}
+
+export class DocNotFoundError extends Error {
+  constructor(collection: string, id: string) {
+    super(`No document ${collection}/${id}`);
+    this.name = 'DocNotFoundError';
+  }
+}
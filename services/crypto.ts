@@ -0,0 +1,195 @@
+import { EncryptionInfo, NameEncryptionInfo } from '../types';
+
+// Version 1: PBKDF2-SHA256 (passphrase -> vault key), HKDF-SHA256 (vault key + per-file salt -> file key), AES-256-GCM.
+// Bump this when the scheme changes; files keep the version they were written with so old uploads stay readable.
+export const CRYPTO_VERSION = 1;
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const FILE_KEY_INFO = new TextEncoder().encode('safe-locker/file-key/v1');
+const CONTENT_HASH_INFO = new TextEncoder().encode('safe-locker/content-hash/v1');
+
+export interface VaultKey {
+  keyId: string; // Identifies which vault passphrase generation derived this key
+  baseKey: CryptoKey; // HKDF base key; never leaves memory
+}
+
+export const randomBytes = (length: number): Uint8Array => crypto.getRandomValues(new Uint8Array(length));
+
+export const toBase64 = (bytes: ArrayBuffer | Uint8Array): string => {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  for (let i = 0; i < view.length; i++) binary += String.fromCharCode(view[i]);
+  return btoa(binary);
+};
+
+export const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// URL-safe variant for values carried in links.
+export const toBase64Url = (bytes: ArrayBuffer | Uint8Array): string =>
+  toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+// Strict about the alphabet, so a value mangled in transit fails to decode instead of decoding wrong.
+export const fromBase64Url = (value: string): Uint8Array => {
+  if (!/^[A-Za-z0-9_-]*$/.test(value)) throw new Error('Not a base64url value.');
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return fromBase64(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+};
+
+export const newSalt = (): Uint8Array => randomBytes(SALT_BYTES);
+
+export const newIv = (): Uint8Array => randomBytes(IV_BYTES);
+
+export const deriveVaultKey = async (passphrase: string, salt: Uint8Array, keyId: string, iterations = PBKDF2_ITERATIONS): Promise<VaultKey> => {
+  const passphraseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    passphraseKey,
+    256
+  );
+  const baseKey = await crypto.subtle.importKey('raw', bits, 'HKDF', false, ['deriveKey', 'deriveBits']);
+  return { keyId, baseKey };
+};
+
+export const deriveFileKey = (vaultKey: VaultKey, salt: Uint8Array): Promise<CryptoKey> =>
+  crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: FILE_KEY_INFO },
+    vaultKey.baseKey,
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  );
+
+const contentHashKeys = new WeakMap<VaultKey, Promise<CryptoKey>>();
+
+// The info string already separates this key from the file keys, so it needs no salt of its own.
+const getContentHashKey = (vaultKey: VaultKey): Promise<CryptoKey> => {
+  let key = contentHashKeys.get(vaultKey);
+  if (!key) {
+    key = crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: CONTENT_HASH_INFO },
+      vaultKey.baseKey,
+      { name: 'HMAC', hash: 'SHA-256', length: 256 },
+      false,
+      ['sign']
+    );
+    contentHashKeys.set(vaultKey, key);
+  }
+  return key;
+};
+
+/**
+ * Keyed fingerprint of a file's contents, used to spot duplicates. A plain SHA-256 stored next to
+ * the encrypted data would let anyone reading the database confirm that a user holds a known file.
+ */
+export const hashContents = async (vaultKey: VaultKey, data: Blob): Promise<string> =>
+  toBase64(await crypto.subtle.sign('HMAC', await getContentHashKey(vaultKey), await data.arrayBuffer()));
+
+/** A standalone random AES-GCM key, for data that must be readable without the vault. */
+export const generateContentKey = (): Promise<CryptoKey> =>
+  crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+
+export const exportRawKey = async (key: CryptoKey): Promise<Uint8Array> =>
+  new Uint8Array(await crypto.subtle.exportKey('raw', key));
+
+export const importRawKey = (raw: Uint8Array): Promise<CryptoKey> =>
+  crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, true, ['encrypt', 'decrypt']);
+
+/** Derives an AES-GCM key from a password with the same PBKDF2 + HKDF chain the vault uses. */
+export const derivePasswordKey = async (password: string, salt: Uint8Array, iterations?: number): Promise<CryptoKey> =>
+  deriveFileKey(await deriveVaultKey(password, salt, 'password', iterations), salt);
+
+export const encryptBytes = (key: CryptoKey, iv: Uint8Array, data: BufferSource): Promise<ArrayBuffer> =>
+  crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data);
+
+export const decryptBytes = (key: CryptoKey, iv: Uint8Array, data: BufferSource): Promise<ArrayBuffer> =>
+  crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, data);
+
+const assertSupportedVersion = (encryption: NameEncryptionInfo) => {
+  if (encryption.version !== CRYPTO_VERSION) {
+    throw new Error(`Unsupported encryption version ${encryption.version}`);
+  }
+};
+
+/**
+ * Encrypts a file's contents and name with a fresh per-file key. The returned name is base64
+ * ciphertext and is what gets stored in Firestore in place of the original name.
+ */
+export const encryptFile = async (vaultKey: VaultKey, file: File) => {
+  const salt = newSalt();
+  const iv = randomBytes(IV_BYTES);
+  const nameIv = randomBytes(IV_BYTES);
+  const key = await deriveFileKey(vaultKey, salt);
+
+  const contents = await encryptBytes(key, iv, await file.arrayBuffer());
+  const name = await encryptBytes(key, nameIv, new TextEncoder().encode(file.name));
+
+  const encryption: EncryptionInfo = {
+    version: CRYPTO_VERSION,
+    keyId: vaultKey.keyId,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    nameIv: toBase64(nameIv),
+  };
+  return {
+    data: new Blob([contents], { type: 'application/octet-stream' }),
+    encryptedName: toBase64(name),
+    encryption,
+  };
+};
+
+/** Encrypts a standalone name, such as a folder's, with its own salt. */
+export const encryptName = async (vaultKey: VaultKey, name: string) => {
+  const salt = newSalt();
+  const nameIv = randomBytes(IV_BYTES);
+  const key = await deriveFileKey(vaultKey, salt);
+  const ciphertext = await encryptBytes(key, nameIv, new TextEncoder().encode(name));
+  const encryption: NameEncryptionInfo = {
+    version: CRYPTO_VERSION,
+    keyId: vaultKey.keyId,
+    salt: toBase64(salt),
+    nameIv: toBase64(nameIv),
+  };
+  return { encryptedName: toBase64(ciphertext), encryption };
+};
+
+export const decryptName = async (vaultKey: VaultKey, encryptedName: string, encryption: NameEncryptionInfo): Promise<string> => {
+  assertSupportedVersion(encryption);
+  const key = await deriveFileKey(vaultKey, fromBase64(encryption.salt));
+  const name = await decryptBytes(key, fromBase64(encryption.nameIv), fromBase64(encryptedName));
+  return new TextDecoder().decode(name);
+};
+
+/**
+ * Encrypts auxiliary data such as a thumbnail. Passing a file's own salt ties it to that file's key;
+ * otherwise a new salt is drawn.
+ */
+export const encryptBlob = async (vaultKey: VaultKey, data: Blob, salt: Uint8Array = newSalt()) => {
+  const iv = randomBytes(IV_BYTES);
+  const key = await deriveFileKey(vaultKey, salt);
+  const contents = await encryptBytes(key, iv, await data.arrayBuffer());
+  return {
+    data: new Blob([contents], { type: 'application/octet-stream' }),
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+  };
+};
+
+export const decryptBlob = async (vaultKey: VaultKey, data: Blob, salt: string, iv: string, mimeType = ''): Promise<Blob> => {
+  const key = await deriveFileKey(vaultKey, fromBase64(salt));
+  const contents = await decryptBytes(key, fromBase64(iv), await data.arrayBuffer());
+  return new Blob([contents], { type: mimeType });
+};
+
+export const decryptFileContents = async (vaultKey: VaultKey, data: Blob, encryption: EncryptionInfo, mimeType = ''): Promise<Blob> => {
+  assertSupportedVersion(encryption);
+  const key = await deriveFileKey(vaultKey, fromBase64(encryption.salt));
+  const contents = await decryptBytes(key, fromBase64(encryption.iv), await data.arrayBuffer());
+  return new Blob([contents], { type: mimeType });
+};
@@ -0,0 +1,152 @@
+import { FileType } from '../types';
+
+// Classification of uploads into the locker's categories. The browser's MIME type is often empty
+// or wrong (HEIC, MKV and FLAC files, Office documents on some systems, extensionless files), so
+// the first bytes of the file decide where they can, the extension after that, and the browser's
+// guess only last. New formats are added to FORMAT_RULES; users add their own extension rules.
+
+export const SNIFF_BYTES = 64;
+
+// Bytes expected at an offset; null matches any byte.
+interface BytePattern {
+  offset: number;
+  bytes: (number | null)[];
+}
+
+export interface FormatRule {
+  mimeType: string;
+  type: FileType;
+  extensions: string[];
+  // Any one signature identifies the format; every pattern within a signature must match.
+  signatures?: BytePattern[][];
+  // Archives that other formats are built on. The extension picks the actual format when known.
+  container?: boolean;
+}
+
+export interface Classification {
+  type: FileType;
+  mimeType: string;
+}
+
+// A user's own choice of category for an extension; it wins over everything else.
+export interface TypeRule {
+  extension: string; // Lower case, without the dot
+  type: FileType;
+}
+
+const ascii = (text: string, offset = 0): BytePattern => ({ offset, bytes: [...text].map(char => char.charCodeAt(0)) });
+const bytes = (values: (number | null)[], offset = 0): BytePattern => ({ offset, bytes: values });
+// ISO base media files (MP4, MOV, HEIC, M4A) all start with an `ftyp` box; its brand tells them apart.
+const ftyp = (brand: string) => [ascii('ftyp', 4), ascii(brand, 8)];
+
+// Signature rules are tried in order, so specific ones come before the generic ones they overlap.
+export const FORMAT_RULES: FormatRule[] = [
+  // Photos
+  { mimeType: 'image/jpeg', type: FileType.Photos, extensions: ['jpg', 'jpeg', 'jfif'], signatures: [[bytes([0xff, 0xd8, 0xff])]] },
+  { mimeType: 'image/png', type: FileType.Photos, extensions: ['png'], signatures: [[bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])]] },
+  { mimeType: 'image/gif', type: FileType.Photos, extensions: ['gif'], signatures: [[ascii('GIF87a')], [ascii('GIF89a')]] },
+  { mimeType: 'image/webp', type: FileType.Photos, extensions: ['webp'], signatures: [[ascii('RIFF'), ascii('WEBP', 8)]] },
+  { mimeType: 'image/heic', type: FileType.Photos, extensions: ['heic', 'heif'], signatures: [ftyp('heic'), ftyp('heix'), ftyp('hevc'), ftyp('mif1'), ftyp('msf1')] },
+  { mimeType: 'image/avif', type: FileType.Photos, extensions: ['avif'], signatures: [ftyp('avif')] },
+  // Two bytes are too little to trust over an extension, so BMP is only recognised by name.
+  { mimeType: 'image/bmp', type: FileType.Photos, extensions: ['bmp'] },
+  { mimeType: 'image/tiff', type: FileType.Photos, extensions: ['tif', 'tiff'], signatures: [[ascii('II*\0')], [ascii('MM\0*')]] },
+  { mimeType: 'image/svg+xml', type: FileType.Photos, extensions: ['svg'] },
+
+  // Songs, before videos: M4A shares the MP4 container
+  { mimeType: 'audio/mp4', type: FileType.Songs, extensions: ['m4a', 'm4b'], signatures: [ftyp('M4A '), ftyp('M4B ')] },
+  { mimeType: 'audio/mpeg', type: FileType.Songs, extensions: ['mp3'], signatures: [[ascii('ID3')], [bytes([0xff, 0xfb])], [bytes([0xff, 0xf3])], [bytes([0xff, 0xf2])]] },
+  { mimeType: 'audio/flac', type: FileType.Songs, extensions: ['flac'], signatures: [[ascii('fLaC')]] },
+  { mimeType: 'audio/wav', type: FileType.Songs, extensions: ['wav'], signatures: [[ascii('RIFF'), ascii('WAVE', 8)]] },
+  { mimeType: 'audio/ogg', type: FileType.Songs, extensions: ['ogg', 'oga', 'opus'], signatures: [[ascii('OggS')]] },
+  { mimeType: 'audio/aac', type: FileType.Songs, extensions: ['aac'], signatures: [[bytes([0xff, 0xf1])], [bytes([0xff, 0xf9])]] },
+  { mimeType: 'audio/x-ms-wma', type: FileType.Songs, extensions: ['wma'] },
+
+  // Videos
+  { mimeType: 'video/quicktime', type: FileType.Videos, extensions: ['mov'], signatures: [ftyp('qt  ')] },
+  { mimeType: 'video/mp4', type: FileType.Videos, extensions: ['mp4', 'm4v', '3gp'], signatures: [[ascii('ftyp', 4)]] },
+  { mimeType: 'video/webm', type: FileType.Videos, extensions: ['webm'] },
+  { mimeType: 'video/x-matroska', type: FileType.Videos, extensions: ['mkv'], signatures: [[bytes([0x1a, 0x45, 0xdf, 0xa3])]] },
+  { mimeType: 'video/x-msvideo', type: FileType.Videos, extensions: ['avi'], signatures: [[ascii('RIFF'), ascii('AVI ', 8)]] },
+  { mimeType: 'video/x-ms-wmv', type: FileType.Videos, extensions: ['wmv'] },
+
+  // Documents
+  { mimeType: 'application/pdf', type: FileType.Document, extensions: ['pdf'], signatures: [[ascii('%PDF-')]] },
+  { mimeType: 'application/rtf', type: FileType.Document, extensions: ['rtf'], signatures: [[ascii('{\\rtf')]] },
+  { mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', type: FileType.Document, extensions: ['docx'] },
+  { mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', type: FileType.Document, extensions: ['xlsx'] },
+  { mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation', type: FileType.Document, extensions: ['pptx'] },
+  { mimeType: 'application/vnd.oasis.opendocument.text', type: FileType.Document, extensions: ['odt'] },
+  { mimeType: 'application/vnd.oasis.opendocument.spreadsheet', type: FileType.Document, extensions: ['ods'] },
+  { mimeType: 'application/vnd.oasis.opendocument.presentation', type: FileType.Document, extensions: ['odp'] },
+  { mimeType: 'application/epub+zip', type: FileType.Document, extensions: ['epub'] },
+  { mimeType: 'application/msword', type: FileType.Document, extensions: ['doc'] },
+  { mimeType: 'application/vnd.ms-excel', type: FileType.Document, extensions: ['xls'] },
+  { mimeType: 'application/vnd.ms-powerpoint', type: FileType.Document, extensions: ['ppt'] },
+  { mimeType: 'text/plain', type: FileType.Document, extensions: ['txt', 'log'] },
+  { mimeType: 'text/markdown', type: FileType.Document, extensions: ['md', 'markdown'] },
+  { mimeType: 'text/csv', type: FileType.Document, extensions: ['csv'] },
+  { mimeType: 'application/json', type: FileType.Document, extensions: ['json'] },
+
+  // Containers
+  { mimeType: 'application/zip', type: FileType.Others, extensions: ['zip'], signatures: [[bytes([0x50, 0x4b, 0x03, 0x04])], [bytes([0x50, 0x4b, 0x05, 0x06])]], container: true },
+  { mimeType: 'application/x-ole-storage', type: FileType.Others, extensions: [], signatures: [[bytes([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])]], container: true },
+];
+
+// Browser MIME types the rule table has no entry for still say something about the category.
+const MIME_PREFIXES: [string, FileType][] = [
+  ['image/', FileType.Photos],
+  ['video/', FileType.Videos],
+  ['audio/', FileType.Songs],
+  ['text/', FileType.Document],
+];
+
+// What browsers report when they have no idea; it says nothing about the file.
+const GENERIC_MIME_TYPES = ['', 'application/octet-stream'];
+
+export const extensionOf = (name: string) => name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+
+export const normalizeExtension = (value: string) => value.trim().toLowerCase().replace(/^\.+/, '');
+
+export const hasGenericMimeType = (mimeType?: string) => GENERIC_MIME_TYPES.includes(mimeType ?? '');
+
+/** Whether only the contents can tell what a stored file is: it has no extension and no useful MIME type. */
+export const needsContentsToClassify = (file: { name: string; mimeType?: string }) =>
+  !extensionOf(file.name) && hasGenericMimeType(file.mimeType);
+
+const matches = (head: Uint8Array, pattern: BytePattern) =>
+  pattern.offset + pattern.bytes.length <= head.length &&
+  pattern.bytes.every((value, index) => value === null || head[pattern.offset + index] === value);
+
+/** The format the file's first bytes belong to, if any rule recognises them. */
+export const sniffFormat = (head: Uint8Array) =>
+  FORMAT_RULES.find(rule => rule.signatures?.some(signature => signature.every(pattern => matches(head, pattern))));
+
+/**
+ * Picks a category and MIME type from whatever is known about a file: its name, the MIME type it
+ * was given and, when available, its first bytes. User rules for the extension come first.
+ */
+export const classify = (
+  file: { name: string; mimeType?: string; head?: Uint8Array },
+  customRules: TypeRule[] = [],
+): Classification => {
+  const extension = extensionOf(file.name);
+  const reported = file.mimeType ?? '';
+  const byExtension = FORMAT_RULES.find(rule => rule.extensions.includes(extension));
+  const byMime = FORMAT_RULES.find(rule => rule.mimeType === reported);
+  const sniffed = file.head ? sniffFormat(file.head) : undefined;
+
+  const rule = sniffed && !(sniffed.container && byExtension) ? sniffed : byExtension ?? byMime;
+  const mimeType = rule?.mimeType ?? reported;
+  const custom = extension && customRules.find(rule => rule.extension === extension);
+  if (custom) return { type: custom.type, mimeType };
+  if (rule) return { type: rule.type, mimeType };
+  const prefix = MIME_PREFIXES.find(([start]) => reported.startsWith(start));
+  return { type: prefix ? prefix[1] : FileType.Others, mimeType };
+};
+
+/** Classifies a file about to be uploaded, reading only its first few bytes. */
+export const detectFileType = async (file: File, customRules?: TypeRule[]): Promise<Classification> => {
+  const head = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  return classify({ name: file.name, mimeType: file.type, head }, customRules);
+};
@@ -0,0 +1,318 @@
+import { BlobNotFoundError, StoredDoc, backend } from './backend';
+import { FileDetails, FileType, FileVersion, ManagedFile } from '../types';
+import { VaultKey, decryptFileContents, decryptName, encryptFile, encryptName, hashContents } from './crypto';
+import { PreparedUpload } from './uploadQueue';
+import { generateThumbnail, uploadThumbnail } from './thumbnails';
+import { cacheBlob, forgetCachedBlob, getCachedBlob } from './offlineCache';
+import { normalizeTags } from './tags';
+import { Classification, SNIFF_BYTES, TypeRule, classify, hasGenericMimeType, needsContentsToClassify } from './fileTypes';
+
+const readDetails = async (vaultKey: VaultKey, data: Omit<ManagedFile, 'id'>): Promise<Partial<FileDetails>> => {
+  if (!data.details || !data.detailsEncryption) return {};
+  try {
+    const details = JSON.parse(await decryptName(vaultKey, data.details, data.detailsEncryption)) as FileDetails;
+    return { tags: details.tags, notes: details.notes };
+  } catch (error) {
+    // Losing the tags is better than losing the whole file from the listing.
+    console.warn("Could not read file details:", error);
+    return {};
+  }
+};
+
+/**
+ * Turns a `files` document into a ManagedFile, decrypting its name when it was uploaded encrypted
+ * and its tags and notes when it has any.
+ */
+export const readFileDoc = async (vaultKey: VaultKey, stored: StoredDoc): Promise<ManagedFile> => {
+  const data = stored.data as Omit<ManagedFile, 'id'>;
+  const name = data.encryption ? await decryptName(vaultKey, data.name, data.encryption) : data.name;
+  return { ...data, ...(await readDetails(vaultKey, data)), name, id: stored.id };
+};
+
+// A missing thumbnail only costs a placeholder icon, so it never fails the upload itself.
+const uploadThumbnailSafely = async (vaultKey: VaultKey, storagePath: string, thumbnail: Blob, salt: string) => {
+  try {
+    return await uploadThumbnail(vaultKey, storagePath, thumbnail, salt);
+  } catch (error) {
+    console.warn("Could not upload thumbnail:", error);
+    return null;
+  }
+};
+
+// The largest file the security rules accept; mirrors maxFileBytes() in firestore.rules. Files are
+// encrypted whole in memory, so browsers run out of room not far beyond this anyway.
+export const MAX_FILE_BYTES = 2 * 1024 * 1024 * 1024;
+
+export interface FileUploadOptions {
+  folderId: string | null;
+  contentHash: string; // From hashContents, computed up front to check for duplicates
+  replaces?: ManagedFile; // An identical file to move to the trash once this upload lands
+  newVersionOf?: ManagedFile; // A file with the same name whose current contents this upload supersedes
+  // Set by imports, which bring the category and description along instead of detecting them.
+  classification?: Classification;
+  typeSetByUser?: boolean;
+  details?: FileDetails;
+}
+
+/**
+ * Encrypts a file and describes where it goes; the Firestore record is only written once the
+ * upload queue has finished pushing the bytes.
+ */
+export const prepareFileUpload = async (userId: string, vaultKey: VaultKey, file: File, classification: Classification, options: FileUploadOptions): Promise<PreparedUpload> => {
+  const { folderId, contentHash, replaces, newVersionOf, typeSetByUser, details } = options;
+  const { type, mimeType } = classification;
+  const fileId = crypto.randomUUID();
+  // The object name must not reveal the original file name, which is encrypted.
+  const storagePath = `files/${userId}/${fileId}`;
+  const { data, encryptedName, encryption } = await encryptFile(vaultKey, file);
+  const thumbnail = await generateThumbnail(file, type);
+
+  return {
+    storagePath,
+    data,
+    contentType: 'application/octet-stream',
+    finalize: async () => {
+      const url = await backend.blobs.getDownloadUrl(storagePath);
+      const thumbnailInfo = thumbnail ? await uploadThumbnailSafely(vaultKey, storagePath, thumbnail, encryption.salt) : null;
+      const now = Date.now();
+      if (newVersionOf) {
+        await saveAsNewVersion(newVersionOf.id, {
+          name: encryptedName,
+          size: file.size,
+          url,
+          storagePath,
+          encryption,
+          mimeType,
+          contentHash,
+          ...(thumbnailInfo && { thumbnail: thumbnailInfo }),
+          uploadedAt: now,
+        });
+        return;
+      }
+      const newFileDoc: Omit<ManagedFile, 'id'> = {
+        name: encryptedName,
+        type,
+        size: file.size,
+        url,
+        userId,
+        storagePath,
+        encryption,
+        folderId,
+        mimeType,
+        createdAt: now,
+        updatedAt: now,
+        contentHash,
+        ...(thumbnailInfo && { thumbnail: thumbnailInfo }),
+        ...(typeSetByUser && { typeSetByUser }),
+        ...(details && (details.tags.length > 0 || details.notes) && await encryptDetails(vaultKey, details)),
+      };
+      await backend.db.add('files', newFileDoc);
+      if (replaces) await trashFile(replaces.id);
+    },
+  };
+};
+
+// The fields that differ between versions of one file; everything else belongs to the file itself.
+const VERSION_FIELDS = ['name', 'size', 'url', 'storagePath', 'encryption', 'mimeType', 'contentHash', 'thumbnail'] as const;
+
+/** The current contents of a stored file record, as a version that `replacedAt` is about to supersede. */
+export const currentVersionOf = (data: Omit<ManagedFile, 'id'>, replacedAt: number): FileVersion => ({
+  ...Object.fromEntries(VERSION_FIELDS.filter(field => data[field] != null).map(field => [field, data[field]])),
+  uploadedAt: data.createdAt ?? data.updatedAt ?? replacedAt,
+  replacedAt,
+} as FileVersion);
+
+/**
+ * Makes `version` the current contents of a file and keeps what it replaces at the head of the
+ * version list, after passing the older versions through `otherVersions`. The record is re-read
+ * first so concurrent uploads do not drop each other's versions.
+ */
+export const saveAsNewVersion = async (
+  fileId: string,
+  version: Omit<FileVersion, 'replacedAt'>,
+  otherVersions: (versions: FileVersion[]) => FileVersion[] = versions => versions,
+) => {
+  const data = await backend.db.get('files', fileId) as Omit<ManagedFile, 'id'> | null;
+  if (!data) throw new Error('The file was deleted before its new version could be saved.');
+  const now = Date.now();
+  // Fields a version lacks are cleared rather than left over from the contents it replaces.
+  await backend.db.update('files', fileId, {
+    ...Object.fromEntries(VERSION_FIELDS.map(field => [field, version[field] ?? null])),
+    createdAt: version.uploadedAt,
+    updatedAt: now,
+    versions: [currentVersionOf(data, now), ...otherVersions(data.versions ?? [])],
+  });
+};
+
+/** Moves a file to the trash; it stays restorable until it is purged. */
+export const trashFile = (fileId: string) =>
+  backend.db.update('files', fileId, { deletedAt: Date.now(), updatedAt: Date.now() });
+
+/** Takes a file out of the trash, back into `folderId` (the root when its folder is gone). */
+export const restoreFile = (fileId: string, folderId: string | null) =>
+  backend.db.update('files', fileId, { deletedAt: null, folderId, updatedAt: Date.now() });
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/** Trashed files older than the retention period, which are due for automatic purging. */
+export const getExpiredTrash = (files: ManagedFile[], retentionDays: number, now = Date.now()) =>
+  files.filter(file => file.deletedAt && now - file.deletedAt >= retentionDays * DAY);
+
+export const deleteObjectIfExists = async (storagePath: string) => {
+  try {
+    await backend.blobs.remove(storagePath);
+  } catch (error) {
+    if (!(error instanceof BlobNotFoundError)) throw error;
+  }
+};
+
+/** Removes the Storage objects behind one version of a file, or behind the file's current contents. */
+export const deleteVersionObjects = async (version: Pick<FileVersion, 'storagePath' | 'thumbnail'>) => {
+  await deleteObjectIfExists(version.storagePath);
+  if (version.thumbnail) await deleteObjectIfExists(version.thumbnail.storagePath);
+  forgetCachedBlob(version.storagePath);
+  if (version.thumbnail) forgetCachedBlob(version.thumbnail.storagePath);
+};
+
+// Links to a file serve a re-encrypted copy made when it was shared, which would outlive the file.
+const deleteFileShares = async (file: ManagedFile) => {
+  const shares = await backend.db.list('shares', { field: 'ownerId', value: file.userId });
+  for (const { id, data } of shares.filter(({ data }) => data.fileId === file.id)) {
+    await deleteObjectIfExists(data.storagePath);
+    await backend.db.remove('shares', id);
+  }
+};
+
+/**
+ * Permanently removes a file's Storage objects (with its thumbnail and old versions), the links
+ * shared to it and its Firestore record.
+ */
+export const deleteFile = async (file: ManagedFile) => {
+  await deleteFileShares(file);
+  await backend.blobs.remove(file.storagePath);
+  if (file.thumbnail) await deleteObjectIfExists(file.thumbnail.storagePath);
+  for (const version of file.versions ?? []) await deleteVersionObjects(version);
+  await backend.db.remove('files', file.id);
+  forgetCachedBlob(file.storagePath);
+  if (file.thumbnail) forgetCachedBlob(file.thumbnail.storagePath);
+};
+
+export const moveFile = (fileId: string, folderId: string | null) =>
+  backend.db.update('files', fileId, { folderId, updatedAt: Date.now() });
+
+// Tags and notes are encrypted together like a name, with their own salt.
+const encryptDetails = async (vaultKey: VaultKey, details: FileDetails) => {
+  const normalized: FileDetails = { tags: normalizeTags(details.tags), notes: details.notes.trim() };
+  const { encryptedName, encryption } = await encryptName(vaultKey, JSON.stringify(normalized));
+  return { details: encryptedName, detailsEncryption: encryption };
+};
+
+/** Replaces a file's tags and notes. */
+export const updateFileDetails = async (vaultKey: VaultKey, fileId: string, details: FileDetails) => {
+  await backend.db.update('files', fileId, { ...(await encryptDetails(vaultKey, details)), updatedAt: Date.now() });
+};
+
+/** Files the user moves to another category keep it; reclassifying skips them from then on. */
+export const setFileType = (fileId: string, type: FileType) =>
+  backend.db.update('files', fileId, { type, typeSetByUser: true, updatedAt: Date.now() });
+
+/**
+ * Fetches a file's contents, from the offline cache when a copy is there, and decrypts them if needed.
+ * `keepOffline` saves a copy for next time, as previews do.
+ */
+export const fetchFileBlob = async (vaultKey: VaultKey, file: ManagedFile, options: { keepOffline?: boolean } = {}): Promise<Blob> => {
+  let blob = await getCachedBlob(file.storagePath);
+  if (!blob) {
+    blob = await backend.blobs.getBlob(file.storagePath);
+    if (options.keepOffline) cacheBlob(file.storagePath, blob);
+  }
+  return file.encryption ? decryptFileContents(vaultKey, blob, file.encryption, file.mimeType) : blob;
+};
+
+/**
+ * Generates a thumbnail for a file uploaded before thumbnails existed. Resolves to false when the
+ * file's contents cannot be rendered.
+ */
+export const backfillThumbnail = async (vaultKey: VaultKey, file: ManagedFile) => {
+  const thumbnail = await generateThumbnail(await fetchFileBlob(vaultKey, file), file.type);
+  if (!thumbnail) return false;
+  const thumbnailInfo = await uploadThumbnail(vaultKey, file.storagePath, thumbnail, file.encryption?.salt);
+  await backend.db.update('files', file.id, { thumbnail: thumbnailInfo });
+  return true;
+};
+
+/**
+ * Runs the classification rules over a stored file again, e.g. one uploaded before they existed.
+ * The name and MIME type usually settle it; the contents are only downloaded when neither says
+ * anything. Returns whether the category changed.
+ */
+export const reclassifyFile = async (vaultKey: VaultKey, file: ManagedFile, customRules: TypeRule[]) => {
+  const head = needsContentsToClassify(file)
+    ? new Uint8Array(await (await fetchFileBlob(vaultKey, file)).slice(0, SNIFF_BYTES).arrayBuffer())
+    : undefined;
+  const { type, mimeType } = classify({ name: file.name, mimeType: file.mimeType, head }, customRules);
+  // A specific MIME type already on record is kept; only a missing one is filled in.
+  const betterMimeType = hasGenericMimeType(file.mimeType) && !hasGenericMimeType(mimeType);
+  if (type === file.type && !betterMimeType) return false;
+  await backend.db.update('files', file.id, { type, ...(betterMimeType && { mimeType }), updatedAt: Date.now() });
+  return type !== file.type;
+};
+
+/** Fingerprints a file uploaded before content hashes were recorded, so it can take part in duplicate checks. */
+export const backfillContentHash = async (vaultKey: VaultKey, file: ManagedFile) => {
+  const contentHash = await hashContents(vaultKey, await fetchFileBlob(vaultKey, file));
+  await backend.db.update('files', file.id, { contentHash });
+  return contentHash;
+};
+
+/** Groups files with identical contents; only groups with more than one file are returned. */
+export const findDuplicateGroups = (files: ManagedFile[]): ManagedFile[][] => {
+  const groups = new Map<string, ManagedFile[]>();
+  files.forEach(file => {
+    if (!file.contentHash) return;
+    groups.set(file.contentHash, [...(groups.get(file.contentHash) ?? []), file]);
+  });
+  return [...groups.values()].filter(group => group.length > 1);
+};
+
+/** Hands a blob to the browser as a download under the given file name. */
+export const saveBlob = (blob: Blob, fileName: string) => {
+  const objectUrl = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = objectUrl;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  // Give the browser a moment to start the download before releasing the blob.
+  setTimeout(() => URL.revokeObjectURL(objectUrl), 10000);
+};
+
+// Part of the File System Access API, which TypeScript's DOM library does not describe yet.
+type SaveFilePicker = (options: { suggestedName: string }) => Promise<{ createWritable: () => Promise<WritableStream> }>;
+
+/**
+ * Opens a stream for a download too big to build in memory. Where the browser supports it, the
+ * user picks the file and what is written goes straight to disk; closing the stream saves it and
+ * aborting it throws it away. Elsewhere the parts are collected and handed to saveBlob() on close,
+ * which holds the whole file in memory. Rejects with an AbortError if the user cancels the picker.
+ * Call it straight from the click, since the picker only opens in response to one.
+ */
+export const openSaveStream = async (fileName: string, type: string): Promise<WritableStream<BufferSource | Blob>> => {
+  const showSaveFilePicker = (window as { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+  if (showSaveFilePicker) {
+    try {
+      const handle = await showSaveFilePicker({ suggestedName: fileName });
+      return await handle.createWritable();
+    } catch (error: any) {
+      if (error?.name === 'AbortError') throw error;
+      // E.g. the click was too long ago to open a picker; fall back to a download.
+      console.error("Error opening the save picker:", error);
+    }
+  }
+  const parts: BlobPart[] = [];
+  return new WritableStream({
+    write: part => { parts.push(part); },
+    close: () => saveBlob(new Blob(parts, { type }), fileName),
+  });
+};
@@ -0,0 +1,147 @@
+import { StoredDoc, backend } from './backend';
+import { Folder, ManagedFile } from '../types';
+import { VaultKey, decryptName, encryptName } from './crypto';
+import { trashFile } from './files';
+
+export const readFolderDoc = async (vaultKey: VaultKey, stored: StoredDoc): Promise<Folder> => {
+  const data = stored.data as Omit<Folder, 'id'>;
+  const name = await decryptName(vaultKey, data.name, data.encryption);
+  return { ...data, name, id: stored.id };
+};
+
+/**
+ * Creates a folder and returns its id at once, along with `saved`, which settles when the server
+ * accepts or refuses the write. Offline, Firestore only acknowledges it once the connection is back,
+ * while the folder shows up in the live listing at once and files can be queued into it meanwhile.
+ * A write the server refuses is rolled back out of the listing, and any files queued into the folder
+ * are then listed at the root (see listedFolderId()).
+ */
+export const createFolder = async (userId: string, vaultKey: VaultKey, name: string, parentId: string | null) => {
+  const { encryptedName, encryption } = await encryptName(vaultKey, name);
+  const newFolderDoc: Omit<Folder, 'id'> = { name: encryptedName, parentId, userId, encryption };
+  const id = backend.db.newId('folders');
+  const saved = backend.db.set('folders', id, newFolderDoc);
+  return { id, saved };
+};
+
+/** The folder a file is listed in: the root when its folder does not exist (any more). */
+export const listedFolderId = (folderIds: Set<string>, file: ManagedFile) =>
+  file.folderId && folderIds.has(file.folderId) ? file.folderId : null;
+
+/** Like ensureFolderPath() without creating anything; undefined when part of the path is missing. */
+export const findFolderPath = (folders: Folder[], parentId: string | null, names: string[]) => {
+  let currentId: string | null | undefined = parentId;
+  for (const name of names) {
+    currentId = folders.find(folder => folder.parentId === currentId && folder.name === name)?.id;
+    if (currentId === undefined) break;
+  }
+  return currentId;
+};
+
+/** The folders made by one batch of ensureFolderPath() calls. */
+export interface FolderBatch {
+  /** Folder ids by parent id and name, reused before the live listing has caught up with them. */
+  created: Map<string, string>;
+  /** The writes of the folders created, which settle once the server has accepted or refused them. */
+  saves: Promise<void>[];
+}
+
+export const newFolderBatch = (): FolderBatch => ({ created: new Map(), saves: [] });
+
+/**
+ * Returns the id of the folder reached by following `names` down from `parentId`, creating the
+ * folders that do not exist yet. Pass the same batch for a whole upload or import so folders made
+ * earlier in it are reused, and check its `saves` afterwards.
+ */
+export const ensureFolderPath = async (
+  userId: string,
+  vaultKey: VaultKey,
+  folders: Folder[],
+  batch: FolderBatch,
+  parentId: string | null,
+  names: string[],
+) => {
+  let currentId = parentId;
+  for (const name of names) {
+    const key = `${currentId ?? ''}/${name}`;
+    const existingId = folders.find(folder => folder.parentId === currentId && folder.name === name)?.id ?? batch.created.get(key);
+    if (existingId) {
+      currentId = existingId;
+    } else {
+      const { id, saved } = await createFolder(userId, vaultKey, name, currentId);
+      batch.saves.push(saved);
+      currentId = id;
+    }
+    batch.created.set(key, currentId);
+  }
+  return currentId;
+};
+
+export const renameFolder = async (vaultKey: VaultKey, folderId: string, name: string) => {
+  const { encryptedName, encryption } = await encryptName(vaultKey, name);
+  await backend.db.update('folders', folderId, { name: encryptedName, encryption });
+};
+
+/** Returns the ids of every folder nested anywhere below `folderId`, not including itself. */
+export const getDescendantFolderIds = (folders: Folder[], folderId: string): Set<string> => {
+  const descendants = new Set<string>();
+  const pending = [folderId];
+  while (pending.length > 0) {
+    const parentId = pending.pop();
+    for (const folder of folders) {
+      if (folder.parentId === parentId && !descendants.has(folder.id)) {
+        descendants.add(folder.id);
+        pending.push(folder.id);
+      }
+    }
+  }
+  return descendants;
+};
+
+/** Returns the chain of folders from the root down to and including `folderId`. */
+export const getFolderPath = (folders: Folder[], folderId: string | null): Folder[] => {
+  const byId = new Map(folders.map(folder => [folder.id, folder]));
+  const path: Folder[] = [];
+  let current = folderId ? byId.get(folderId) : undefined;
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+/** A folder may not be moved into itself or into one of its own descendants. */
+export const canMoveFolder = (folders: Folder[], folderId: string, targetParentId: string | null) =>
+  targetParentId === null || (targetParentId !== folderId && !getDescendantFolderIds(folders, folderId).has(targetParentId));
+
+export const moveFolder = async (folders: Folder[], folderId: string, parentId: string | null) => {
+  if (!canMoveFolder(folders, folderId, parentId)) {
+    throw new Error("A folder cannot be moved into itself.");
+  }
+  await backend.db.update('folders', folderId, { parentId });
+};
+
+/** Everything that deleting `folderId` would remove; trashed files are not counted. */
+export const getFolderContents = (folders: Folder[], files: ManagedFile[], folderId: string) => {
+  const folderIds = getDescendantFolderIds(folders, folderId);
+  folderIds.add(folderId);
+  return {
+    folderIds,
+    files: files.filter(file => !file.deletedAt && file.folderId && folderIds.has(file.folderId)),
+  };
+};
+
+/**
+ * Deletes a folder and every nested folder, moving the files inside them to the trash. Files
+ * restored later go back to the root because their folder no longer exists.
+ */
+export const deleteFolder = async (folders: Folder[], files: ManagedFile[], folderId: string) => {
+  const contents = getFolderContents(folders, files, folderId);
+  for (const file of contents.files) {
+    await trashFile(file.id);
+  }
+  // Folder records go last so an interrupted delete leaves nothing orphaned outside the tree.
+  for (const id of contents.folderIds) {
+    await backend.db.remove('folders', id);
+  }
+};
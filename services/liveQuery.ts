@@ -0,0 +1,54 @@
+import { DocFilter, StoredDoc, Unsubscribe, backend } from './backend';
+
+/**
+ * Subscribes to the documents of a collection matching `filter` and keeps a decoded copy of them,
+ * applying each batch of added/modified/removed changes incrementally. Batches are decoded one
+ * after another so a slow decrypt cannot let an older snapshot overwrite a newer one.
+ *
+ * Local writes show up here immediately and are keyed by document id, so callers should not also
+ * patch their own state after writing.
+ */
+export const subscribeToRecords = <T extends { id: string }>(
+  collection: string,
+  filter: DocFilter,
+  read: (doc: StoredDoc) => Promise<T>,
+  onRecords: (records: T[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe => {
+  const records = new Map<string, T>();
+  let pending = Promise.resolve();
+  let active = true;
+
+  const unsubscribe = backend.db.watch(
+    collection,
+    filter,
+    changes => {
+      pending = pending.then(async () => {
+        const decoded = await Promise.all(changes.map(async change => {
+          if (change.type === 'removed') return null;
+          try {
+            return await read(change.doc);
+          } catch (error) {
+            console.error("Error reading document:", change.doc.id, error);
+            return null;
+          }
+        }));
+        if (!active) return;
+        changes.forEach((change, index) => {
+          const record = decoded[index];
+          if (change.type === 'removed' || !record) records.delete(change.doc.id);
+          else records.set(change.doc.id, record);
+        });
+        onRecords(Array.from(records.values()));
+      });
+    },
+    error => {
+      if (active) onError(error);
+    }
+  );
+
+  return () => {
+    active = false;
+    unsubscribe();
+  };
+};
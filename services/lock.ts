@@ -0,0 +1,88 @@
+import { fromBase64, newSalt, toBase64 } from './crypto';
+
+// The locker lock hides the app from whoever walks up to an unattended screen without signing out,
+// so uploads keep going and the vault stays unlocked underneath. Its state is kept per device in
+// localStorage: a reload cannot skip the lock screen, and locking one tab locks the others. Only
+// one account is signed in per browser, so the lock itself is not per user; the PIN is.
+
+export const MAX_UNLOCK_ATTEMPTS = 5;
+export const MIN_PIN_LENGTH = 4;
+
+// A short PIN hashed on this device is only as strong as the attempt limit in front of it; it is
+// a convenience for unlocking, never a way into the account or the vault.
+const PIN_ITERATIONS = 100000;
+
+interface StoredPin {
+  salt: string;
+  hash: string;
+}
+
+const LOCKED_STORAGE_KEY = 'safe-locker:locked';
+const ATTEMPTS_STORAGE_KEY = 'safe-locker:unlock-attempts';
+const pinKey = (userId: string) => `safe-locker:lock-pin:${userId}`;
+
+const LOCK_CHANGE_EVENT = 'lockchange';
+
+const notify = () => window.dispatchEvent(new Event(LOCK_CHANGE_EVENT));
+
+export const isLocked = () => localStorage.getItem(LOCKED_STORAGE_KEY) === '1';
+
+export const lock = () => {
+  localStorage.setItem(LOCKED_STORAGE_KEY, '1');
+  notify();
+};
+
+/** Lifts the lock and forgets failed attempts; also run on every sign-in and sign-out. */
+export const unlock = () => {
+  localStorage.removeItem(LOCKED_STORAGE_KEY);
+  localStorage.removeItem(ATTEMPTS_STORAGE_KEY);
+  notify();
+};
+
+const failedAttempts = () => Number(localStorage.getItem(ATTEMPTS_STORAGE_KEY) ?? 0);
+
+/** Counts a failed unlock and returns how many attempts are left before a forced sign-out. */
+export const recordFailedUnlock = () => {
+  const attempts = failedAttempts() + 1;
+  localStorage.setItem(ATTEMPTS_STORAGE_KEY, String(attempts));
+  return Math.max(0, MAX_UNLOCK_ATTEMPTS - attempts);
+};
+
+export const getRemainingUnlockAttempts = () => Math.max(0, MAX_UNLOCK_ATTEMPTS - failedAttempts());
+
+/** Fires for lock changes in this tab and, through the storage event, in every other tab. */
+export const subscribeToLock = (listener: () => void) => {
+  window.addEventListener(LOCK_CHANGE_EVENT, listener);
+  window.addEventListener('storage', listener);
+  return () => {
+    window.removeEventListener(LOCK_CHANGE_EVENT, listener);
+    window.removeEventListener('storage', listener);
+  };
+};
+
+const hashPin = async (pin: string, salt: Uint8Array) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations: PIN_ITERATIONS }, material, 256);
+  return toBase64(bits);
+};
+
+export const hasLockPin = (userId: string) => localStorage.getItem(pinKey(userId)) !== null;
+
+export const setLockPin = async (userId: string, pin: string) => {
+  const salt = newSalt();
+  const stored: StoredPin = { salt: toBase64(salt), hash: await hashPin(pin, salt) };
+  localStorage.setItem(pinKey(userId), JSON.stringify(stored));
+  notify();
+};
+
+export const removeLockPin = (userId: string) => {
+  localStorage.removeItem(pinKey(userId));
+  notify();
+};
+
+export const verifyLockPin = async (userId: string, pin: string) => {
+  const value = localStorage.getItem(pinKey(userId));
+  if (!value) return false;
+  const stored = JSON.parse(value) as StoredPin;
+  return (await hashPin(pin, fromBase64(stored.salt))) === stored.hash;
+};
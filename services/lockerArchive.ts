@@ -0,0 +1,174 @@
+import { FileDetails, FileType, Folder, ManagedFile } from '../types';
+import { VaultKey } from './crypto';
+import { fetchFileBlob } from './files';
+import { Classification } from './fileTypes';
+import { getFolderPath } from './folders';
+import { ZipChunk, ZipEntry, ZipFormatError, ZipOptions, readZip, uniqueName, writeZip } from './zip';
+
+// A locker export is a ZIP of every file at its folder path, next to a manifest holding what the
+// paths cannot: categories, tags and notes. The contents are decrypted, so the archive is only as
+// private as wherever it is kept. Archives without a manifest can be imported too, by path alone.
+
+export const MANIFEST_NAME = 'safe-locker-manifest.json';
+const MANIFEST_FORMAT = 'safe-locker-export';
+const MANIFEST_VERSION = 1;
+
+export interface ArchivedFile {
+  path: string; // Entry name in the archive
+  name: string;
+  folderPath: string[]; // Folder names from the locker root down
+  type: FileType;
+  typeSetByUser?: boolean;
+  size: number;
+  mimeType?: string;
+  tags?: string[];
+  notes?: string;
+  createdAt?: number;
+  updatedAt?: number;
+}
+
+export interface LockerManifest {
+  format: typeof MANIFEST_FORMAT;
+  version: number;
+  exportedAt: number;
+  folders: string[][]; // Every folder's path, so empty folders come back too
+  files: ArchivedFile[];
+}
+
+/** One file to bring in; its contents are only read when `entry.load()` is called. */
+export interface ImportItem {
+  entry: ZipEntry;
+  name: string;
+  folderPath: string[];
+  lastModified?: number;
+  classification?: Classification;
+  typeSetByUser?: boolean;
+  details?: FileDetails;
+}
+
+export interface SkippedImport {
+  name: string;
+  reason: string;
+}
+
+export interface LockerImport {
+  items: ImportItem[];
+  folders: string[][];
+  skipped: SkippedImport[];
+}
+
+// Slashes in folder and file names would read as extra folders in the archive.
+const pathSegment = (name: string) => name.replace(/[\\/]/g, '_') || '_';
+
+const folderNames = (folders: Folder[], folderId: string | null | undefined) =>
+  getFolderPath(folders, folderId ?? null).map(folder => folder.name);
+
+/**
+ * Writes the export of `files` (the caller leaves out the trash) to `writable` as one ZIP,
+ * loading and decrypting one file at a time. Rejects like writeZip() when canceled.
+ */
+export const exportLocker = async (
+  vaultKey: VaultKey,
+  files: ManagedFile[],
+  folders: Folder[],
+  writable: WritableStream<ZipChunk>,
+  options: ZipOptions = {},
+) => {
+  // Paths are made unique here rather than by writeZip() so the manifest names the real entries.
+  const usedNames = new Set([MANIFEST_NAME.toLowerCase()]);
+  const archived = files.map(file => {
+    const folderPath = folderNames(folders, file.folderId);
+    const entry: ArchivedFile = {
+      path: uniqueName([...folderPath, file.name].map(pathSegment).join('/'), usedNames),
+      name: file.name,
+      folderPath,
+      type: file.type,
+      typeSetByUser: file.typeSetByUser,
+      size: file.size,
+      mimeType: file.mimeType,
+      tags: file.tags,
+      notes: file.notes,
+      createdAt: file.createdAt,
+      updatedAt: file.updatedAt,
+    };
+    return { file, entry };
+  });
+  const manifest: LockerManifest = {
+    format: MANIFEST_FORMAT,
+    version: MANIFEST_VERSION,
+    exportedAt: Date.now(),
+    folders: folders.map(folder => folderNames(folders, folder.id)),
+    files: archived.map(({ entry }) => entry),
+  };
+  const manifestBlob = new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' });
+
+  return writeZip([
+    { name: MANIFEST_NAME, size: manifestBlob.size, load: async () => manifestBlob },
+    ...archived.map(({ file, entry }) => ({
+      name: entry.path,
+      size: file.size,
+      lastModified: file.updatedAt ?? file.createdAt,
+      load: () => fetchFileBlob(vaultKey, file),
+    })),
+  ], writable, options);
+};
+
+const parseManifest = (text: string): LockerManifest => {
+  let manifest: LockerManifest;
+  try {
+    manifest = JSON.parse(text);
+  } catch {
+    throw new ZipFormatError('The archive has a damaged manifest.');
+  }
+  if (manifest?.format !== MANIFEST_FORMAT || !Array.isArray(manifest.files)) {
+    throw new ZipFormatError('The archive has a manifest this app does not recognise.');
+  }
+  if (manifest.version > MANIFEST_VERSION) {
+    throw new ZipFormatError('This export was made by a newer version of the app. Update it and try again.');
+  }
+  return manifest;
+};
+
+// Folders other tools add next to the real contents, such as macOS resource forks.
+const isClutter = (path: string) => path.startsWith('__MACOSX/') || path.split('/').pop() === '.DS_Store';
+
+/**
+ * Works out what importing an archive would bring in. Files the manifest describes keep their
+ * category, tags and notes; any other entry is imported by its path, to be classified on upload.
+ */
+export const readLockerArchive = async (archive: Blob): Promise<LockerImport> => {
+  const entries = await readZip(archive);
+  const manifestEntry = entries.find(entry => entry.name === MANIFEST_NAME);
+  const manifest = manifestEntry ? parseManifest(await (await manifestEntry.load()).text()) : null;
+  const unclaimed = new Map(entries.filter(entry => entry !== manifestEntry && !isClutter(entry.name)).map(entry => [entry.name, entry]));
+  const items: ImportItem[] = [];
+  const skipped: SkippedImport[] = [];
+
+  for (const archived of manifest?.files ?? []) {
+    const entry = unclaimed.get(archived.path);
+    if (!entry) {
+      skipped.push({ name: archived.name, reason: 'missing from the archive' });
+      continue;
+    }
+    unclaimed.delete(archived.path);
+    const knownType = Object.values(FileType).includes(archived.type);
+    const hasDetails = (archived.tags?.length ?? 0) > 0 || !!archived.notes;
+    items.push({
+      entry,
+      name: archived.name,
+      folderPath: archived.folderPath ?? [],
+      lastModified: archived.updatedAt ?? archived.createdAt,
+      ...(knownType && { classification: { type: archived.type, mimeType: archived.mimeType ?? '' } }),
+      ...(knownType && archived.typeSetByUser && { typeSetByUser: true }),
+      ...(hasDetails && { details: { tags: archived.tags ?? [], notes: archived.notes ?? '' } }),
+    });
+  }
+
+  for (const entry of unclaimed.values()) {
+    const folderPath = entry.name.split('/').filter(Boolean);
+    const name = folderPath.pop()!;
+    items.push({ entry, name, folderPath, lastModified: entry.lastModified });
+  }
+
+  return { items, folders: manifest?.folders ?? [], skipped };
+};
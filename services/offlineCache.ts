@@ -0,0 +1,97 @@
+import { backend } from './backend';
+
+// Encrypted Storage objects kept in IndexedDB so previewed files and thumbnails open offline.
+// Everything here is ciphertext exactly as stored remotely; it is useless without the vault key.
+
+const DATABASE_NAME = 'safe-locker-offline';
+const STORE_NAME = 'blobs';
+// Least recently used objects are dropped beyond this.
+const MAX_CACHE_BYTES = 250 * 1024 * 1024;
+
+interface CachedBlob {
+  data: Blob;
+  size: number;
+  usedAt: number;
+}
+
+// The local backends never touch the network, so there is nothing to cache for them.
+const isEnabled = () => (backend.name === 'firebase' || backend.name === 'emulator') && typeof indexedDB !== 'undefined';
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () =>
+  (database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const evictOverflow = async () => {
+  const [keys, entries] = await Promise.all([
+    run<IDBValidKey[]>('readonly', store => store.getAllKeys()),
+    run<CachedBlob[]>('readonly', store => store.getAll()),
+  ]);
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const byAge = keys.map((key, index) => ({ key, entry: entries[index] })).sort((a, b) => a.entry.usedAt - b.entry.usedAt);
+  for (const { key, entry } of byAge) {
+    if (total <= MAX_CACHE_BYTES) break;
+    await run('readwrite', store => store.delete(key));
+    total -= entry.size;
+  }
+};
+
+export const getCachedBlob = async (storagePath: string): Promise<Blob | null> => {
+  if (!isEnabled()) return null;
+  try {
+    const cached = await run<CachedBlob | undefined>('readonly', store => store.get(storagePath));
+    if (!cached) return null;
+    run('readwrite', store => store.put({ ...cached, usedAt: Date.now() }, storagePath)).catch(() => undefined);
+    return cached.data;
+  } catch (error) {
+    console.warn("Could not read the offline cache:", error);
+    return null;
+  }
+};
+
+export const cacheBlob = async (storagePath: string, data: Blob) => {
+  if (!isEnabled() || data.size > MAX_CACHE_BYTES) return;
+  try {
+    await run('readwrite', store => store.put({ data, size: data.size, usedAt: Date.now() } satisfies CachedBlob, storagePath));
+    await evictOverflow();
+  } catch (error) {
+    console.warn("Could not save to the offline cache:", error);
+  }
+};
+
+/** Reads an object through the cache, keeping a copy for next time. */
+export const getBlobKeepingOffline = async (storagePath: string): Promise<Blob> => {
+  const cached = await getCachedBlob(storagePath);
+  if (cached) return cached;
+  const data = await backend.blobs.getBlob(storagePath);
+  cacheBlob(storagePath, data);
+  return data;
+};
+
+export const forgetCachedBlob = async (storagePath: string) => {
+  if (!isEnabled()) return;
+  try {
+    await run('readwrite', store => store.delete(storagePath));
+  } catch (error) {
+    console.warn("Could not update the offline cache:", error);
+  }
+};
+
+export const clearOfflineCache = async () => {
+  if (!isEnabled()) return;
+  await run('readwrite', store => store.clear());
+};
@@ -0,0 +1,119 @@
+import { FileType } from '../types';
+
+export type AuthRouteName = 'login' | 'signup' | 'forgot-password';
+export type SectionRouteName = 'shared' | 'trash' | 'usage' | 'duplicates' | 'activity';
+
+export type Route =
+  | { name: AuthRouteName; next: string | null } // `next` is where to go after signing in
+  | { name: 'folder'; folderId: string | null } // null is the locker root
+  | { name: 'category'; category: FileType }
+  | { name: 'tag'; tag: string } // A smart collection of every file carrying the tag
+  | { name: 'file'; fileId: string }
+  | { name: SectionRouteName }
+  | { name: 'settings' }
+  | { name: 'not-found' };
+
+const AUTH_ROUTES: AuthRouteName[] = ['login', 'signup', 'forgot-password'];
+
+const sectionPaths: Record<SectionRouteName, string> = {
+  shared: 'shared',
+  trash: 'trash',
+  usage: 'storage',
+  duplicates: 'duplicates',
+  activity: 'activity',
+};
+
+export const isAuthRoute = (route: Route): route is Extract<Route, { name: AuthRouteName }> =>
+  (AUTH_ROUTES as string[]).includes(route.name);
+
+const categoryFromSlug = (slug: string) => Object.values(FileType).find(type => type.toLowerCase() === slug.toLowerCase());
+
+// Null for a malformed escape such as `%E0%A4%A`, which decodeURIComponent() throws on.
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+};
+
+// Any placeholder does: a path stays on whatever origin it is resolved against.
+const PLACEHOLDER_ORIGIN = 'https://app.invalid';
+
+/**
+ * The path to go to after signing in, or null unless it stays on this site. Resolving it the way
+ * the browser will catches `//host`, `/\host` and the like, which would otherwise leave the site
+ * or make pushState() throw.
+ */
+const sameSitePath = (next: string | null) => {
+  if (!next?.startsWith('/')) return null;
+  try {
+    const url = new URL(next, PLACEHOLDER_ORIGIN);
+    return url.origin === PLACEHOLDER_ORIGIN ? `${url.pathname}${url.search}${url.hash}` : null;
+  } catch {
+    return null;
+  }
+};
+
+export const parseRoute = (pathname: string, search = ''): Route => {
+  const segments = pathname.split('/').filter(Boolean).map(decodeSegment);
+  if (segments.includes(null)) return { name: 'not-found' };
+  const [first = '', second, ...rest] = segments as string[];
+  if (rest.length > 0) return { name: 'not-found' };
+
+  if ((AUTH_ROUTES as string[]).includes(first) && !second) {
+    // Only same-app paths; anything else could bounce a freshly signed-in user to another site.
+    return { name: first as AuthRouteName, next: sameSitePath(new URLSearchParams(search).get('next')) };
+  }
+  if (!first) return { name: 'folder', folderId: null };
+  if (first === 'folders' && second) return { name: 'folder', folderId: second };
+  if (first === 'files' && second) return { name: 'file', fileId: second };
+  if (first === 'settings' && !second) return { name: 'settings' };
+  if (first === 'tags' && second) return { name: 'tag', tag: second };
+  if (first === 'categories' && second) {
+    const category = categoryFromSlug(second);
+    return category ? { name: 'category', category } : { name: 'not-found' };
+  }
+  const section = (Object.keys(sectionPaths) as SectionRouteName[]).find(key => sectionPaths[key] === first);
+  if (section && !second) return { name: section };
+  return { name: 'not-found' };
+};
+
+export const routeToPath = (route: Route): string => {
+  switch (route.name) {
+    case 'login':
+    case 'signup':
+    case 'forgot-password':
+      return `/${route.name}${route.next ? `?next=${encodeURIComponent(route.next)}` : ''}`;
+    case 'folder': return route.folderId ? `/folders/${encodeURIComponent(route.folderId)}` : '/';
+    case 'category': return `/categories/${route.category.toLowerCase()}`;
+    case 'tag': return `/tags/${encodeURIComponent(route.tag)}`;
+    case 'file': return `/files/${encodeURIComponent(route.fileId)}`;
+    case 'settings': return '/settings';
+    case 'not-found': return '/';
+    default: return `/${sectionPaths[route.name]}`;
+  }
+};
+
+const LOCATION_CHANGE_EVENT = 'locationchange';
+
+/** Moves to a new in-app path; pushState fires no event of its own, so listeners are told here. */
+export const navigate = (path: string, options: { replace?: boolean } = {}) => {
+  if (path === window.location.pathname + window.location.search) return;
+  if (options.replace) window.history.replaceState(null, '', path);
+  else window.history.pushState(null, '', path);
+  window.dispatchEvent(new Event(LOCATION_CHANGE_EVENT));
+};
+
+export const navigateTo = (route: Route, options?: { replace?: boolean }) => navigate(routeToPath(route), options);
+
+export const subscribeToLocation = (listener: () => void) => {
+  window.addEventListener('popstate', listener);
+  window.addEventListener(LOCATION_CHANGE_EVENT, listener);
+  return () => {
+    window.removeEventListener('popstate', listener);
+    window.removeEventListener(LOCATION_CHANGE_EVENT, listener);
+  };
+};
+
+export const getLocationPath = () => window.location.pathname + window.location.search;
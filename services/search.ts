@@ -0,0 +1,79 @@
+import { FileType, ManagedFile } from '../types';
+import { hasTag } from './tags';
+
+export type SortField = 'name' | 'size' | 'date';
+export type SortDirection = 'asc' | 'desc';
+
+export interface SearchCriteria {
+  query: string; // Matched against names, tags and notes
+  type: FileType | null;
+  tags: string[]; // A file must carry every one
+  minSize: number | null; // Bytes, inclusive
+  maxSize: number | null; // Bytes, inclusive
+  uploadedFrom: number | null; // Epoch milliseconds, inclusive
+  uploadedTo: number | null; // Epoch milliseconds, inclusive
+  sortField: SortField;
+  sortDirection: SortDirection;
+}
+
+export const EMPTY_SEARCH: SearchCriteria = {
+  query: '',
+  type: null,
+  tags: [],
+  minSize: null,
+  maxSize: null,
+  uploadedFrom: null,
+  uploadedTo: null,
+  sortField: 'name',
+  sortDirection: 'asc',
+};
+
+/** True when the criteria narrow the file list at all; sorting alone does not count. */
+export const isSearchActive = (criteria: SearchCriteria) =>
+  criteria.query.trim() !== '' ||
+  criteria.type !== null ||
+  criteria.tags.length > 0 ||
+  criteria.minSize !== null ||
+  criteria.maxSize !== null ||
+  criteria.uploadedFrom !== null ||
+  criteria.uploadedTo !== null;
+
+export const matchesSearch = (file: ManagedFile, criteria: SearchCriteria) => {
+  const query = criteria.query.trim().toLocaleLowerCase();
+  if (query && ![file.name, file.notes ?? '', ...(file.tags ?? [])].some(text => text.toLocaleLowerCase().includes(query))) return false;
+  if (criteria.type && file.type !== criteria.type) return false;
+  if (!criteria.tags.every(tag => hasTag(file, tag))) return false;
+  if (criteria.minSize !== null && file.size < criteria.minSize) return false;
+  if (criteria.maxSize !== null && file.size > criteria.maxSize) return false;
+  if (criteria.uploadedFrom !== null || criteria.uploadedTo !== null) {
+    // Records from before upload dates were tracked cannot satisfy a date filter.
+    if (file.createdAt === undefined) return false;
+    if (criteria.uploadedFrom !== null && file.createdAt < criteria.uploadedFrom) return false;
+    if (criteria.uploadedTo !== null && file.createdAt > criteria.uploadedTo) return false;
+  }
+  return true;
+};
+
+const compareBy: Record<SortField, (a: ManagedFile, b: ManagedFile) => number> = {
+  name: (a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }),
+  size: (a, b) => a.size - b.size,
+  date: (a, b) => (a.createdAt ?? 0) - (b.createdAt ?? 0),
+};
+
+export const sortFiles = (files: ManagedFile[], field: SortField, direction: SortDirection) => {
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...files].sort((a, b) => sign * compareBy[field](a, b) || a.name.localeCompare(b.name));
+};
+
+export const searchFiles = (files: ManagedFile[], criteria: SearchCriteria) =>
+  sortFiles(files.filter(file => matchesSearch(file, criteria)), criteria.sortField, criteria.sortDirection);
+
+/**
+ * Drops selected ids that are not among `visible`, so bulk actions never reach files a filter has
+ * hidden. Returns `selected` itself when nothing is dropped, which leaves React state untouched.
+ */
+export const keepVisibleSelection = (selected: Set<string>, visible: ManagedFile[]) => {
+  const visibleIds = new Set(visible.map(file => file.id));
+  const kept = new Set([...selected].filter(id => visibleIds.has(id)));
+  return kept.size === selected.size ? selected : kept;
+};
@@ -0,0 +1,42 @@
+import { backend } from './backend';
+import { TypeRule } from './fileTypes';
+
+// Per-user preferences, stored at settings/{uid}. Missing fields fall back to DEFAULT_SETTINGS.
+export interface UserSettings {
+  trashRetentionDays: number;
+  // Stored bytes, trash included, past which uploads ask before going ahead; null never asks. A
+  // reminder the user sets for themselves, not a limit: nothing stops them raising it or clearing it.
+  usageWarningBytes: number | null;
+  // Old file versions are deleted this long after a newer one replaced them; null keeps them all.
+  versionRetentionDays: number | null;
+  // The locker locks itself after this many idle minutes; null only locks on request.
+  autoLockMinutes: number | null;
+  // Categories the user picked for extensions, applied to uploads and when reclassifying.
+  typeRules: TypeRule[];
+}
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  trashRetentionDays: 30,
+  usageWarningBytes: null,
+  versionRetentionDays: 90,
+  autoLockMinutes: 15,
+  typeRules: [],
+};
+
+export const subscribeToSettings = (userId: string, onSettings: (settings: UserSettings) => void) =>
+  backend.db.watchDoc(
+    'settings',
+    userId,
+    data => {
+      // Settings saved before the rename call the usage warning a quota.
+      const { quotaBytes, ...saved } = (data ?? {}) as Partial<UserSettings> & { quotaBytes?: number | null };
+      onSettings({ ...DEFAULT_SETTINGS, ...(quotaBytes !== undefined && { usageWarningBytes: quotaBytes }), ...saved });
+    },
+    error => {
+      console.error("Error fetching settings:", error);
+      onSettings(DEFAULT_SETTINGS);
+    }
+  );
+
+export const updateSettings = (userId: string, changes: Partial<UserSettings>) =>
+  backend.db.set('settings', userId, changes, { merge: true });
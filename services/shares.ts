@@ -0,0 +1,160 @@
+import { BlobNotFoundError, backend } from './backend';
+import { ManagedFile, ShareEncryptionInfo, ShareRecord } from '../types';
+import {
+  CRYPTO_VERSION, VaultKey, decryptBytes, derivePasswordKey, encryptBytes, exportRawKey, fromBase64, fromBase64Url,
+  generateContentKey, importRawKey, newIv, newSalt, randomBytes, toBase64, toBase64Url,
+} from './crypto';
+import { fetchFileBlob } from './files';
+
+export interface ShareOptions {
+  expiresAt: number | null;
+  maxDownloads: number | null;
+  password: string | null;
+}
+
+export class ShareUnavailableError extends Error {
+  constructor() {
+    super('This link has expired, reached its download count or was revoked.');
+    this.name = 'ShareUnavailableError';
+  }
+}
+
+const SHARE_PATH_PREFIX = '/share/';
+// Anyone holding a link can read the wrapped key and its salt and guess passwords offline, so a
+// share password is stretched harder than the vault passphrase. Older shares used the vault's cost.
+const SHARE_PASSWORD_ITERATIONS = 1_000_000;
+
+// 128 random bits; the id is the only thing standing between a stranger and the share record.
+const newShareId = () => toBase64Url(randomBytes(16));
+
+export const getShareLink = (shareId: string, key?: Uint8Array) =>
+  `${window.location.origin}${SHARE_PATH_PREFIX}${shareId}${key ? `#${toBase64Url(key)}` : ''}`;
+
+export interface ShareLink {
+  shareId: string;
+  key: Uint8Array | null; // From the fragment; null for password-protected shares
+  invalid: boolean; // The fragment is not a key, e.g. because the link was cut short or mangled
+}
+
+/** Reads the share id and optional key from a link of the form /share/{id}#{key}. */
+export const parseShareLocation = (location: Pick<Location, 'pathname' | 'hash'>): ShareLink | null => {
+  if (!location.pathname.startsWith(SHARE_PATH_PREFIX)) return null;
+  const shareId = location.pathname.slice(SHARE_PATH_PREFIX.length).split('/')[0];
+  if (!shareId) return null;
+  const fragment = location.hash.replace(/^#/, '');
+  if (!fragment) return { shareId, key: null, invalid: false };
+  try {
+    return { shareId, key: fromBase64Url(fragment), invalid: false };
+  } catch {
+    return { shareId, key: null, invalid: true };
+  }
+};
+
+/** Whether the record still grants access; the Firestore and Storage rules enforce the same checks. */
+export const isShareActive = (share: ShareRecord, now = Date.now()) =>
+  !share.revoked &&
+  (share.expiresAt === null || now < share.expiresAt) &&
+  (share.maxDownloads === null || share.downloadCount < share.maxDownloads);
+
+/**
+ * Decrypts the file with the vault key, re-encrypts it under a fresh share key and uploads the copy.
+ * Without a password the key is returned for the link fragment, which never reaches the server.
+ */
+export const createShare = async (userId: string, vaultKey: VaultKey, file: ManagedFile, options: ShareOptions) => {
+  const plaintext = await fetchFileBlob(vaultKey, file);
+  const shareKey = await generateContentKey();
+  const rawKey = await exportRawKey(shareKey);
+
+  const iv = newIv();
+  const nameIv = newIv();
+  const contents = await encryptBytes(shareKey, iv, await plaintext.arrayBuffer());
+  const name = await encryptBytes(shareKey, nameIv, new TextEncoder().encode(file.name));
+
+  const encryption: ShareEncryptionInfo = { version: CRYPTO_VERSION, iv: toBase64(iv), nameIv: toBase64(nameIv) };
+  if (options.password) {
+    const passwordSalt = newSalt();
+    const wrapIv = newIv();
+    const wrappingKey = await derivePasswordKey(options.password, passwordSalt, SHARE_PASSWORD_ITERATIONS);
+    encryption.passwordSalt = toBase64(passwordSalt);
+    encryption.passwordIterations = SHARE_PASSWORD_ITERATIONS;
+    encryption.wrapIv = toBase64(wrapIv);
+    encryption.wrappedKey = toBase64(await encryptBytes(wrappingKey, wrapIv, rawKey));
+  }
+
+  const id = newShareId();
+  const storagePath = `shares/${id}/content`;
+  const record: Omit<ShareRecord, 'id'> = {
+    ownerId: userId,
+    fileId: file.id,
+    storagePath,
+    name: toBase64(name),
+    type: file.type,
+    size: file.size,
+    mimeType: file.mimeType ?? '',
+    createdAt: Date.now(),
+    expiresAt: options.expiresAt,
+    maxDownloads: options.maxDownloads,
+    downloadCount: 0,
+    revoked: false,
+    encryption,
+  };
+
+  // The record must exist first: the Storage rules look up its owner before accepting the upload.
+  await backend.db.set('shares', id, record);
+  try {
+    await backend.blobs.upload(storagePath, new Blob([contents]), 'application/octet-stream');
+  } catch (error) {
+    await backend.db.remove('shares', id);
+    throw error;
+  }
+
+  return getShareLink(id, options.password ? undefined : rawKey);
+};
+
+/** Revokes a link and deletes the shared copy; the record is kept so it still shows in the list. */
+export const revokeShare = async (share: ShareRecord) => {
+  await backend.db.update('shares', share.id, { revoked: true });
+  try {
+    await backend.blobs.remove(share.storagePath);
+  } catch (error) {
+    if (!(error instanceof BlobNotFoundError)) throw error;
+  }
+};
+
+export const loadShare = async (shareId: string): Promise<ShareRecord> => {
+  try {
+    const data = await backend.db.get('shares', shareId);
+    if (!data) throw new ShareUnavailableError();
+    return { ...(data as Omit<ShareRecord, 'id'>), id: shareId };
+  } catch (error: any) {
+    // The rules deny reads of inactive shares, which surfaces as permission-denied.
+    if (error instanceof ShareUnavailableError || error?.code === 'permission-denied') throw new ShareUnavailableError();
+    throw error;
+  }
+};
+
+/** Recovers the share key from the link fragment or, for password-protected shares, the password. */
+export const unlockShare = async (share: ShareRecord, linkKey: Uint8Array | null, password: string | null): Promise<CryptoKey> => {
+  const { passwordSalt, passwordIterations, wrappedKey, wrapIv } = share.encryption;
+  if (passwordSalt && wrappedKey && wrapIv) {
+    const wrappingKey = await derivePasswordKey(password ?? '', fromBase64(passwordSalt), passwordIterations);
+    const rawKey = await decryptBytes(wrappingKey, fromBase64(wrapIv), fromBase64(wrappedKey));
+    return importRawKey(new Uint8Array(rawKey));
+  }
+  if (!linkKey) throw new Error('This link is missing its decryption key.');
+  return importRawKey(linkKey);
+};
+
+export const decryptShareName = async (share: ShareRecord, key: CryptoKey) =>
+  new TextDecoder().decode(await decryptBytes(key, fromBase64(share.encryption.nameIv), fromBase64(share.name)));
+
+/**
+ * Fetches the shared copy, counts the download and decrypts it. The copy is fetched first because
+ * the Storage rules refuse it once the count reaches maxDownloads.
+ */
+export const downloadShare = async (share: ShareRecord, key: CryptoKey): Promise<Blob> => {
+  const blob = await backend.blobs.getBlob(share.storagePath);
+  await backend.db.increment('shares', share.id, 'downloadCount');
+  const contents = await decryptBytes(key, fromBase64(share.encryption.iv), await blob.arrayBuffer());
+  return new Blob([contents], { type: share.mimeType });
+};
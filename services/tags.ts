@@ -0,0 +1,26 @@
+import { ManagedFile } from '../types';
+
+export const MAX_TAG_LENGTH = 40;
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+/** Tags compare case-insensitively and ignore stray whitespace, so "Tax  Return" and "tax return" are one tag. */
+export const normalizeTag = (tag: string) =>
+  tag.trim().replace(/\s+/g, ' ').toLocaleLowerCase().slice(0, MAX_TAG_LENGTH);
+
+/** Normalises a list of tags, dropping empty ones and repeats while keeping the user's order. */
+export const normalizeTags = (tags: string[]) =>
+  Array.from(new Set(tags.map(normalizeTag).filter(Boolean)));
+
+/** Every tag in use across `files`, most used first, for autocomplete and the collection tiles. */
+export const collectTags = (files: ManagedFile[]): TagCount[] => {
+  const counts = new Map<string, number>();
+  files.forEach(file => file.tags?.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return Array.from(counts, ([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+export const hasTag = (file: ManagedFile, tag: string) => !!file.tags?.includes(tag);
@@ -0,0 +1,100 @@
+import { backend } from './backend';
+import { FileType, ThumbnailInfo } from '../types';
+import { VaultKey, decryptBlob, encryptBlob, fromBase64 } from './crypto';
+import { getBlobKeepingOffline } from './offlineCache';
+
+const THUMBNAIL_MAX_SIZE = 320;
+const THUMBNAIL_QUALITY = 0.8;
+// Give up on videos the browser cannot decode quickly enough instead of stalling the upload.
+const VIDEO_FRAME_TIMEOUT_MS = 15000;
+
+export const canHaveThumbnail = (type: FileType) => type === FileType.Photos || type === FileType.Videos;
+
+const drawToJpeg = (source: CanvasImageSource, width: number, height: number): Promise<Blob> => {
+  const scale = Math.min(1, THUMBNAIL_MAX_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  canvas.getContext('2d')!.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode thumbnail'))), 'image/jpeg', THUMBNAIL_QUALITY);
+  });
+};
+
+const imageThumbnail = async (data: Blob) => {
+  const bitmap = await createImageBitmap(data);
+  try {
+    return await drawToJpeg(bitmap, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+};
+
+/** Grabs a poster frame a little way into the video, skipping black lead-in frames. */
+const videoPosterFrame = (data: Blob) =>
+  new Promise<Blob>((resolve, reject) => {
+    const url = URL.createObjectURL(data);
+    const video = document.createElement('video');
+    const cleanup = () => {
+      clearTimeout(timeout);
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    };
+    const timeout = setTimeout(() => {
+      cleanup();
+      reject(new Error('Timed out reading video frame'));
+    }, VIDEO_FRAME_TIMEOUT_MS);
+
+    video.muted = true;
+    video.preload = 'auto';
+    video.onloadedmetadata = () => {
+      video.currentTime = Math.min(1, video.duration * 0.1 || 0);
+    };
+    video.onseeked = () => {
+      drawToJpeg(video, video.videoWidth, video.videoHeight).then(resolve, reject).finally(cleanup);
+    };
+    video.onerror = () => {
+      cleanup();
+      reject(new Error('Could not decode video'));
+    };
+    video.src = url;
+  });
+
+/** Returns a downscaled JPEG for photos and videos, or null when none can be made. */
+export const generateThumbnail = async (data: Blob, type: FileType): Promise<Blob | null> => {
+  if (!canHaveThumbnail(type)) return null;
+  try {
+    return type === FileType.Photos ? await imageThumbnail(data) : await videoPosterFrame(data);
+  } catch (error) {
+    console.warn("Could not generate thumbnail:", error);
+    return null;
+  }
+};
+
+export const thumbnailPathFor = (storagePath: string) => `${storagePath}.thumb`;
+
+/** Encrypts and uploads a thumbnail next to the original. Pass the file's salt to reuse its key. */
+export const uploadThumbnail = async (vaultKey: VaultKey, fileStoragePath: string, thumbnail: Blob, salt?: string): Promise<ThumbnailInfo> => {
+  const storagePath = thumbnailPathFor(fileStoragePath);
+  const encrypted = await encryptBlob(vaultKey, thumbnail, salt ? fromBase64(salt) : undefined);
+  await backend.blobs.upload(storagePath, encrypted.data, 'application/octet-stream');
+  return { storagePath, salt: encrypted.salt, iv: encrypted.iv };
+};
+
+// Decrypted thumbnails are small and requested repeatedly while scrolling, so their object URLs
+// are kept for the whole session.
+const thumbnailUrls = new Map<string, Promise<string>>();
+
+export const loadThumbnailUrl = (vaultKey: VaultKey, thumbnail: ThumbnailInfo): Promise<string> => {
+  const cacheKey = `${vaultKey.keyId}:${thumbnail.storagePath}:${thumbnail.iv}`;
+  let url = thumbnailUrls.get(cacheKey);
+  if (!url) {
+    url = getBlobKeepingOffline(thumbnail.storagePath)
+      .then(data => decryptBlob(vaultKey, data, thumbnail.salt, thumbnail.iv, 'image/jpeg'))
+      .then(blob => URL.createObjectURL(blob));
+    url.catch(() => thumbnailUrls.delete(cacheKey));
+    thumbnailUrls.set(cacheKey, url);
+  }
+  return url;
+};
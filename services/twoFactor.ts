@@ -0,0 +1,62 @@
+import { AuthUser, TotpEnrolment, backend } from './backend';
+
+// Two-step verification is Firebase Auth's own TOTP second factor: the code is checked before an ID
+// token is issued, and the token records that it was. twoFactor/{uid} only marks that the account
+// has one, so the security rules can refuse sessions that never passed it, such as one that began
+// on another device before it was turned on. Only a session that passed it may write the marker.
+// Recovery codes are made and checked by the functions in functions/src, which keep only hashes.
+export interface TwoFactorMarker {
+  enabledAt: number;
+}
+
+export const TWO_FACTOR_ISSUER = 'Safe Locker';
+
+/** Checks the password, then starts adding an authenticator app; nothing changes until it is finished. */
+export const startTwoFactorEnrolment = async (password: string): Promise<TotpEnrolment> => {
+  await backend.auth.reauthenticate(password);
+  return backend.auth.startTotpEnrolment(TWO_FACTOR_ISSUER);
+};
+
+const writeMarker = (uid: string) => backend.db.set('twoFactor', uid, { enabledAt: Date.now() } satisfies TwoFactorMarker);
+
+/** Turns the second factor on once `code` shows the authenticator app holds the enrolment's secret. */
+export const enableTwoFactor = async (uid: string, enrolment: TotpEnrolment, code: string) => {
+  await enrolment.finish(code);
+  await writeMarker(uid);
+};
+
+/** The recovery codes to show the user once, replacing any earlier ones. */
+export const createRecoveryCodes = () => backend.auth.createRecoveryCodes();
+
+/** Replaces the recovery codes after checking the password and a current code. */
+export const regenerateRecoveryCodes = async (password: string, code: string): Promise<string[]> => {
+  await backend.auth.reauthenticate(password, code);
+  return backend.auth.createRecoveryCodes();
+};
+
+/** Spends a recovery code to turn the second factor off, then signs in with the password alone. */
+export const signInWithRecoveryCode = async (email: string, password: string, code: string) => {
+  await backend.auth.redeemRecoveryCode(email, code);
+  await backend.auth.signIn(email, password);
+};
+
+/**
+ * Turns the second factor off, which takes the password and a current code. The marker goes first,
+ * while this session can still prove the factor, and comes back if removing the factor fails.
+ */
+export const disableTwoFactor = async (uid: string, password: string, code: string) => {
+  await backend.auth.reauthenticate(password, code);
+  await backend.db.remove('twoFactor', uid);
+  try {
+    await backend.auth.removeSecondFactor();
+  } catch (error) {
+    await writeMarker(uid);
+    throw error;
+  }
+};
+
+/** Writes the marker for an account with a second factor that lacks one, e.g. if enabling was cut short. */
+export const ensureTwoFactorMarker = async (user: AuthUser) => {
+  if (user.secondFactorSince === null || await backend.db.get('twoFactor', user.uid)) return;
+  await writeMarker(user.uid);
+};
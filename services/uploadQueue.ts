@@ -0,0 +1,276 @@
+import { ResumableUpload, UploadProgress, backend } from './backend';
+
+// 'offline' entries wait for the connection and carry on by themselves once it is back.
+export type UploadStatus = 'queued' | 'preparing' | 'running' | 'paused' | 'offline' | 'error' | 'done' | 'canceled';
+
+export interface UploadEntry {
+  id: string; // Stable id for the lifetime of the queue; independent of the file name
+  name: string;
+  status: UploadStatus;
+  bytesTransferred: number;
+  totalBytes: number;
+  speed: number; // Bytes per second, smoothed
+  eta: number | null; // Seconds remaining, null while unknown
+  error?: string;
+}
+
+/** What the queue needs to push one file into Storage, produced lazily when the entry starts. */
+export interface PreparedUpload {
+  storagePath: string;
+  data: Blob;
+  contentType?: string;
+  // Runs once every byte is in Storage, e.g. to write the Firestore record.
+  finalize: () => Promise<void>;
+}
+
+// `context` is whatever the caller passed to add(), e.g. the folder the files were dropped into.
+export type PrepareUpload<C> = (file: File, context: C) => Promise<PreparedUpload>;
+
+interface UploadJob<C> {
+  entry: UploadEntry;
+  file: File;
+  context: C;
+  prepared?: PreparedUpload;
+  preparing?: Promise<PreparedUpload>;
+  task?: ResumableUpload;
+  lastSample?: { time: number; bytes: number };
+}
+
+export const DEFAULT_UPLOAD_CONCURRENCY = 3;
+
+// Weight of the newest sample in the exponential moving average used for speed.
+const SPEED_SMOOTHING = 0.3;
+
+/**
+ * Runs resumable uploads with a concurrency limit. Entries are exposed as immutable snapshots so
+ * React can subscribe through useSyncExternalStore.
+ */
+export class UploadQueue<C = void> {
+  private jobs = new Map<string, UploadJob<C>>();
+  private order: string[] = [];
+  private listeners = new Set<() => void>();
+  private snapshot: UploadEntry[] = [];
+  private online = true;
+
+  constructor(private prepare: PrepareUpload<C>, private concurrency = DEFAULT_UPLOAD_CONCURRENCY) {}
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  add(files: File[], context: C): string[] {
+    const ids = files.map(file => {
+      const id = crypto.randomUUID();
+      this.jobs.set(id, {
+        file,
+        context,
+        entry: { id, name: file.name, status: this.waitingStatus(), bytesTransferred: 0, totalBytes: file.size, speed: 0, eta: null },
+      });
+      this.order.push(id);
+      return id;
+    });
+    this.pump();
+    return ids;
+  }
+
+  pause(id: string) {
+    const job = this.jobs.get(id);
+    if (!job) return;
+    if (job.entry.status === 'running' && job.task) {
+      job.task.pause();
+    } else if (job.entry.status !== 'queued' && job.entry.status !== 'preparing' && job.entry.status !== 'offline') {
+      return;
+    }
+    this.update(job, { status: 'paused', speed: 0, eta: null });
+    this.pump();
+  }
+
+  resume(id: string) {
+    const job = this.jobs.get(id);
+    if (!job || job.entry.status !== 'paused') return;
+    // Goes back through the queue so the concurrency limit still applies; pump() resumes the task.
+    this.update(job, { status: this.waitingStatus() });
+    this.pump();
+  }
+
+  cancel(id: string) {
+    const job = this.jobs.get(id);
+    if (!job || job.entry.status === 'done' || job.entry.status === 'canceled') return;
+    job.task?.cancel();
+    this.update(job, { status: 'canceled', speed: 0, eta: null });
+    this.pump();
+  }
+
+  retry(id: string) {
+    const job = this.jobs.get(id);
+    if (!job || (job.entry.status !== 'error' && job.entry.status !== 'canceled')) return;
+    // A failed task cannot be resumed, but the prepared (already encrypted) data is reused.
+    job.task = undefined;
+    job.lastSample = undefined;
+    this.update(job, { status: this.waitingStatus(), bytesTransferred: 0, speed: 0, eta: null, error: undefined });
+    this.pump();
+  }
+
+  clearFinished() {
+    this.order = this.order.filter(id => {
+      const status = this.jobs.get(id)!.entry.status;
+      if (status === 'done' || status === 'canceled') {
+        this.jobs.delete(id);
+        return false;
+      }
+      return true;
+    });
+    this.emit();
+  }
+
+  /** Cancels every unfinished entry; used when the owning view goes away or the user signs out. */
+  cancelAll() {
+    for (const job of this.jobs.values()) {
+      if (job.entry.status === 'done' || job.entry.status === 'canceled') continue;
+      job.task?.cancel();
+      job.entry = { ...job.entry, status: 'canceled', speed: 0, eta: null };
+    }
+    this.emit();
+  }
+
+  /**
+   * Parks running uploads while the connection is down and holds back new ones, then picks them all
+   * up again once it returns. Files still being encrypted finish that first.
+   */
+  setOnline(online: boolean) {
+    if (online === this.online) return;
+    this.online = online;
+    for (const job of this.jobs.values()) {
+      if (!online && job.entry.status === 'running') {
+        job.task?.pause();
+        job.entry = { ...job.entry, status: 'offline', speed: 0, eta: null };
+      } else if (!online && job.entry.status === 'queued') {
+        job.entry = { ...job.entry, status: 'offline' };
+      } else if (online && job.entry.status === 'offline') {
+        job.entry = { ...job.entry, status: 'queued' };
+      }
+    }
+    this.emit();
+    this.pump();
+  }
+
+  private waitingStatus(): UploadStatus {
+    return this.online ? 'queued' : 'offline';
+  }
+
+  private activeCount() {
+    let count = 0;
+    for (const job of this.jobs.values()) {
+      if (job.entry.status === 'running' || job.entry.status === 'preparing') count++;
+    }
+    return count;
+  }
+
+  private pump() {
+    if (!this.online) return;
+    for (const id of this.order) {
+      if (this.activeCount() >= this.concurrency) return;
+      const job = this.jobs.get(id)!;
+      if (job.entry.status === 'queued') this.start(job);
+    }
+  }
+
+  private async start(job: UploadJob<C>) {
+    if (job.task) {
+      job.lastSample = { time: Date.now(), bytes: job.entry.bytesTransferred };
+      this.update(job, { status: 'running' });
+      job.task.resume();
+      return;
+    }
+
+    if (!job.prepared) {
+      this.update(job, { status: 'preparing' });
+      try {
+        // Shared so a pause/resume during preparation does not encrypt the file twice.
+        job.preparing ??= this.prepare(job.file, job.context);
+        job.prepared = await job.preparing;
+      } catch (error) {
+        job.preparing = undefined;
+        this.fail(job, error);
+        return;
+      }
+      // The user may have paused or canceled while the file was being prepared, or a resume
+      // during preparation may already have started the task.
+      if (job.entry.status !== 'preparing' || job.task) {
+        this.pump();
+        return;
+      }
+      if (!this.online) {
+        this.update(job, { status: 'offline' });
+        return;
+      }
+    }
+
+    const { storagePath, data, contentType } = job.prepared;
+    job.lastSample = { time: Date.now(), bytes: 0 };
+    this.update(job, { status: 'running', totalBytes: data.size });
+
+    const task: ResumableUpload = backend.blobs.uploadResumable(storagePath, data, contentType, {
+      onProgress: progress => this.onProgress(job, task, progress),
+      onError: error => {
+        if (job.task !== task || job.entry.status === 'canceled') return;
+        this.fail(job, error);
+      },
+      onComplete: async () => {
+        if (job.task !== task) return;
+        try {
+          await job.prepared!.finalize();
+          this.update(job, { status: 'done', bytesTransferred: job.entry.totalBytes, speed: 0, eta: 0 });
+        } catch (error) {
+          this.fail(job, error);
+        }
+        this.pump();
+      },
+    });
+    job.task = task;
+  }
+
+  private onProgress(job: UploadJob<C>, task: ResumableUpload, snapshot: UploadProgress) {
+    if (job.task !== task || job.entry.status !== 'running') return;
+    const now = Date.now();
+    const last = job.lastSample ?? { time: now, bytes: snapshot.bytesTransferred };
+    const elapsed = (now - last.time) / 1000;
+    let speed = job.entry.speed;
+    if (elapsed > 0) {
+      const sample = (snapshot.bytesTransferred - last.bytes) / elapsed;
+      speed = speed === 0 ? sample : SPEED_SMOOTHING * sample + (1 - SPEED_SMOOTHING) * speed;
+    }
+    job.lastSample = { time: now, bytes: snapshot.bytesTransferred };
+    const remaining = snapshot.totalBytes - snapshot.bytesTransferred;
+    this.update(job, {
+      bytesTransferred: snapshot.bytesTransferred,
+      totalBytes: snapshot.totalBytes,
+      speed,
+      eta: speed > 0 ? remaining / speed : null,
+    });
+  }
+
+  private fail(job: UploadJob<C>, error: unknown) {
+    console.error("Error uploading file:", job.file.name, error);
+    this.update(job, {
+      status: 'error',
+      speed: 0,
+      eta: null,
+      error: error instanceof Error ? error.message : 'Upload failed',
+    });
+    this.pump();
+  }
+
+  private update(job: UploadJob<C>, changes: Partial<UploadEntry>) {
+    job.entry = { ...job.entry, ...changes };
+    this.emit();
+  }
+
+  private emit() {
+    this.snapshot = this.order.map(id => this.jobs.get(id)!.entry);
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,48 @@
+import { FileType, ManagedFile } from '../types';
+
+export interface TypeUsage {
+  count: number;
+  bytes: number;
+}
+
+export interface StorageUsage {
+  totalBytes: number;
+  // Trashed files still occupy Storage until they are purged, so they count towards the usage warning.
+  trashBytes: number;
+  // Earlier versions kept alongside files, trashed files' included.
+  versionBytes: number;
+  versionCount: number;
+  byType: Record<FileType, TypeUsage>;
+  largestFiles: ManagedFile[];
+}
+
+const sumVersionBytes = (file: ManagedFile) => (file.versions ?? []).reduce((total, version) => total + version.size, 0);
+
+/** Space a file takes up in Storage, its old versions included. */
+export const getStoredBytes = (file: ManagedFile) => file.size + sumVersionBytes(file);
+
+const sumBytes = (files: ManagedFile[]) => files.reduce((total, file) => total + getStoredBytes(file), 0);
+
+/** Breaks down the space used by a user's files, trash included, by file type. */
+export const getStorageUsage = (files: ManagedFile[], largestCount = 10): StorageUsage => {
+  const byType = Object.fromEntries(Object.values(FileType).map(type => [type, { count: 0, bytes: 0 }])) as Record<FileType, TypeUsage>;
+  files.forEach(file => {
+    byType[file.type].count++;
+    byType[file.type].bytes += file.size;
+  });
+  return {
+    totalBytes: sumBytes(files),
+    trashBytes: sumBytes(files.filter(file => file.deletedAt)),
+    versionBytes: files.reduce((total, file) => total + sumVersionBytes(file), 0),
+    versionCount: files.reduce((total, file) => total + (file.versions?.length ?? 0), 0),
+    byType,
+    largestFiles: [...files].sort((a, b) => b.size - a.size).slice(0, largestCount),
+  };
+};
+
+/**
+ * Bytes left before the user's usage warning, or Infinity without one. It is only a reminder: the
+ * security rules cannot sum a user's files, so no limit on them is enforced anywhere.
+ */
+export const getBytesBeforeWarning = (usedBytes: number, usageWarningBytes: number | null) =>
+  usageWarningBytes === null ? Infinity : Math.max(0, usageWarningBytes - usedBytes);
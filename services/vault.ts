@@ -0,0 +1,58 @@
+import { backend } from './backend';
+import {
+  CRYPTO_VERSION, VaultKey, decryptBytes, deriveFileKey, deriveVaultKey, encryptBytes, fromBase64, newSalt, randomBytes, toBase64,
+} from './crypto';
+
+// Stored at vaults/{uid}. Holds only what is needed to re-derive and check the key, never the key itself.
+export interface VaultRecord {
+  version: number;
+  keyId: string;
+  salt: string; // base64 PBKDF2 salt
+  verifier: string; // base64 AES-GCM ciphertext of VERIFIER_PLAINTEXT
+  verifierIv: string;
+}
+
+const VERIFIER_PLAINTEXT = 'safe-locker-vault';
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('The vault passphrase is incorrect.');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+export const loadVault = async (uid: string): Promise<VaultRecord | null> =>
+  (await backend.db.get('vaults', uid)) as VaultRecord | null;
+
+export const createVault = async (uid: string, passphrase: string): Promise<VaultKey> => {
+  const salt = newSalt();
+  const keyId = crypto.randomUUID();
+  const vaultKey = await deriveVaultKey(passphrase, salt, keyId);
+
+  const verifierIv = randomBytes(12);
+  const verifierKey = await deriveFileKey(vaultKey, salt);
+  const verifier = await encryptBytes(verifierKey, verifierIv, new TextEncoder().encode(VERIFIER_PLAINTEXT));
+
+  const record: VaultRecord = {
+    version: CRYPTO_VERSION,
+    keyId,
+    salt: toBase64(salt),
+    verifier: toBase64(verifier),
+    verifierIv: toBase64(verifierIv),
+  };
+  await backend.db.set('vaults', uid, record);
+  return vaultKey;
+};
+
+export const unlockVault = async (record: VaultRecord, passphrase: string): Promise<VaultKey> => {
+  const salt = fromBase64(record.salt);
+  const vaultKey = await deriveVaultKey(passphrase, salt, record.keyId);
+  try {
+    const verifierKey = await deriveFileKey(vaultKey, salt);
+    await decryptBytes(verifierKey, fromBase64(record.verifierIv), fromBase64(record.verifier));
+  } catch {
+    // AES-GCM authentication fails when the derived key is wrong.
+    throw new WrongPassphraseError();
+  }
+  return vaultKey;
+};
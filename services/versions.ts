@@ -0,0 +1,44 @@
+import { FileVersion, ManagedFile } from '../types';
+import { backend } from './backend';
+import { deleteVersionObjects, saveAsNewVersion } from './files';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const isSameVersion = (a: FileVersion, b: FileVersion) => a.storagePath === b.storagePath;
+
+/**
+ * A file as it was at `version`, for previewing and downloading with the usual file helpers. The
+ * name is the file's decrypted one: every version of a file shares it.
+ */
+export const versionAsFile = (file: ManagedFile, version: FileVersion): ManagedFile => ({
+  ...file,
+  size: version.size,
+  url: version.url,
+  storagePath: version.storagePath,
+  encryption: version.encryption,
+  mimeType: version.mimeType,
+  contentHash: version.contentHash,
+  thumbnail: version.thumbnail,
+  createdAt: version.uploadedAt,
+  versions: undefined,
+});
+
+/** Makes an old version current again; the contents it replaces become a version in turn. */
+export const restoreFileVersion = (file: ManagedFile, version: FileVersion) =>
+  saveAsNewVersion(file.id, version, versions => versions.filter(other => !isSameVersion(other, version)));
+
+/** Drops versions from a file's history and deletes their contents. */
+export const deleteFileVersions = async (fileId: string, doomed: FileVersion[]) => {
+  const data = await backend.db.get('files', fileId) as Omit<ManagedFile, 'id'> | null;
+  if (!data) return;
+  const versions = (data.versions ?? []).filter(version => !doomed.some(other => isSameVersion(other, version)));
+  // The record goes first: a version listed without its contents would fail to open, unlike stray objects.
+  await backend.db.update('files', fileId, { versions, updatedAt: Date.now() });
+  for (const version of doomed) await deleteVersionObjects(version);
+};
+
+/** Old versions replaced longer ago than the retention period, grouped by file; none without a period. */
+export const getExpiredVersions = (files: ManagedFile[], retentionDays: number | null, now = Date.now()) =>
+  retentionDays === null ? [] : files
+    .map(file => ({ file, versions: (file.versions ?? []).filter(version => now - version.replacedAt >= retentionDays * DAY) }))
+    .filter(({ versions }) => versions.length > 0);
@@ -0,0 +1,337 @@
+// Minimal ZIP writer: entries are stored uncompressed, which is what encrypted-at-rest photos and
+// videos need anyway, and keeps the archive buildable entirely in the browser. The reader handles
+// what this writer produces plus the deflated entries most other tools write. Both use ZIP64
+// records where sizes and offsets pass 4 GB or there are more than 65,535 entries.
+
+export interface ZipEntry {
+  name: string;
+  size: number; // Expected size, used for progress before the data is loaded
+  lastModified?: number;
+  load: () => Promise<Blob>;
+}
+
+export interface ZipOptions {
+  signal?: AbortSignal;
+  onProgress?: (processedBytes: number, totalBytes: number) => void;
+}
+
+/** What the writer hands to its stream: headers as buffers, contents as the entries' own blobs. */
+export type ZipChunk = BufferSource | Blob;
+
+// Past these, a field holds its maximum and the real value goes in a ZIP64 record.
+const MAX_UINT16 = 0xffff;
+const MAX_UINT32 = 0xffffffff;
+const ZIP64_EXTRA_ID = 0x0001;
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const UTF8_FLAG = 0x0800;
+const CRC_CHUNK_BYTES = 4 * 1024 * 1024;
+
+export class ZipFormatError extends Error {
+  constructor(message = 'This is not a ZIP archive this app can read.') {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+// Slicing-by-8 tables: table k advances the CRC over a byte followed by k zero bytes, so eight
+// bytes are folded in per step. Multi-gigabyte exports spend most of their time here.
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256 * 8);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  for (let n = 0; n < 256; n++) {
+    for (let k = 256; k < table.length; k += 256) table[k + n] = (table[k - 256 + n] >>> 8) ^ table[table[k - 256 + n] & 0xff];
+  }
+  return table;
+})();
+
+const updateCrc = (crc: number, bytes: Uint8Array) => {
+  let c = crc;
+  let i = 0;
+  for (const end = bytes.length - (bytes.length % 8); i < end; i += 8) {
+    const low = c ^ (bytes[i] | (bytes[i + 1] << 8) | (bytes[i + 2] << 16) | (bytes[i + 3] << 24));
+    c = CRC_TABLE[1792 + (low & 0xff)] ^ CRC_TABLE[1536 + ((low >>> 8) & 0xff)] ^ CRC_TABLE[1280 + ((low >>> 16) & 0xff)] ^ CRC_TABLE[1024 + (low >>> 24)]
+      ^ CRC_TABLE[768 + bytes[i + 4]] ^ CRC_TABLE[512 + bytes[i + 5]] ^ CRC_TABLE[256 + bytes[i + 6]] ^ CRC_TABLE[bytes[i + 7]];
+  }
+  for (; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return c;
+};
+
+/** CRC-32 of a blob, read in chunks so large files do not have to be copied in one piece. */
+const crc32 = async (data: Blob, signal?: AbortSignal, onChunk?: (bytes: number) => void) => {
+  let crc = 0xffffffff;
+  for (let offset = 0; offset < data.size; offset += CRC_CHUNK_BYTES) {
+    signal?.throwIfAborted();
+    const chunk = new Uint8Array(await data.slice(offset, offset + CRC_CHUNK_BYTES).arrayBuffer());
+    crc = updateCrc(crc, chunk);
+    onChunk?.(chunk.length);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosDateTime = (time: number) => {
+  const date = new Date(time);
+  // DOS dates start in 1980; anything older is clamped.
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+};
+
+const fromDosDateTime = (time: number, date: number) =>
+  new Date(1980 + (date >> 9), ((date >> 5) & 0xf) - 1, date & 0x1f, time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2).getTime();
+
+/** Appends " (2)", " (3)"... before the extension so every path in the archive is unique. */
+export const uniqueName = (name: string, used: Set<string>) => {
+  let candidate = name;
+  const dot = name.lastIndexOf('.');
+  const [base, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) candidate = `${base} (${n})${extension}`;
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+// DataView has no 64-bit number accessors; ZIP64 values stay well within a double's 53 bits.
+const setUint64 = (view: DataView, offset: number, value: number) => {
+  view.setUint32(offset, value >>> 0, true);
+  view.setUint32(offset + 4, Math.floor(value / 2 ** 32), true);
+};
+
+const getUint64 = (view: DataView, offset: number) =>
+  view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 2 ** 32;
+
+/** A ZIP64 extended information field holding `values`, in the order the format lists them; empty without any. */
+const zip64Extra = (values: number[]) => {
+  if (values.length === 0) return new Uint8Array(0);
+  const extra = new DataView(new ArrayBuffer(4 + 8 * values.length));
+  extra.setUint16(0, ZIP64_EXTRA_ID, true);
+  extra.setUint16(2, 8 * values.length, true);
+  values.forEach((value, index) => setUint64(extra, 4 + 8 * index, value));
+  return new Uint8Array(extra.buffer);
+};
+
+const localHeader = (name: Uint8Array, crc: number, size: number, dos: { time: number; date: number }) => {
+  const isZip64 = size >= MAX_UINT32;
+  const extra = zip64Extra(isZip64 ? [size, size] : []);
+  const header = new DataView(new ArrayBuffer(30 + name.length + extra.byteLength));
+  header.setUint32(0, LOCAL_SIGNATURE, true);
+  header.setUint16(4, isZip64 ? 45 : 20, true); // Version needed to extract
+  header.setUint16(6, UTF8_FLAG, true);
+  header.setUint16(8, 0, true); // Stored
+  header.setUint16(10, dos.time, true);
+  header.setUint16(12, dos.date, true);
+  header.setUint32(14, crc, true);
+  header.setUint32(18, Math.min(size, MAX_UINT32), true);
+  header.setUint32(22, Math.min(size, MAX_UINT32), true);
+  header.setUint16(26, name.length, true);
+  header.setUint16(28, extra.byteLength, true);
+  new Uint8Array(header.buffer).set(name, 30);
+  new Uint8Array(header.buffer).set(extra, 30 + name.length);
+  return header.buffer;
+};
+
+const centralHeader = (name: Uint8Array, crc: number, size: number, dos: { time: number; date: number }, offset: number) => {
+  const extra = zip64Extra([...(size >= MAX_UINT32 ? [size, size] : []), ...(offset >= MAX_UINT32 ? [offset] : [])]);
+  const header = new DataView(new ArrayBuffer(46 + name.length + extra.byteLength));
+  header.setUint32(0, CENTRAL_SIGNATURE, true);
+  header.setUint16(4, 45, true); // Version made by
+  header.setUint16(6, extra.byteLength > 0 ? 45 : 20, true);
+  header.setUint16(8, UTF8_FLAG, true);
+  header.setUint16(10, 0, true);
+  header.setUint16(12, dos.time, true);
+  header.setUint16(14, dos.date, true);
+  header.setUint32(16, crc, true);
+  header.setUint32(20, Math.min(size, MAX_UINT32), true);
+  header.setUint32(24, Math.min(size, MAX_UINT32), true);
+  header.setUint16(28, name.length, true);
+  header.setUint16(30, extra.byteLength, true);
+  // Comment, disk number, internal and external attributes are all zero.
+  header.setUint32(42, Math.min(offset, MAX_UINT32), true);
+  new Uint8Array(header.buffer).set(name, 46);
+  new Uint8Array(header.buffer).set(extra, 46 + name.length);
+  return header.buffer;
+};
+
+/**
+ * The records after the central directory: the classic end record, preceded by the ZIP64 end
+ * record and its locator when any of its fields overflow.
+ */
+const endRecords = (entryCount: number, directorySize: number, directoryOffset: number) => {
+  const isZip64 = entryCount >= MAX_UINT16 || directorySize >= MAX_UINT32 || directoryOffset >= MAX_UINT32;
+  const records = new DataView(new ArrayBuffer((isZip64 ? 56 + 20 : 0) + 22));
+  let position = 0;
+  if (isZip64) {
+    records.setUint32(0, ZIP64_EOCD_SIGNATURE, true);
+    setUint64(records, 4, 44); // Size of the rest of the record
+    records.setUint16(12, 45, true);
+    records.setUint16(14, 45, true);
+    setUint64(records, 24, entryCount);
+    setUint64(records, 32, entryCount);
+    setUint64(records, 40, directorySize);
+    setUint64(records, 48, directoryOffset);
+    records.setUint32(56, ZIP64_LOCATOR_SIGNATURE, true);
+    setUint64(records, 64, directoryOffset + directorySize);
+    records.setUint32(72, 1, true); // Total number of disks
+    position = 76;
+  }
+  records.setUint32(position, EOCD_SIGNATURE, true);
+  records.setUint16(position + 8, Math.min(entryCount, MAX_UINT16), true);
+  records.setUint16(position + 10, Math.min(entryCount, MAX_UINT16), true);
+  records.setUint32(position + 12, Math.min(directorySize, MAX_UINT32), true);
+  records.setUint32(position + 16, Math.min(directoryOffset, MAX_UINT32), true);
+  return records.buffer;
+};
+
+/**
+ * Writes a ZIP archive of the entries to `writable`, loading them one at a time so only one
+ * entry's contents are held at once, and closes it. On failure the stream is aborted, which
+ * discards a partly written file, and the promise rejects; with the signal's AbortError when canceled.
+ */
+export const writeZip = async (entries: ZipEntry[], writable: WritableStream<ZipChunk>, { signal, onProgress }: ZipOptions = {}) => {
+  const writer = writable.getWriter();
+  try {
+    const totalBytes = entries.reduce((total, entry) => total + entry.size, 0);
+    const encoder = new TextEncoder();
+    const usedNames = new Set<string>();
+    // The central directory is small next to the contents, and it has to follow them.
+    const directory: ArrayBuffer[] = [];
+    let offset = 0;
+    let processedBytes = 0;
+    onProgress?.(0, totalBytes);
+
+    for (const entry of entries) {
+      signal?.throwIfAborted();
+      const data = await entry.load();
+      const name = encoder.encode(uniqueName(entry.name, usedNames));
+      const crc = await crc32(data, signal, bytes => {
+        processedBytes += bytes;
+        onProgress?.(processedBytes, totalBytes);
+      });
+      const dos = toDosDateTime(entry.lastModified ?? Date.now());
+
+      const header = localHeader(name, crc, data.size, dos);
+      await writer.write(header);
+      await writer.write(data);
+      directory.push(centralHeader(name, crc, data.size, dos, offset));
+      offset += header.byteLength + data.size;
+    }
+
+    let directorySize = 0;
+    for (const header of directory) {
+      await writer.write(header);
+      directorySize += header.byteLength;
+    }
+    await writer.write(endRecords(entries.length, directorySize, offset));
+    await writer.close();
+  } catch (error) {
+    await writer.abort(error).catch(() => {});
+    throw error;
+  }
+};
+
+// The end record is 22 bytes, followed by a comment of up to 64 KB.
+const MAX_EOCD_SEARCH = 22 + 0xffff;
+
+const readView = async (archive: Blob, start: number, end: number) =>
+  new DataView(await archive.slice(start, end).arrayBuffer());
+
+/** Reads the ZIP64 end record the locator just before the classic end record points to. */
+const readZip64End = async (archive: Blob, eocdOffset: number) => {
+  if (eocdOffset < 20) throw new ZipFormatError();
+  const locator = await readView(archive, eocdOffset - 20, eocdOffset);
+  if (locator.getUint32(0, true) !== ZIP64_LOCATOR_SIGNATURE) throw new ZipFormatError();
+  const recordOffset = getUint64(locator, 8);
+  const record = await readView(archive, recordOffset, recordOffset + 56);
+  if (record.byteLength < 56 || record.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) throw new ZipFormatError();
+  return { entryCount: getUint64(record, 32), directorySize: getUint64(record, 40), directoryOffset: getUint64(record, 48) };
+};
+
+/**
+ * Lists the files in a ZIP archive without reading their contents; each entry's `load` reads it
+ * when needed. Folders are left out, as folder structure lives in the paths. Rejects with
+ * ZipFormatError for anything that is not a plain or ZIP64 archive, including encrypted ones.
+ */
+export const readZip = async (archive: Blob): Promise<ZipEntry[]> => {
+  const tailStart = Math.max(0, archive.size - MAX_EOCD_SEARCH);
+  const tail = await readView(archive, tailStart, archive.size);
+  let eocd = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new ZipFormatError();
+  let entryCount = tail.getUint16(eocd + 10, true);
+  let directorySize = tail.getUint32(eocd + 12, true);
+  let directoryOffset = tail.getUint32(eocd + 16, true);
+  if (entryCount === MAX_UINT16 || directorySize === MAX_UINT32 || directoryOffset === MAX_UINT32) {
+    ({ entryCount, directorySize, directoryOffset } = await readZip64End(archive, tailStart + eocd));
+  }
+  if (directoryOffset + directorySize > archive.size) throw new ZipFormatError();
+
+  const directory = await readView(archive, directoryOffset, directoryOffset + directorySize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let position = 0;
+  for (let index = 0; index < entryCount; index++) {
+    if (position + 46 > directory.byteLength || directory.getUint32(position, true) !== CENTRAL_SIGNATURE) throw new ZipFormatError();
+    const flags = directory.getUint16(position + 8, true);
+    const method = directory.getUint16(position + 10, true);
+    const lastModified = fromDosDateTime(directory.getUint16(position + 12, true), directory.getUint16(position + 14, true));
+    let compressedSize = directory.getUint32(position + 20, true);
+    let size = directory.getUint32(position + 24, true);
+    const nameLength = directory.getUint16(position + 28, true);
+    const extraLength = directory.getUint16(position + 30, true);
+    const commentLength = directory.getUint16(position + 32, true);
+    let localOffset = directory.getUint32(position + 42, true);
+    const name = decoder.decode(new Uint8Array(directory.buffer, directory.byteOffset + position + 46, nameLength));
+
+    // A ZIP64 field holds, in this order, just the values whose own fields are at their maximum.
+    for (let field = position + 46 + nameLength; field + 4 <= position + 46 + nameLength + extraLength;) {
+      const id = directory.getUint16(field, true);
+      const length = directory.getUint16(field + 2, true);
+      if (id === ZIP64_EXTRA_ID) {
+        let value = field + 4;
+        const next = () => {
+          if (value + 8 > field + 4 + length) throw new ZipFormatError();
+          value += 8;
+          return getUint64(directory, value - 8);
+        };
+        if (size === MAX_UINT32) size = next();
+        if (compressedSize === MAX_UINT32) compressedSize = next();
+        if (localOffset === MAX_UINT32) localOffset = next();
+      }
+      field += 4 + length;
+    }
+    position += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (flags & 0x1) throw new ZipFormatError('Password-protected ZIP archives are not supported.');
+    if (method !== 0 && method !== 8) throw new ZipFormatError(`${name} uses a compression method this app cannot read.`);
+
+    entries.push({
+      name,
+      size,
+      lastModified,
+      load: async () => {
+        // The local header repeats the name but may carry a different extra field.
+        const local = await readView(archive, localOffset, localOffset + 30);
+        if (local.getUint32(0, true) !== LOCAL_SIGNATURE) throw new ZipFormatError();
+        const start = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+        const data = archive.slice(start, start + compressedSize);
+        if (method === 0) return data;
+        return new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+      },
+    });
+  }
+  return entries;
+};
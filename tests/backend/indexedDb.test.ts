@@ -0,0 +1,74 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createIndexedDbPersistence } from '../../services/backend/indexedDb';
+import { MemoryPersistence, createMemoryBackend } from '../../services/backend/memory';
+
+beforeEach(() => {
+  // A fresh database per test, as if the browser had never run the app.
+  globalThis.indexedDB = new IDBFactory();
+});
+
+// Saves are coalesced behind a short delay; waits until the persisted state has caught up.
+const waitForSave = async (persistence: MemoryPersistence, isSaved: (state: any) => boolean) => {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    if (isSaved(await persistence.load())) return;
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+  throw new Error('The state was never saved.');
+};
+
+// The local backend as it runs after a page load, over whatever an earlier one saved.
+const reopen = () => createMemoryBackend('local', createIndexedDbPersistence());
+
+describe('local backend persistence', () => {
+  it('starts empty when nothing was saved', async () => {
+    const backend = reopen();
+    expect(await backend.db.list('files', { field: 'userId', value: 'alice' })).toEqual([]);
+  });
+
+  it('brings documents back after a reload, including which user is signed in', async () => {
+    const backend = reopen();
+    await backend.auth.signUp('alice@example.com', 'password1');
+    const uid = backend.auth.getCurrentUser()!.uid;
+    await backend.db.set('files', 'a', { userId: uid, name: 'a' });
+    await backend.db.set('files', 'b', { userId: uid, name: 'b' });
+    await backend.db.remove('files', 'b');
+    await waitForSave(createIndexedDbPersistence(), state => state?.collections.files?.a && !state.collections.files.b);
+
+    const reloaded = reopen();
+    expect(await reloaded.db.list('files', { field: 'userId', value: uid })).toEqual([{ id: 'a', data: { userId: uid, name: 'a' } }]);
+    const user = await new Promise(resolve => {
+      const unsubscribe = reloaded.auth.onAuthStateChanged(current => {
+        unsubscribe();
+        resolve(current);
+      });
+    });
+    expect(user).toMatchObject({ uid, email: 'alice@example.com' });
+  });
+
+  it('brings stored objects back byte for byte', async () => {
+    const bytes = new Uint8Array([0, 1, 2, 250, 251, 252]);
+    const backend = reopen();
+    await backend.blobs.upload('files/alice/a', new Blob([bytes]), 'application/octet-stream');
+    await waitForSave(createIndexedDbPersistence(), state => !!state?.blobs['files/alice/a']);
+
+    const blob = await reopen().blobs.getBlob('files/alice/a');
+    expect(blob.type).toBe('application/octet-stream');
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(bytes);
+  });
+
+  it('reports saved documents to watchers of the reloaded backend', async () => {
+    const backend = reopen();
+    await backend.db.set('folders', 'f', { userId: 'alice', name: 'Trip' });
+    await waitForSave(createIndexedDbPersistence(), state => !!state?.collections.folders?.f);
+
+    const changes = await new Promise<any[]>(resolve => {
+      const unsubscribe = reopen().db.watch('folders', { field: 'userId', value: 'alice' }, batch => {
+        unsubscribe();
+        resolve(batch);
+      }, error => { throw error; });
+    });
+    expect(changes).toEqual([{ type: 'added', doc: { id: 'f', data: { userId: 'alice', name: 'Trip' } } }]);
+  });
+});
@@ -0,0 +1,264 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMemoryBackend } from '../../services/backend/memory';
+import {
+  Backend, BlobNotFoundError, DocChange, DocNotFoundError, InvalidCodeError, SecondFactorRequiredError,
+} from '../../services/backend/types';
+import { generateTotp } from '../../services/totp';
+
+let backend: Backend;
+
+beforeEach(() => {
+  backend = createMemoryBackend('memory');
+});
+
+// Collects every batch a watcher reports, in order.
+const watchBatches = (collection: string, field: string, value: unknown) => {
+  const batches: DocChange[][] = [];
+  const unsubscribe = backend.db.watch(collection, { field, value }, changes => batches.push(changes), error => { throw error; });
+  return { batches, unsubscribe };
+};
+
+// Watchers start once the store is ready, a microtask or two after watch() returns.
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('db.list', () => {
+  it('returns only documents whose field equals the filter value', async () => {
+    await backend.db.set('files', 'a', { userId: 'alice', name: 'a' });
+    await backend.db.set('files', 'b', { userId: 'bob', name: 'b' });
+    await backend.db.set('folders', 'c', { userId: 'alice', name: 'c' });
+
+    const listed = await backend.db.list('files', { field: 'userId', value: 'alice' });
+    expect(listed).toEqual([{ id: 'a', data: { userId: 'alice', name: 'a' } }]);
+  });
+
+  it('matches values strictly, so null does not match a missing field', async () => {
+    await backend.db.set('files', 'a', { userId: 'alice', folderId: null });
+    await backend.db.set('files', 'b', { userId: 'alice' });
+
+    const listed = await backend.db.list('files', { field: 'folderId', value: null });
+    expect(listed.map(doc => doc.id)).toEqual(['a']);
+  });
+
+  it('lists documents in the order they were created, with updates keeping their place', async () => {
+    const first = await backend.db.add('files', { userId: 'alice', name: 'first' });
+    const second = await backend.db.add('files', { userId: 'alice', name: 'second' });
+    const third = await backend.db.add('files', { userId: 'alice', name: 'third' });
+    await backend.db.update('files', first, { name: 'renamed' });
+
+    const listed = await backend.db.list('files', { field: 'userId', value: 'alice' });
+    expect(listed.map(doc => doc.id)).toEqual([first, second, third]);
+    expect(listed[0].data.name).toBe('renamed');
+  });
+
+  it('hands out copies, so changing a result leaves the store alone', async () => {
+    await backend.db.set('files', 'a', { userId: 'alice', tags: ['x'] });
+    const [listed] = await backend.db.list('files', { field: 'userId', value: 'alice' });
+    listed.data.tags.push('y');
+
+    expect(await backend.db.get('files', 'a')).toEqual({ userId: 'alice', tags: ['x'] });
+  });
+});
+
+describe('db writes', () => {
+  it('merges top-level fields with set({ merge }) and replaces the document without it', async () => {
+    await backend.db.set('settings', 'alice', { quotaBytes: 1, autoLockMinutes: 15 });
+    await backend.db.set('settings', 'alice', { quotaBytes: 2 }, { merge: true });
+    expect(await backend.db.get('settings', 'alice')).toEqual({ quotaBytes: 2, autoLockMinutes: 15 });
+
+    await backend.db.set('settings', 'alice', { quotaBytes: 3 });
+    expect(await backend.db.get('settings', 'alice')).toEqual({ quotaBytes: 3 });
+  });
+
+  it('refuses to update or increment a document that does not exist', async () => {
+    await expect(backend.db.update('files', 'missing', { name: 'x' })).rejects.toBeInstanceOf(DocNotFoundError);
+    await expect(backend.db.increment('shares', 'missing', 'downloadCount')).rejects.toBeInstanceOf(DocNotFoundError);
+  });
+
+  it('increments from zero when the field is not set yet', async () => {
+    await backend.db.set('shares', 's', { ownerId: 'alice' });
+    await backend.db.increment('shares', 's', 'downloadCount');
+    await backend.db.increment('shares', 's', 'downloadCount', 2);
+    expect((await backend.db.get('shares', 's'))?.downloadCount).toBe(3);
+  });
+
+  it('writes under an id from newId() without the document existing first', async () => {
+    const id = backend.db.newId('folders');
+    expect(await backend.db.get('folders', id)).toBeNull();
+    await backend.db.set('folders', id, { userId: 'alice' });
+    expect(await backend.db.get('folders', id)).toEqual({ userId: 'alice' });
+  });
+});
+
+describe('db.watch', () => {
+  it('reports existing documents as added first, then each write as it happens', async () => {
+    await backend.db.set('files', 'a', { userId: 'alice', name: 'a' });
+    const { batches, unsubscribe } = watchBatches('files', 'userId', 'alice');
+    await settle();
+
+    await backend.db.set('files', 'b', { userId: 'alice', name: 'b' });
+    await backend.db.update('files', 'a', { name: 'renamed' });
+    await backend.db.remove('files', 'b');
+    unsubscribe();
+
+    expect(batches).toEqual([
+      [{ type: 'added', doc: { id: 'a', data: { userId: 'alice', name: 'a' } } }],
+      [{ type: 'added', doc: { id: 'b', data: { userId: 'alice', name: 'b' } } }],
+      [{ type: 'modified', doc: { id: 'a', data: { userId: 'alice', name: 'renamed' } } }],
+      [{ type: 'removed', doc: { id: 'b', data: { userId: 'alice', name: 'b' } } }],
+    ]);
+  });
+
+  it('reports documents moving into and out of the filter as added and removed', async () => {
+    await backend.db.set('files', 'a', { userId: 'bob' });
+    const { batches, unsubscribe } = watchBatches('files', 'userId', 'alice');
+    await settle();
+
+    await backend.db.update('files', 'a', { userId: 'alice' });
+    await backend.db.update('files', 'a', { userId: 'bob' });
+    unsubscribe();
+
+    expect(batches.map(batch => batch.map(change => change.type))).toEqual([[], ['added'], ['removed']]);
+  });
+
+  it('ignores other collections and non-matching documents', async () => {
+    const { batches, unsubscribe } = watchBatches('files', 'userId', 'alice');
+    await settle();
+
+    await backend.db.set('folders', 'f', { userId: 'alice' });
+    await backend.db.set('files', 'b', { userId: 'bob' });
+    unsubscribe();
+
+    expect(batches).toEqual([[]]);
+  });
+
+  it('stops reporting once unsubscribed, even before the first batch', async () => {
+    const { batches, unsubscribe } = watchBatches('files', 'userId', 'alice');
+    unsubscribe();
+    await settle();
+    await backend.db.set('files', 'a', { userId: 'alice' });
+
+    expect(batches).toEqual([]);
+  });
+});
+
+describe('db.watchDoc', () => {
+  it('reports the document, every change to it and null once it is removed', async () => {
+    const seen: unknown[] = [];
+    const unsubscribe = backend.db.watchDoc('settings', 'alice', data => seen.push(data), error => { throw error; });
+    await settle();
+
+    await backend.db.set('settings', 'alice', { quotaBytes: 1 });
+    await backend.db.set('settings', 'bob', { quotaBytes: 2 });
+    await backend.db.update('settings', 'alice', { quotaBytes: 3 });
+    await backend.db.remove('settings', 'alice');
+    unsubscribe();
+    await backend.db.set('settings', 'alice', { quotaBytes: 4 });
+
+    expect(seen).toEqual([null, { quotaBytes: 1 }, { quotaBytes: 3 }, null]);
+  });
+});
+
+describe('blobs', () => {
+  it('returns uploaded bytes with their content type', async () => {
+    await backend.blobs.upload('files/alice/a', new Blob([new Uint8Array([1, 2, 3])]), 'application/octet-stream');
+
+    const blob = await backend.blobs.getBlob('files/alice/a');
+    expect(blob.type).toBe('application/octet-stream');
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it('rejects reads and deletes of missing objects with BlobNotFoundError', async () => {
+    await backend.blobs.upload('files/alice/a', new Blob(['x']));
+    await backend.blobs.remove('files/alice/a');
+
+    await expect(backend.blobs.getBlob('files/alice/a')).rejects.toBeInstanceOf(BlobNotFoundError);
+    await expect(backend.blobs.remove('files/alice/a')).rejects.toBeInstanceOf(BlobNotFoundError);
+  });
+
+  it('reports resumable upload progress up to the full size and stores the object on completion', async () => {
+    const data = new Blob([new Uint8Array(600 * 1024)]);
+    const progress: number[] = [];
+    await new Promise<void>((resolve, reject) => {
+      backend.blobs.uploadResumable('files/alice/big', data, 'application/octet-stream', {
+        onProgress: ({ bytesTransferred }) => progress.push(bytesTransferred),
+        onError: reject,
+        onComplete: resolve,
+      });
+    });
+
+    expect(progress.length).toBeGreaterThan(1);
+    expect(progress.at(-1)).toBe(data.size);
+    expect((await backend.blobs.getBlob('files/alice/big')).size).toBe(data.size);
+  });
+
+  it('fails a canceled upload with storage/canceled and stores nothing', async () => {
+    const error = await new Promise<any>((resolve, reject) => {
+      const upload = backend.blobs.uploadResumable('files/alice/big', new Blob([new Uint8Array(600 * 1024)]), undefined, {
+        onProgress: () => {},
+        onError: resolve,
+        onComplete: () => reject(new Error('completed')),
+      });
+      upload.cancel();
+    });
+
+    expect(error.code).toBe('storage/canceled');
+    await expect(backend.blobs.getBlob('files/alice/big')).rejects.toBeInstanceOf(BlobNotFoundError);
+  });
+});
+
+describe('recovery codes', () => {
+  const EMAIL = 'alice@example.com';
+  const PASSWORD = 'correct horse';
+  let secret: string;
+
+  // Signs up, turns on the second factor and returns the recovery codes, leaving the user signed out.
+  const enrolWithRecoveryCodes = async () => {
+    await backend.auth.signUp(EMAIL, PASSWORD);
+    const enrolment = await backend.auth.startTotpEnrolment('Safe Locker');
+    secret = enrolment.secret;
+    await enrolment.finish(await generateTotp(secret));
+    const codes = await backend.auth.createRecoveryCodes();
+    await backend.db.set('twoFactor', backend.auth.getCurrentUser()!.uid, { enabledAt: Date.now() });
+    await backend.auth.signOut();
+    return codes;
+  };
+
+  it('hands out ten distinct codes', async () => {
+    const codes = await enrolWithRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    codes.forEach(code => expect(code).toMatch(/^[A-Z2-7]{4}(-[A-Z2-7]{4}){3}$/));
+  });
+
+  it('turns the second factor off with a code, so the password alone signs in', async () => {
+    const [code] = await enrolWithRecoveryCodes();
+    await expect(backend.auth.signIn(EMAIL, PASSWORD)).rejects.toBeInstanceOf(SecondFactorRequiredError);
+
+    await backend.auth.redeemRecoveryCode(EMAIL, code.toLowerCase().replace(/-/g, ' '));
+    await backend.auth.signIn(EMAIL, PASSWORD);
+
+    const user = backend.auth.getCurrentUser()!;
+    expect(user.secondFactorSince).toBeNull();
+    expect(await backend.db.get('twoFactor', user.uid)).toBeNull();
+  });
+
+  it('accepts a redeemed code only once, and spends the other codes with it', async () => {
+    const [first, second] = await enrolWithRecoveryCodes();
+    await backend.auth.redeemRecoveryCode(EMAIL, first);
+
+    await expect(backend.auth.redeemRecoveryCode(EMAIL, first)).rejects.toBeInstanceOf(InvalidCodeError);
+    await expect(backend.auth.redeemRecoveryCode(EMAIL, second)).rejects.toBeInstanceOf(InvalidCodeError);
+  });
+
+  it('refuses unknown codes and codes replaced by new ones', async () => {
+    const [old] = await enrolWithRecoveryCodes();
+    await expect(backend.auth.redeemRecoveryCode(EMAIL, 'AAAA-AAAA-AAAA-AAAA')).rejects.toBeInstanceOf(InvalidCodeError);
+    await expect(backend.auth.redeemRecoveryCode('bob@example.com', old)).rejects.toBeInstanceOf(InvalidCodeError);
+
+    const { challenge } = await backend.auth.signIn(EMAIL, PASSWORD).then(() => { throw new Error('signed in'); }, error => error as SecondFactorRequiredError);
+    // A code from the next time step, since the one used to enrol cannot be used again.
+    await challenge.resolve(await generateTotp(secret, Date.now() + 30 * 1000));
+    await backend.auth.createRecoveryCodes();
+    await expect(backend.auth.redeemRecoveryCode(EMAIL, old)).rejects.toBeInstanceOf(InvalidCodeError);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { RECOVERY_CODE_COUNT, generateRecoveryCodes, hashRecoveryCodes, matchesRecoveryCode } from '../../functions/src/recoveryCodes';
+
+describe('recovery codes', () => {
+  it('makes distinct codes of 80 bits in groups of four', () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(RECOVERY_CODE_COUNT);
+    expect(new Set(codes).size).toBe(RECOVERY_CODE_COUNT);
+    codes.forEach(code => expect(code).toMatch(/^[A-Z2-7]{4}(-[A-Z2-7]{4}){3}$/));
+  });
+
+  it('keeps only salted hashes', () => {
+    const codes = generateRecoveryCodes();
+    const first = hashRecoveryCodes(codes);
+    const second = hashRecoveryCodes(codes);
+
+    expect(JSON.stringify(first)).not.toContain(codes[0]);
+    expect(JSON.stringify(first)).not.toContain(codes[0].replace(/-/g, ''));
+    expect(first.salt).not.toBe(second.salt);
+    expect(first.hashes).not.toEqual(second.hashes);
+  });
+
+  it('matches any of the codes, ignoring case, dashes and spaces', () => {
+    const codes = generateRecoveryCodes();
+    const record = hashRecoveryCodes(codes);
+
+    codes.forEach(code => expect(matchesRecoveryCode(record, code)).toBe(true));
+    expect(matchesRecoveryCode(record, codes[3].toLowerCase().replace(/-/g, ' '))).toBe(true);
+  });
+
+  it('matches no other code', () => {
+    const record = hashRecoveryCodes(generateRecoveryCodes());
+    generateRecoveryCodes().forEach(code => expect(matchesRecoveryCode(record, code)).toBe(false));
+    expect(matchesRecoveryCode(record, '')).toBe(false);
+  });
+});
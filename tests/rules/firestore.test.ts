@@ -0,0 +1,409 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { RulesTestEnvironment, assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import { addDoc, collection, deleteDoc, doc, getDoc, getDocs, increment, query, setDoc, updateDoc, where } from 'firebase/firestore';
+import { createTestEnv, fileDoc, secondFactorUser, shareDoc, unverifiedUser, verifiedUser } from './testEnv';
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  env = await createTestEnv();
+});
+
+afterAll(async () => {
+  await env?.cleanup();
+});
+
+beforeEach(async () => {
+  await env.clearFirestore();
+});
+
+const seed = (path: string, id: string, data: Record<string, unknown>) =>
+  env.withSecurityRulesDisabled(context => setDoc(doc(context.firestore(), path, id), data));
+
+const seedFile = (id: string, data: Record<string, unknown>) => seed('files', id, data);
+
+// A `vaults` document as createVault() in services/vault.ts writes it.
+const VAULT = { version: 1, keyId: 'key-1', salt: 'cw==', verifier: 'dg==', verifierIv: 'aXY=' };
+
+describe('files: ownership', () => {
+  it('lets a verified user create, read, update and delete their own file', async () => {
+    const db = verifiedUser(env, 'alice').firestore();
+    const ref = doc(db, 'files', 'file-1');
+    await assertSucceeds(setDoc(ref, fileDoc('alice')));
+    await assertSucceeds(getDoc(ref));
+    await assertSucceeds(updateDoc(ref, { deletedAt: 1_700_000_100_000, updatedAt: 1_700_000_100_000 }));
+    await assertSucceeds(deleteDoc(ref));
+  });
+
+  it('lets the owner list their files with the userId filter the app uses', async () => {
+    await seedFile('file-1', fileDoc('alice'));
+    const db = verifiedUser(env, 'alice').firestore();
+    await assertSucceeds(getDocs(query(collection(db, 'files'), where('userId', '==', 'alice'))));
+  });
+
+  it('refuses files created for someone else', async () => {
+    const db = verifiedUser(env, 'mallory').firestore();
+    await assertFails(setDoc(doc(db, 'files', 'file-1'), fileDoc('alice')));
+  });
+
+  it("refuses reading, listing, updating and deleting someone else's files", async () => {
+    await seedFile('file-1', fileDoc('alice'));
+    const db = verifiedUser(env, 'mallory').firestore();
+    const ref = doc(db, 'files', 'file-1');
+    await assertFails(getDoc(ref));
+    await assertFails(getDocs(query(collection(db, 'files'), where('userId', '==', 'alice'))));
+    await assertFails(getDocs(collection(db, 'files')));
+    await assertFails(updateDoc(ref, { type: 'Others' }));
+    await assertFails(deleteDoc(ref));
+  });
+
+  it('refuses handing a file over to another user', async () => {
+    await seedFile('file-1', fileDoc('alice'));
+    const db = verifiedUser(env, 'alice').firestore();
+    await assertFails(updateDoc(doc(db, 'files', 'file-1'), { userId: 'mallory', storagePath: 'files/mallory/file-1' }));
+  });
+
+  it('refuses unverified and signed-out users', async () => {
+    await seedFile('file-1', fileDoc('alice'));
+    await assertFails(setDoc(doc(unverifiedUser(env, 'alice').firestore(), 'files', 'file-2'), fileDoc('alice')));
+    await assertFails(getDoc(doc(unverifiedUser(env, 'alice').firestore(), 'files', 'file-1')));
+    await assertFails(getDoc(doc(env.unauthenticatedContext().firestore(), 'files', 'file-1')));
+  });
+});
+
+describe('files: schema', () => {
+  const create = (data: Record<string, unknown>) =>
+    setDoc(doc(verifiedUser(env, 'alice').firestore(), 'files', 'file-1'), data);
+
+  it('accepts a legacy record without encryption or timestamps', async () => {
+    const { encryption, createdAt, updatedAt, contentHash, ...legacy } = fileDoc('alice');
+    await assertSucceeds(create(legacy));
+  });
+
+  it('refuses records missing a required field', async () => {
+    for (const field of ['name', 'type', 'size', 'url', 'userId', 'storagePath']) {
+      const { [field as keyof ReturnType<typeof fileDoc>]: _, ...incomplete } = fileDoc('alice');
+      await assertFails(create(incomplete));
+    }
+  });
+
+  it('only accepts the FileType categories', async () => {
+    for (const type of ['Photos', 'Videos', 'Document', 'Songs', 'Others']) {
+      await assertSucceeds(create(fileDoc('alice', { type })));
+    }
+    await assertFails(create(fileDoc('alice', { type: 'Music' })));
+    await assertFails(create(fileDoc('alice', { type: 3 })));
+  });
+
+  it('refuses sizes that are negative, fractional, not numbers or over the limit', async () => {
+    await assertSucceeds(create(fileDoc('alice', { size: 0 })));
+    await assertSucceeds(create(fileDoc('alice', { size: 2 * 1024 * 1024 * 1024 })));
+    await assertFails(create(fileDoc('alice', { size: -1 })));
+    await assertFails(create(fileDoc('alice', { size: 1.5 })));
+    await assertFails(create(fileDoc('alice', { size: '1024' })));
+    await assertFails(create(fileDoc('alice', { size: 2 * 1024 * 1024 * 1024 + 1 })));
+  });
+
+  it("refuses storage paths outside the owner's folder", async () => {
+    await assertFails(create(fileDoc('alice', { storagePath: 'files/mallory/file-1' })));
+    await assertFails(create(fileDoc('alice', { storagePath: 'avatars/alice' })));
+    await assertFails(create(fileDoc('alice', { storagePath: 'files/alice/nested/file-1' })));
+  });
+
+  it('refuses unknown fields, such as tags written in plain text', async () => {
+    await assertFails(create(fileDoc('alice', { tags: ['holiday'] })));
+    await assertFails(create(fileDoc('alice', { isPublic: true })));
+  });
+
+  it('refuses fields of the wrong type', async () => {
+    await assertFails(create(fileDoc('alice', { name: '' })));
+    await assertFails(create(fileDoc('alice', { folderId: 42 })));
+    await assertFails(create(fileDoc('alice', { deletedAt: 'yesterday' })));
+    await assertFails(create(fileDoc('alice', { typeSetByUser: 'yes' })));
+    await assertFails(create(fileDoc('alice', { versions: 'none' })));
+  });
+
+  it('accepts the updates the app makes', async () => {
+    await seedFile('file-1', fileDoc('alice'));
+    const ref = doc(verifiedUser(env, 'alice').firestore(), 'files', 'file-1');
+    await assertSucceeds(updateDoc(ref, { folderId: 'folder-1', updatedAt: 1_700_000_100_000 }));
+    await assertSucceeds(updateDoc(ref, { type: 'Document', typeSetByUser: true, updatedAt: 1_700_000_200_000 }));
+    await assertSucceeds(updateDoc(ref, { details: 'ZGV0YWlscw==', detailsEncryption: { version: 1, keyId: 'key-1', salt: 'cw==', nameIv: 'bg==' } }));
+    // saveAsNewVersion() clears fields the new version lacks.
+    await assertSucceeds(updateDoc(ref, {
+      name: 'bmV3LW5hbWU=',
+      size: 2048,
+      url: 'https://storage.example.com/files/alice/file-2',
+      storagePath: 'files/alice/file-2',
+      encryption: null,
+      mimeType: null,
+      contentHash: null,
+      thumbnail: null,
+      createdAt: 1_700_000_300_000,
+      updatedAt: 1_700_000_300_000,
+      versions: [{ name: 'c2VjcmV0LXBob3RvLmpwZw==', size: 1024, url: 'u', storagePath: 'files/alice/file-1', uploadedAt: 1, replacedAt: 2 }],
+    }));
+  });
+
+  it('refuses updates that break the schema', async () => {
+    await seedFile('file-1', fileDoc('alice'));
+    const ref = doc(verifiedUser(env, 'alice').firestore(), 'files', 'file-1');
+    await assertFails(updateDoc(ref, { type: 'Music' }));
+    await assertFails(updateDoc(ref, { size: -5 }));
+    await assertFails(updateDoc(ref, { notes: 'in plain text' }));
+  });
+});
+
+describe('shares', () => {
+  const visitor = () => env.unauthenticatedContext().firestore();
+
+  it('lets the owner create, read, list, revoke and delete their shares', async () => {
+    const db = verifiedUser(env, 'alice').firestore();
+    const ref = doc(db, 'shares', 'share-1');
+    await assertSucceeds(setDoc(ref, shareDoc('alice')));
+    await assertSucceeds(getDoc(ref));
+    await assertSucceeds(getDocs(query(collection(db, 'shares'), where('ownerId', '==', 'alice'))));
+    await assertSucceeds(updateDoc(ref, { revoked: true }));
+    await assertSucceeds(deleteDoc(ref));
+  });
+
+  it('refuses shares created for someone else, already used or already revoked', async () => {
+    const db = verifiedUser(env, 'alice').firestore();
+    await assertFails(setDoc(doc(db, 'shares', 'share-1'), shareDoc('mallory')));
+    await assertFails(setDoc(doc(db, 'shares', 'share-2'), shareDoc('alice', { downloadCount: 1 })));
+    await assertFails(setDoc(doc(db, 'shares', 'share-3'), shareDoc('alice', { revoked: true })));
+  });
+
+  it("refuses other users listing, changing or deleting someone else's shares", async () => {
+    await seed('shares', 'share-1', shareDoc('alice'));
+    const db = verifiedUser(env, 'mallory').firestore();
+    await assertFails(getDocs(query(collection(db, 'shares'), where('ownerId', '==', 'alice'))));
+    await assertFails(updateDoc(doc(db, 'shares', 'share-1'), { maxDownloads: null, expiresAt: null }));
+    await assertFails(deleteDoc(doc(db, 'shares', 'share-1')));
+  });
+
+  it('refuses handing a share over to another user', async () => {
+    await seed('shares', 'share-1', shareDoc('alice'));
+    await assertFails(updateDoc(doc(verifiedUser(env, 'alice').firestore(), 'shares', 'share-1'), { ownerId: 'mallory' }));
+  });
+
+  it('lets a visitor read an active share and count one download', async () => {
+    await seed('shares', 'share-1', shareDoc('alice', { maxDownloads: 2, downloadCount: 1 }));
+    const ref = doc(visitor(), 'shares', 'share-1');
+    await assertSucceeds(getDoc(ref));
+    await assertSucceeds(updateDoc(ref, { downloadCount: increment(1) }));
+  });
+
+  it('lets a visitor change nothing but adding 1 to the download count', async () => {
+    await seed('shares', 'share-1', shareDoc('alice', { downloadCount: 5 }));
+    const ref = doc(visitor(), 'shares', 'share-1');
+    await assertFails(updateDoc(ref, { downloadCount: increment(2) }));
+    await assertFails(updateDoc(ref, { downloadCount: 0 }));
+    await assertFails(updateDoc(ref, { downloadCount: increment(-1) }));
+    await assertFails(updateDoc(ref, { downloadCount: increment(1), maxDownloads: null }));
+    await assertFails(updateDoc(ref, { expiresAt: null }));
+    await assertFails(updateDoc(ref, { revoked: false }));
+    await assertFails(getDocs(query(collection(visitor(), 'shares'), where('ownerId', '==', 'alice'))));
+    await assertFails(deleteDoc(ref));
+  });
+
+  it('refuses visitors revoked, expired and used-up shares', async () => {
+    await seed('shares', 'revoked', shareDoc('alice', { revoked: true }));
+    await seed('shares', 'expired', shareDoc('alice', { expiresAt: Date.now() - 60 * 1000 }));
+    await seed('shares', 'used-up', shareDoc('alice', { maxDownloads: 3, downloadCount: 3 }));
+    for (const id of ['revoked', 'expired', 'used-up']) {
+      const ref = doc(visitor(), 'shares', id);
+      await assertFails(getDoc(ref));
+      await assertFails(updateDoc(ref, { downloadCount: increment(1) }));
+    }
+  });
+
+  it('stops counting once the download count is reached', async () => {
+    await seed('shares', 'share-1', shareDoc('alice', { maxDownloads: 1 }));
+    const ref = doc(visitor(), 'shares', 'share-1');
+    await assertSucceeds(updateDoc(ref, { downloadCount: increment(1) }));
+    await assertFails(updateDoc(ref, { downloadCount: increment(1) }));
+    await assertFails(getDoc(ref));
+  });
+
+  it('still shows the owner a share visitors can no longer open', async () => {
+    await seed('shares', 'share-1', shareDoc('alice', { revoked: true }));
+    await assertSucceeds(getDoc(doc(verifiedUser(env, 'alice').firestore(), 'shares', 'share-1')));
+  });
+});
+
+describe('folders', () => {
+  const folderDoc = (userId: string) => ({ name: 'Zm9sZGVy', parentId: null, userId, encryption: { version: 1, keyId: 'key-1', salt: 'cw==', nameIv: 'bg==' } });
+
+  it('lets a verified user create, read, list, rename and delete their own folders', async () => {
+    const db = verifiedUser(env, 'alice').firestore();
+    const ref = doc(db, 'folders', 'folder-1');
+    await assertSucceeds(setDoc(ref, folderDoc('alice')));
+    await assertSucceeds(getDoc(ref));
+    await assertSucceeds(getDocs(query(collection(db, 'folders'), where('userId', '==', 'alice'))));
+    await assertSucceeds(updateDoc(ref, { name: 'cmVuYW1lZA==', parentId: 'folder-2' }));
+    await assertSucceeds(deleteDoc(ref));
+  });
+
+  it("refuses folders created for someone else and touching someone else's folders", async () => {
+    await seed('folders', 'folder-1', folderDoc('alice'));
+    const db = verifiedUser(env, 'mallory').firestore();
+    await assertFails(setDoc(doc(db, 'folders', 'folder-2'), folderDoc('alice')));
+    await assertFails(getDoc(doc(db, 'folders', 'folder-1')));
+    await assertFails(updateDoc(doc(db, 'folders', 'folder-1'), { name: 'bWluZQ==' }));
+    await assertFails(deleteDoc(doc(db, 'folders', 'folder-1')));
+  });
+
+  it('refuses handing a folder over to another user', async () => {
+    await seed('folders', 'folder-1', folderDoc('alice'));
+    await assertFails(updateDoc(doc(verifiedUser(env, 'alice').firestore(), 'folders', 'folder-1'), { userId: 'mallory' }));
+  });
+
+  it('refuses unverified users', async () => {
+    await assertFails(setDoc(doc(unverifiedUser(env, 'alice').firestore(), 'folders', 'folder-1'), folderDoc('alice')));
+  });
+});
+
+describe('activity', () => {
+  const event = (userId: string, overrides: Record<string, unknown> = {}) => ({
+    userId, type: 'sign-in', at: Date.now(), deviceId: 'device-1', deviceLabel: 'Firefox on Linux', ...overrides,
+  });
+
+  it('lets a verified user record and read their own events', async () => {
+    const db = verifiedUser(env, 'alice').firestore();
+    const ref = await assertSucceeds(addDoc(collection(db, 'activity'), event('alice')));
+    await assertSucceeds(getDoc(ref));
+    await assertSucceeds(getDocs(query(collection(db, 'activity'), where('userId', '==', 'alice'))));
+  });
+
+  it('refuses events for someone else, dated in the future or read by others', async () => {
+    await seed('activity', 'event-1', event('alice'));
+    const db = verifiedUser(env, 'mallory').firestore();
+    await assertFails(addDoc(collection(db, 'activity'), event('alice')));
+    await assertFails(addDoc(collection(verifiedUser(env, 'alice').firestore(), 'activity'), event('alice', { at: Date.now() + 10 * 60 * 1000 })));
+    await assertFails(getDoc(doc(db, 'activity', 'event-1')));
+  });
+
+  it('never lets an event be edited', async () => {
+    await seed('activity', 'event-1', event('alice'));
+    await assertFails(updateDoc(doc(verifiedUser(env, 'alice').firestore(), 'activity', 'event-1'), { type: 'upload' }));
+  });
+
+  it('only lets the owner delete events once their vault is retired and gone, as deleting the account does', async () => {
+    await seed('activity', 'event-1', event('alice'));
+    await seed('vaults', 'alice', VAULT);
+    const db = verifiedUser(env, 'alice').firestore();
+    const ref = doc(db, 'activity', 'event-1');
+    await assertFails(deleteDoc(ref));
+    await assertFails(deleteDoc(doc(db, 'vaults', 'alice')));
+    await assertSucceeds(setDoc(doc(db, 'retiredVaults', 'alice'), { retiredAt: Date.now() }));
+    await assertFails(deleteDoc(ref));
+    await assertSucceeds(deleteDoc(doc(db, 'vaults', 'alice')));
+    await assertFails(deleteDoc(doc(verifiedUser(env, 'mallory').firestore(), 'activity', 'event-1')));
+    await assertSucceeds(deleteDoc(ref));
+  });
+
+  it('refuses putting the vault back after wiping the log', async () => {
+    await seed('activity', 'event-1', event('alice'));
+    await seed('vaults', 'alice', VAULT);
+    const db = verifiedUser(env, 'alice').firestore();
+    const saved = (await getDoc(doc(db, 'vaults', 'alice'))).data()!;
+    await assertSucceeds(setDoc(doc(db, 'retiredVaults', 'alice'), { retiredAt: Date.now() }));
+    await assertSucceeds(deleteDoc(doc(db, 'vaults', 'alice')));
+    await assertSucceeds(deleteDoc(doc(db, 'activity', 'event-1')));
+    await assertFails(setDoc(doc(db, 'vaults', 'alice'), saved));
+    await assertFails(deleteDoc(doc(db, 'retiredVaults', 'alice')));
+    await assertFails(setDoc(doc(db, 'retiredVaults', 'alice'), { retiredAt: 0 }));
+  });
+});
+
+describe('vaults and settings', () => {
+  const documents: [string, Record<string, unknown>][] = [
+    ['vaults', VAULT],
+    ['settings', { autoLockMinutes: 15, typeRules: [] }],
+  ];
+
+  it('lets a verified user create and read their own', async () => {
+    const db = verifiedUser(env, 'alice').firestore();
+    for (const [path, data] of documents) {
+      await assertSucceeds(setDoc(doc(db, path, 'alice'), data));
+      await assertSucceeds(getDoc(doc(db, path, 'alice')));
+    }
+    await assertSucceeds(setDoc(doc(db, 'settings', 'alice'), { autoLockMinutes: 5 }, { merge: true }));
+    await assertSucceeds(deleteDoc(doc(db, 'settings', 'alice')));
+  });
+
+  it('never lets a vault be changed, or deleted before it is retired', async () => {
+    await seed('vaults', 'alice', VAULT);
+    const ref = doc(verifiedUser(env, 'alice').firestore(), 'vaults', 'alice');
+    await assertFails(setDoc(ref, { ...VAULT, salt: 'b3RoZXI=' }));
+    await assertFails(deleteDoc(ref));
+  });
+
+  it('refuses vaults with fields VaultRecord lacks', async () => {
+    await assertFails(setDoc(doc(verifiedUser(env, 'alice').firestore(), 'vaults', 'alice'), { ...VAULT, passphrase: 'hunter2' }));
+  });
+
+  it('refuses other users and unverified users', async () => {
+    for (const [path, data] of documents) {
+      await seed(path, 'alice', data);
+      const db = verifiedUser(env, 'mallory').firestore();
+      await assertFails(getDoc(doc(db, path, 'alice')));
+      await assertFails(setDoc(doc(db, path, 'alice'), data));
+      await assertFails(deleteDoc(doc(db, path, 'alice')));
+      await assertFails(setDoc(doc(db, 'retiredVaults', 'alice'), { retiredAt: Date.now() }));
+      await assertFails(getDoc(doc(unverifiedUser(env, 'alice').firestore(), path, 'alice')));
+    }
+  });
+});
+
+describe('twoFactor', () => {
+  it('only lets a session that passed the second factor write the marker', async () => {
+    await assertFails(setDoc(doc(verifiedUser(env, 'alice').firestore(), 'twoFactor', 'alice'), { enabledAt: 1_700_000_000_000 }));
+    await assertSucceeds(setDoc(doc(secondFactorUser(env, 'alice').firestore(), 'twoFactor', 'alice'), { enabledAt: 1_700_000_000_000 }));
+  });
+
+  it('refuses markers holding anything but when it was turned on', async () => {
+    const ref = doc(secondFactorUser(env, 'alice').firestore(), 'twoFactor', 'alice');
+    await assertFails(setDoc(ref, { enabledAt: 1_700_000_000_000, secret: 'JBSWY3DPEHPK3PXP' }));
+    await assertFails(setDoc(ref, { enabledAt: 'today' }));
+  });
+
+  it('refuses every owner session that did not pass the second factor once the marker exists', async () => {
+    await seed('twoFactor', 'alice', { enabledAt: 1_700_000_000_000 });
+    await seedFile('file-1', fileDoc('alice'));
+    const db = verifiedUser(env, 'alice').firestore();
+    await assertFails(getDoc(doc(db, 'files', 'file-1')));
+    await assertFails(getDocs(query(collection(db, 'files'), where('userId', '==', 'alice'))));
+    await assertFails(setDoc(doc(db, 'vaults', 'alice'), VAULT));
+    await assertFails(getDoc(doc(db, 'twoFactor', 'alice')));
+    await assertFails(deleteDoc(doc(db, 'twoFactor', 'alice')));
+
+    const passed = secondFactorUser(env, 'alice').firestore();
+    await assertSucceeds(getDoc(doc(passed, 'files', 'file-1')));
+    await assertSucceeds(getDoc(doc(passed, 'twoFactor', 'alice')));
+    await assertSucceeds(deleteDoc(doc(passed, 'twoFactor', 'alice')));
+  });
+
+  it('lets any owner session remove a marker that does not exist, as deleting an account does', async () => {
+    await assertSucceeds(deleteDoc(doc(verifiedUser(env, 'alice').firestore(), 'twoFactor', 'alice')));
+  });
+
+  it('keeps recovery code hashes from every client, which may only remove them with the factor', async () => {
+    await seed('twoFactor', 'alice', { enabledAt: 1_700_000_000_000 });
+    await seed('recoveryCodes', 'alice', { salt: 'c2FsdA==', hashes: ['aGFzaA=='], createdAt: 1_700_000_000_000 });
+    const passed = secondFactorUser(env, 'alice').firestore();
+    await assertFails(getDoc(doc(passed, 'recoveryCodes', 'alice')));
+    await assertFails(setDoc(doc(passed, 'recoveryCodes', 'alice'), { salt: 'c2FsdA==', hashes: [], createdAt: 0 }));
+    await assertFails(deleteDoc(doc(verifiedUser(env, 'alice').firestore(), 'recoveryCodes', 'alice')));
+    await assertFails(deleteDoc(doc(secondFactorUser(env, 'mallory').firestore(), 'recoveryCodes', 'alice')));
+    await assertSucceeds(deleteDoc(doc(passed, 'recoveryCodes', 'alice')));
+  });
+
+  it("refuses touching someone else's marker", async () => {
+    await seed('twoFactor', 'alice', { enabledAt: 1_700_000_000_000 });
+    const db = secondFactorUser(env, 'mallory').firestore();
+    await assertFails(getDoc(doc(db, 'twoFactor', 'alice')));
+    await assertFails(deleteDoc(doc(db, 'twoFactor', 'alice')));
+  });
+});
@@ -0,0 +1,122 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { RulesTestEnvironment, assertFails, assertSucceeds } from '@firebase/rules-unit-testing';
+import { doc, setDoc } from 'firebase/firestore';
+import { deleteObject, getBytes, ref, uploadBytes } from 'firebase/storage';
+import { createTestEnv, secondFactorUser, shareDoc, unverifiedUser, verifiedUser } from './testEnv';
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  env = await createTestEnv();
+});
+
+afterAll(async () => {
+  await env?.cleanup();
+});
+
+// The share and second-factor rules look up Firestore documents, so both are cleared.
+beforeEach(async () => {
+  await env.clearStorage();
+  await env.clearFirestore();
+});
+
+const ENCRYPTED = { contentType: 'application/octet-stream' };
+const bytes = () => new Uint8Array([1, 2, 3, 4]);
+
+const seedObject = (path: string) =>
+  env.withSecurityRulesDisabled(async context => {
+    await uploadBytes(ref(context.storage(), path), bytes(), ENCRYPTED);
+  });
+
+const seedDoc = (path: string, id: string, data: Record<string, unknown>) =>
+  env.withSecurityRulesDisabled(context => setDoc(doc(context.firestore(), path, id), data));
+
+describe('files/{uid}', () => {
+  it('lets a verified user upload, read and delete objects in their own folder', async () => {
+    const storage = verifiedUser(env, 'alice').storage();
+    await assertSucceeds(uploadBytes(ref(storage, 'files/alice/file-1'), bytes(), ENCRYPTED));
+    await assertSucceeds(uploadBytes(ref(storage, 'files/alice/file-1.thumb'), bytes(), ENCRYPTED));
+    await assertSucceeds(getBytes(ref(storage, 'files/alice/file-1')));
+    await assertSucceeds(deleteObject(ref(storage, 'files/alice/file-1')));
+  });
+
+  it("refuses reading, overwriting and deleting someone else's objects", async () => {
+    await seedObject('files/alice/file-1');
+    const storage = verifiedUser(env, 'mallory').storage();
+    await assertFails(getBytes(ref(storage, 'files/alice/file-1')));
+    await assertFails(uploadBytes(ref(storage, 'files/alice/file-1'), bytes(), ENCRYPTED));
+    await assertFails(uploadBytes(ref(storage, 'files/alice/file-2'), bytes(), ENCRYPTED));
+    await assertFails(deleteObject(ref(storage, 'files/alice/file-1')));
+  });
+
+  it('refuses unverified and signed-out users', async () => {
+    await seedObject('files/alice/file-1');
+    await assertFails(getBytes(ref(unverifiedUser(env, 'alice').storage(), 'files/alice/file-1')));
+    await assertFails(uploadBytes(ref(unverifiedUser(env, 'alice').storage(), 'files/alice/file-2'), bytes(), ENCRYPTED));
+    await assertFails(getBytes(ref(env.unauthenticatedContext().storage(), 'files/alice/file-1')));
+  });
+
+  it('refuses sessions that did not pass the second factor once it is on', async () => {
+    await seedObject('files/alice/file-1');
+    await seedDoc('twoFactor', 'alice', { enabledAt: 1_700_000_000_000 });
+    await assertFails(getBytes(ref(verifiedUser(env, 'alice').storage(), 'files/alice/file-1')));
+    await assertFails(uploadBytes(ref(verifiedUser(env, 'alice').storage(), 'files/alice/file-2'), bytes(), ENCRYPTED));
+    await assertSucceeds(getBytes(ref(secondFactorUser(env, 'alice').storage(), 'files/alice/file-1')));
+  });
+
+  it('refuses anything that is not stored as opaque encrypted bytes', async () => {
+    const storage = verifiedUser(env, 'alice').storage();
+    await assertFails(uploadBytes(ref(storage, 'files/alice/file-1'), bytes(), { contentType: 'image/jpeg' }));
+    await assertFails(uploadBytes(ref(storage, 'files/alice/file-2'), bytes(), { contentType: 'text/plain' }));
+  });
+});
+
+describe('avatars/{uid}', () => {
+  it('lets users upload small images as their own avatar only', async () => {
+    const image = { contentType: 'image/jpeg' };
+    await assertSucceeds(uploadBytes(ref(verifiedUser(env, 'alice').storage(), 'avatars/alice'), bytes(), image));
+    await assertFails(uploadBytes(ref(verifiedUser(env, 'alice').storage(), 'avatars/alice'), bytes(), ENCRYPTED));
+    await assertFails(uploadBytes(ref(verifiedUser(env, 'mallory').storage(), 'avatars/alice'), bytes(), image));
+  });
+});
+
+describe('shares/{shareId}', () => {
+  const CONTENT = 'shares/share-1/content';
+  const visitor = () => env.unauthenticatedContext().storage();
+
+  const seedShare = async (overrides: Record<string, unknown> = {}) => {
+    await seedDoc('shares', 'share-1', shareDoc('alice', overrides));
+    await seedObject(CONTENT);
+  };
+
+  it('lets the owner upload and delete the shared copy', async () => {
+    await seedDoc('shares', 'share-1', shareDoc('alice'));
+    const storage = verifiedUser(env, 'alice').storage();
+    await assertSucceeds(uploadBytes(ref(storage, CONTENT), bytes(), ENCRYPTED));
+    await assertSucceeds(deleteObject(ref(storage, CONTENT)));
+  });
+
+  it("refuses other users writing to someone else's share", async () => {
+    await seedShare();
+    const storage = verifiedUser(env, 'mallory').storage();
+    await assertFails(uploadBytes(ref(storage, CONTENT), bytes(), ENCRYPTED));
+    await assertFails(deleteObject(ref(storage, CONTENT)));
+  });
+
+  it('lets a visitor fetch an active share, including its last counted download', async () => {
+    await seedShare({ maxDownloads: 3, downloadCount: 2 });
+    await assertSucceeds(getBytes(ref(visitor(), CONTENT)));
+  });
+
+  it('refuses visitors revoked, expired and used-up shares', async () => {
+    for (const overrides of [{ revoked: true }, { expiresAt: Date.now() - 60 * 1000 }, { maxDownloads: 3, downloadCount: 3 }]) {
+      await seedShare(overrides);
+      await assertFails(getBytes(ref(visitor(), CONTENT)));
+    }
+  });
+
+  it('still lets the owner fetch a share visitors can no longer open', async () => {
+    await seedShare({ revoked: true });
+    await assertSucceeds(getBytes(ref(verifiedUser(env, 'alice').storage(), CONTENT)));
+  });
+});
@@ -0,0 +1,63 @@
+import { readFileSync } from 'node:fs';
+import { RulesTestEnvironment, TokenOptions, initializeTestEnvironment } from '@firebase/rules-unit-testing';
+
+// `npm test` starts the emulators with `firebase emulators:exec`, which also tells the test
+// environment where to find them. A demo- project needs no Firebase login.
+export const PROJECT_ID = 'demo-safe-locker';
+
+export const createTestEnv = () => initializeTestEnvironment({
+  projectId: PROJECT_ID,
+  firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+  storage: { rules: readFileSync('storage.rules', 'utf8') },
+});
+
+/** A signed-in user who has confirmed their email, as App.tsx requires before opening the locker. */
+export const verifiedUser = (env: RulesTestEnvironment, uid: string) =>
+  env.authenticatedContext(uid, { email: `${uid}@example.com`, email_verified: true });
+
+/** A verified user whose session entered a code from their authenticator app when signing in. */
+export const secondFactorUser = (env: RulesTestEnvironment, uid: string) =>
+  env.authenticatedContext(uid, {
+    email: `${uid}@example.com`,
+    email_verified: true,
+    firebase: { sign_in_provider: 'password', sign_in_second_factor: 'totp' } as TokenOptions['firebase'],
+  });
+
+/** A user who signed up but has not confirmed their email yet. */
+export const unverifiedUser = (env: RulesTestEnvironment, uid: string) =>
+  env.authenticatedContext(uid, { email: `${uid}@example.com`, email_verified: false });
+
+/** A `files` document as prepareFileUpload() in services/files.ts writes it. */
+export const fileDoc = (userId: string, overrides: Record<string, unknown> = {}) => ({
+  name: 'c2VjcmV0LXBob3RvLmpwZw==',
+  type: 'Photos',
+  size: 1024,
+  url: `https://storage.example.com/files/${userId}/file-1`,
+  userId,
+  storagePath: `files/${userId}/file-1`,
+  encryption: { version: 1, keyId: 'key-1', salt: 'c2FsdA==', nameIv: 'bmFtZUl2', iv: 'aXY=' },
+  folderId: null,
+  mimeType: 'image/jpeg',
+  createdAt: 1_700_000_000_000,
+  updatedAt: 1_700_000_000_000,
+  contentHash: 'aGFzaA==',
+  ...overrides,
+});
+
+/** An active `shares` document as createShare() in services/shares.ts writes it. */
+export const shareDoc = (ownerId: string, overrides: Record<string, unknown> = {}) => ({
+  ownerId,
+  fileId: 'file-1',
+  storagePath: 'shares/share-1/content',
+  name: 'c2hhcmVkLW5hbWU=',
+  type: 'Photos',
+  size: 1024,
+  mimeType: 'image/jpeg',
+  createdAt: 1_700_000_000_000,
+  expiresAt: null,
+  maxDownloads: null,
+  downloadCount: 0,
+  revoked: false,
+  encryption: { version: 1, iv: 'aXY=', nameIv: 'bmFtZUl2' },
+  ...overrides,
+});
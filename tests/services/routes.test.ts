@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { parseRoute } from '../../services/routes';
+
+const nextOf = (next: string) => {
+  const route = parseRoute('/login', `?next=${encodeURIComponent(next)}`);
+  return route.name === 'login' ? route.next : undefined;
+};
+
+describe('parseRoute', () => {
+  it('keeps a path on this site to return to after signing in', () => {
+    expect(nextOf('/folders/abc')).toBe('/folders/abc');
+    expect(nextOf('/tags/work?view=grid#top')).toBe('/tags/work?view=grid#top');
+  });
+
+  it.each([
+    ['another site', 'https://evil.example/'],
+    ['a protocol-relative URL', '//evil.example/'],
+    ['a backslash the browser reads as a slash', '/\\evil.example/'],
+    ['a tab the browser strips', '/\t/evil.example/'],
+    ['a relative path', 'folders/abc'],
+    ['a script URL', 'javascript:alert(1)'],
+  ])('drops %s as the place to return to', (_, next) => {
+    expect(nextOf(next)).toBeNull();
+  });
+});
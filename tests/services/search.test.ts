@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { FileType, ManagedFile } from '../../types';
+import { EMPTY_SEARCH, keepVisibleSelection, searchFiles } from '../../services/search';
+
+const file = (id: string, name: string, type = FileType.Document): ManagedFile => ({
+  id, name, type, size: 1, url: '', userId: 'alice', storagePath: `users/alice/${id}`,
+});
+
+const files = [file('a', 'invoice.pdf'), file('b', 'holiday.jpg', FileType.Photos), file('c', 'invoice-2.pdf')];
+
+describe('keepVisibleSelection', () => {
+  it('drops files a narrower search hides', () => {
+    const selected = new Set(['a', 'b', 'c']);
+    const visible = searchFiles(files, { ...EMPTY_SEARCH, query: 'invoice' });
+
+    expect([...keepVisibleSelection(selected, visible)].sort()).toEqual(['a', 'c']);
+  });
+
+  it('drops files that moved out of the view', () => {
+    const visible = searchFiles(files, { ...EMPTY_SEARCH, type: FileType.Photos });
+
+    expect(keepVisibleSelection(new Set(['a']), visible).size).toBe(0);
+  });
+
+  it('keeps the same set when everything selected is still shown', () => {
+    const selected = new Set(['a']);
+
+    expect(keepVisibleSelection(selected, files)).toBe(selected);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { ShareRecord } from '../../types';
+import { derivePasswordKey, encryptBytes, exportRawKey, newIv, newSalt, toBase64, toBase64Url } from '../../services/crypto';
+import { parseShareLocation, unlockShare } from '../../services/shares';
+
+const key = new Uint8Array(32).map((_, index) => index * 7);
+
+describe('parseShareLocation', () => {
+  it('reads the share id and the key in the fragment', () => {
+    const link = parseShareLocation({ pathname: '/share/abc123', hash: `#${toBase64Url(key)}` });
+
+    expect(link).toEqual({ shareId: 'abc123', key, invalid: false });
+  });
+
+  it('reads a link without a key, as for password-protected shares', () => {
+    expect(parseShareLocation({ pathname: '/share/abc123', hash: '' })).toEqual({ shareId: 'abc123', key: null, invalid: false });
+  });
+
+  it('ignores other paths', () => {
+    expect(parseShareLocation({ pathname: '/trash', hash: '#abcd' })).toBeNull();
+    expect(parseShareLocation({ pathname: '/share/', hash: '#abcd' })).toBeNull();
+  });
+
+  it.each([
+    ['characters outside the alphabet', '#abc!def'],
+    ['an escaped character', '#abcd%20efgh'],
+    ['standard base64', `#${btoa('\xfb\xff\xfe')}`],
+    ['a length no key encodes to', `#${toBase64Url(key).slice(0, 41)}`],
+  ])('marks a fragment with %s as invalid instead of throwing', (_, hash) => {
+    expect(parseShareLocation({ pathname: '/share/abc123', hash })).toEqual({ shareId: 'abc123', key: null, invalid: true });
+  });
+});
+
+describe('unlockShare', () => {
+  // Only the fields unlocking reads; the rest of the record does not matter here.
+  const passwordShare = async (password: string, passwordIterations?: number) => {
+    const salt = newSalt();
+    const wrapIv = newIv();
+    const wrappingKey = await derivePasswordKey(password, salt, passwordIterations);
+    return {
+      encryption: {
+        version: 1, iv: '', nameIv: '', passwordSalt: toBase64(salt), passwordIterations,
+        wrapIv: toBase64(wrapIv), wrappedKey: toBase64(await encryptBytes(wrappingKey, wrapIv, key)),
+      },
+    } as ShareRecord;
+  };
+
+  it('uses the cost the share was made with', async () => {
+    const share = await passwordShare('correct horse', 1_000_000);
+
+    expect(await exportRawKey(await unlockShare(share, null, 'correct horse'))).toEqual(key);
+    await expect(unlockShare(share, null, 'wrong horse')).rejects.toThrow();
+  });
+
+  it('still opens shares made before the cost was recorded', async () => {
+    const share = await passwordShare('correct horse');
+
+    expect(await exportRawKey(await unlockShare(share, null, 'correct horse'))).toEqual(key);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { ZipChunk, ZipEntry, readZip, writeZip } from '../../services/zip';
+
+const MB = 1024 * 1024;
+
+/** A stream that keeps what is written to it, as blobs. */
+const collect = () => {
+  const parts: Blob[] = [];
+  let aborted = false;
+  const stream = new WritableStream<ZipChunk>({
+    write: part => { parts.push(new Blob([part])); },
+    abort: () => { aborted = true; },
+  });
+  return { stream, parts, aborted: () => aborted };
+};
+
+/**
+ * Stands in for an archive past 4 GB, which is more than Node lets one Blob hold. readZip() only
+ * reads the size and slices, which come out as ordinary blobs.
+ */
+const joinParts = (parts: Blob[]) => {
+  const size = parts.reduce((total, part) => total + part.size, 0);
+  const slice = (start = 0, end = size) => {
+    const pieces: Blob[] = [];
+    let offset = 0;
+    for (const part of parts) {
+      const from = Math.max(start - offset, 0);
+      const to = Math.min(end - offset, part.size);
+      if (from < to) pieces.push(part.slice(from, to));
+      offset += part.size;
+    }
+    return new Blob(pieces);
+  };
+  return { size, slice } as unknown as Blob;
+};
+
+const entry = (name: string, data: Blob, lastModified?: number): ZipEntry => ({ name, size: data.size, lastModified, load: async () => data });
+
+const zip = async (entries: ZipEntry[]) => {
+  const sink = collect();
+  await writeZip(entries, sink.stream);
+  return joinParts(sink.parts);
+};
+
+describe('zip', () => {
+  it('reads back what it writes', async () => {
+    const lastModified = new Date(2024, 4, 17, 9, 30, 42).getTime();
+    const archive = await zip([
+      entry('notes/today.txt', new Blob(['first']), lastModified),
+      entry('notes/today.txt', new Blob(['second'])),
+      entry('empty', new Blob([])),
+    ]);
+
+    const entries = await readZip(archive);
+    expect(entries.map(({ name, size }) => ({ name, size }))).toEqual([
+      { name: 'notes/today.txt', size: 5 },
+      { name: 'notes/today (2).txt', size: 6 },
+      { name: 'empty', size: 0 },
+    ]);
+    expect(entries[0].lastModified).toBe(lastModified);
+    expect(await (await entries[1].load()).text()).toBe('second');
+  });
+
+  it('aborts the stream when canceled', async () => {
+    const sink = collect();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(writeZip([entry('a.txt', new Blob(['a']))], sink.stream, { signal: controller.signal }))
+      .rejects.toMatchObject({ name: 'AbortError' });
+    expect(sink.aborted()).toBe(true);
+  });
+
+  it('writes ZIP64 records for more than 65,535 entries', async () => {
+    const data = new Blob(['x']);
+    const count = 0x10000 + 10;
+    const archive = await zip(Array.from({ length: count }, (_, index) => entry(`${index}.txt`, data)));
+
+    const entries = await readZip(archive);
+    expect(entries).toHaveLength(count);
+    expect(entries[count - 1].name).toBe(`${count - 1}.txt`);
+    expect(await (await entries[count - 1].load()).text()).toBe('x');
+  }, 120_000);
+
+  it('writes ZIP64 records for entries and offsets past 4 GB', async () => {
+    // The largest blob Node allows, which is already too large for the 32-bit size fields. Blobs
+    // built from other blobs share their data, so this does not take 4 GB of memory.
+    const chunk = new Blob([new Uint8Array(MB).fill(7)]);
+    const large = new Blob([...Array.from({ length: 4095 }, () => chunk), chunk.slice(1)]);
+    expect(large.size).toBe(2 ** 32 - 1);
+    const archive = await zip([entry('large.bin', large), entry('after.txt', new Blob(['after']))]);
+    expect(archive.size).toBeGreaterThan(2 ** 32);
+
+    const [first, second] = await readZip(archive);
+    expect(first).toMatchObject({ name: 'large.bin', size: large.size });
+    const loaded = await first.load();
+    expect(loaded.size).toBe(large.size);
+    expect([...new Uint8Array(await loaded.slice(-4).arrayBuffer())]).toEqual([7, 7, 7, 7]);
+    expect(second).toMatchObject({ name: 'after.txt', size: 5 });
+    expect(await (await second.load()).text()).toBe('after');
+  }, 300_000);
+});
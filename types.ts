@@ -6,12 +6,105 @@ export enum FileType {
   Others = 'Others',
 }
 
+// Client-side encryption parameters for an encrypted name, see services/crypto.ts
+export interface NameEncryptionInfo {
+  version: number; // Crypto scheme version the record was written with
+  keyId: string; // Vault key generation used to derive the record key
+  salt: string; // base64 per-record HKDF salt
+  nameIv: string; // base64 AES-GCM IV for the name
+}
+
+// Client-side encryption parameters for a stored file
+export interface EncryptionInfo extends NameEncryptionInfo {
+  iv: string; // base64 AES-GCM IV for the contents
+}
+
 export interface ManagedFile {
   id: string; // Firestore document ID
-  name: string;
+  name: string; // Decrypted in memory; stored as ciphertext when `encryption` is set
   type: FileType;
+  typeSetByUser?: boolean; // The user picked `type` by hand, so reclassifying leaves it alone
   size: number;
   url: string; // Download URL from Storage
   userId: string; // UID of the user who uploaded it
   storagePath: string; // Path in Firebase Storage
+  encryption?: EncryptionInfo; // Absent for files uploaded before encryption was introduced
+  folderId?: string | null; // Parent folder; null or absent for the locker root
+  mimeType?: string; // Detected at upload time from the contents and name, see services/fileTypes.ts
+  createdAt?: number; // Upload time of the current version in epoch milliseconds; absent on very old records
+  updatedAt?: number; // Last metadata change in epoch milliseconds
+  deletedAt?: number | null; // Set while the file is in the trash, in epoch milliseconds
+  thumbnail?: ThumbnailInfo; // Present for photos and videos once a thumbnail was generated
+  contentHash?: string; // base64 HMAC-SHA256 of the plaintext under a vault-derived key, for duplicate detection
+  tags?: string[]; // Decrypted in memory from `details`; normalised by services/tags.ts
+  notes?: string; // Decrypted in memory from `details`
+  details?: string; // base64 ciphertext of the JSON-encoded FileDetails
+  detailsEncryption?: NameEncryptionInfo;
+  versions?: FileVersion[]; // Earlier uploads of this file, newest first
+}
+
+// An earlier upload kept when a file is saved as a new version. Every version has its own salt,
+// so it carries its own copy of the encrypted name alongside the contents it was uploaded with.
+export interface FileVersion {
+  name: string; // Ciphertext under this version's `encryption`; the same plaintext as the file's name
+  size: number;
+  url: string;
+  storagePath: string;
+  encryption?: EncryptionInfo;
+  mimeType?: string;
+  contentHash?: string;
+  thumbnail?: ThumbnailInfo;
+  uploadedAt: number; // When this version was uploaded, in epoch milliseconds
+  replacedAt: number; // When a newer upload (or a restore) took its place; retention counts from here
+}
+
+// The user's own description of a file, always stored encrypted as ManagedFile.details.
+export interface FileDetails {
+  tags: string[];
+  notes: string;
+}
+
+// Encrypted JPEG preview stored next to the original at `${storagePath}.thumb`
+export interface ThumbnailInfo {
+  storagePath: string;
+  salt: string; // base64 HKDF salt; the file's own salt for thumbnails made at upload time
+  iv: string; // base64 AES-GCM IV
+}
+
+export interface Folder {
+  id: string; // Firestore document ID
+  name: string; // Decrypted in memory; always stored as ciphertext
+  parentId: string | null; // null for top-level folders
+  userId: string;
+  encryption: NameEncryptionInfo;
+}
+
+// Public share link for a single file, stored at shares/{id}. The shared copy is re-encrypted
+// with its own key, which travels in the link fragment or is wrapped with the share password.
+export interface ShareRecord {
+  id: string; // Firestore document ID, also the unguessable part of the link
+  ownerId: string;
+  fileId: string;
+  storagePath: string; // Encrypted copy of the file at shares/{id}/content
+  name: string; // Encrypted with the share key
+  type: FileType;
+  size: number;
+  mimeType: string;
+  createdAt: number;
+  expiresAt: number | null; // Epoch milliseconds; null never expires
+  maxDownloads: number | null; // null allows unlimited downloads
+  downloadCount: number;
+  revoked: boolean;
+  encryption: ShareEncryptionInfo;
+}
+
+export interface ShareEncryptionInfo {
+  version: number;
+  iv: string; // base64 AES-GCM IV for the contents
+  nameIv: string; // base64 AES-GCM IV for the name
+  // Present only for password-protected shares: the share key wrapped with a password-derived key.
+  passwordSalt?: string;
+  passwordIterations?: number; // PBKDF2 cost; absent on shares made with the vault's lower cost
+  wrappedKey?: string;
+  wrapIv?: string;
 }
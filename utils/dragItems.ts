@@ -0,0 +1,21 @@
+import type React from 'react';
+
+// Drag payload for moving locker items around inside the app, as opposed to files dropped from the OS.
+const LOCKER_ITEM_MIME = 'application/x-safe-locker-item';
+
+export interface DraggedItem {
+  kind: 'file' | 'folder';
+  id: string;
+}
+
+export const setDraggedItem = (e: React.DragEvent, item: DraggedItem) => {
+  e.dataTransfer.setData(LOCKER_ITEM_MIME, JSON.stringify(item));
+  e.dataTransfer.effectAllowed = 'move';
+};
+
+export const isLockerItemDrag = (e: React.DragEvent) => e.dataTransfer.types.includes(LOCKER_ITEM_MIME);
+
+export const getDraggedItem = (e: React.DragEvent): DraggedItem | null => {
+  const payload = e.dataTransfer.getData(LOCKER_ITEM_MIME);
+  return payload ? (JSON.parse(payload) as DraggedItem) : null;
+};
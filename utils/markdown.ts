@@ -0,0 +1,68 @@
+// A deliberately small Markdown renderer for previews: headings, emphasis, inline code, fenced
+// code blocks, lists, blockquotes and links. Input is HTML-escaped first, so the output is safe
+// to inject even for untrusted files.
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const renderInline = (text: string) =>
+  text
+    .replace(/`([^`]+)`/g, '<code class="px-1 rounded bg-gray-200 dark:bg-gray-700">$1</code>')
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*([^*]+)\*/g, '<em>$1</em>')
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, '<a href="$2" target="_blank" rel="noopener noreferrer" class="text-indigo-600 dark:text-indigo-400 underline">$1</a>');
+
+const headingClasses = ['text-2xl', 'text-xl', 'text-lg', 'text-base', 'text-base', 'text-base'];
+
+export const renderMarkdown = (source: string): string => {
+  const lines = escapeHtml(source).split(/\r?\n/);
+  const html: string[] = [];
+  let listType: 'ul' | 'ol' | null = null;
+  let inCode = false;
+
+  const closeList = () => {
+    if (listType) html.push(`</${listType}>`);
+    listType = null;
+  };
+
+  for (const line of lines) {
+    if (line.startsWith('```')) {
+      closeList();
+      html.push(inCode ? '</code></pre>' : '<pre class="p-3 my-2 rounded bg-gray-100 dark:bg-gray-900 overflow-x-auto"><code>');
+      inCode = !inCode;
+      continue;
+    }
+    if (inCode) {
+      html.push(`${line}\n`);
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = line.match(/^\s*[-*+]\s+(.*)$/);
+    const numbered = line.match(/^\s*\d+[.)]\s+(.*)$/);
+
+    if (heading) {
+      closeList();
+      html.push(`<h${heading[1].length} class="${headingClasses[heading[1].length - 1]} font-bold mt-4 mb-2">${renderInline(heading[2])}</h${heading[1].length}>`);
+    } else if (bullet || numbered) {
+      const type = bullet ? 'ul' : 'ol';
+      if (listType !== type) {
+        closeList();
+        html.push(`<${type} class="${type === 'ul' ? 'list-disc' : 'list-decimal'} pl-6 my-2">`);
+        listType = type;
+      }
+      html.push(`<li>${renderInline((bullet ?? numbered)![1])}</li>`);
+    } else if (line.startsWith('&gt;')) {
+      closeList();
+      html.push(`<blockquote class="border-l-4 border-gray-300 dark:border-gray-600 pl-3 my-2 text-gray-600 dark:text-gray-400">${renderInline(line.replace(/^&gt;\s?/, ''))}</blockquote>`);
+    } else if (line.trim() === '') {
+      closeList();
+    } else {
+      closeList();
+      html.push(`<p class="my-2">${renderInline(line)}</p>`);
+    }
+  }
+  closeList();
+  if (inCode) html.push('</code></pre>');
+  return html.join('');
+};
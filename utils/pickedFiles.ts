@@ -0,0 +1,51 @@
+// Files dropped or picked from the OS, with the folders they sit in relative to what was chosen:
+// dropping a "Trip" folder yields Trip/beach.jpg as { file: beach.jpg, folderPath: ['Trip'] }.
+export interface PickedFile {
+  file: File;
+  folderPath: string[];
+}
+
+// Files operating systems leave in folders on their own, which nobody means to upload.
+const SYSTEM_FILES = new Set(['.DS_Store', 'Thumbs.db', 'desktop.ini']);
+
+const readEntries = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+
+const readFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+const walk = async (entry: FileSystemEntry, folderPath: string[], into: PickedFile[]) => {
+  if (entry.isFile) {
+    if (!SYSTEM_FILES.has(entry.name)) into.push({ file: await readFile(entry as FileSystemFileEntry), folderPath });
+    return;
+  }
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  // Directories are listed in batches (100 at a time in Chrome) until an empty one comes back.
+  for (let batch = await readEntries(reader); batch.length > 0; batch = await readEntries(reader)) {
+    for (const child of batch) await walk(child, [...folderPath, entry.name], into);
+  }
+};
+
+/**
+ * Everything in a drop from the OS, walking into dropped folders. Browsers without the entries
+ * API only hand over the top-level files.
+ */
+export const readDroppedFiles = async (dataTransfer: DataTransfer): Promise<PickedFile[]> => {
+  // The entries have to be taken before the first await: the drop's data is gone once the event
+  // handler yields.
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.() ?? null);
+  if (entries.length === 0 || entries.includes(null)) {
+    return Array.from(dataTransfer.files).map(file => ({ file, folderPath: [] }));
+  }
+  const picked: PickedFile[] = [];
+  for (const entry of entries) await walk(entry!, [], picked);
+  return picked;
+};
+
+/** Files from an input, with their folders when it is a `webkitdirectory` folder picker. */
+export const readInputFiles = (files: FileList | null): PickedFile[] =>
+  Array.from(files ?? [])
+    .filter(file => !SYSTEM_FILES.has(file.name))
+    .map(file => ({ file, folderPath: file.webkitRelativePath ? file.webkitRelativePath.split('/').slice(0, -1) : [] }));
@@ -10,9 +10,15 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
       },
       plugins: [react()],
+      build: {
+        // services/backend awaits the dynamic import of the chosen backend at the top level.
+        target: 'es2022',
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // firebase | emulator | memory | local; see services/backend.
+        'process.env.LOCKER_BACKEND': JSON.stringify(env.LOCKER_BACKEND || 'firebase'),
       },
       resolve: {
         alias: {